@@ -0,0 +1,210 @@
+-- Brings a database created from 0_init up to the schema the later
+-- migrations build on. Databases that were set up with `prisma db push`
+-- already have all of this, so every statement here is a no-op for them.
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "NotificationPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "TargetAudience" AS ENUM ('ALL_USERS', 'SPECIFIC_ROLES', 'SPECIFIC_USERS');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "NotificationStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'SENT', 'CANCELLED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "RegistrationFieldType" AS ENUM ('TEXT', 'EMAIL', 'PHONE', 'NUMBER', 'TEXTAREA', 'SELECT', 'RADIO', 'CHECKBOX', 'DATE', 'FILE');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "SubmissionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'WAITLISTED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "ContactPosition" AS ENUM ('PRESIDENT', 'VICE_PRESIDENT', 'SECRETARY', 'TREASURER', 'ORGANIZING_SECRETARY', 'ACADEMIC_SECRETARY', 'ADMIN_STAFF', 'PATRON', 'OTHER');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'DEADLINE';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'REMINDER';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'REGISTRATION';
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "deletedByUser" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "published" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS "publishedAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "requiresRegistration" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "user_notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "notificationId" TEXT NOT NULL,
+    "read" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- 0_init stored one notification row per recipient. Each becomes a sent
+-- notification addressed to that user, with its read state moved to
+-- user_notifications. Old rows have no author; the recipient stands in.
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'notifications'
+      AND column_name = 'userId'
+  ) THEN
+    INSERT INTO "user_notifications" ("id", "userId", "notificationId", "read", "createdAt")
+    SELECT "id", "userId", "id", "read", "createdAt" FROM "notifications";
+
+    ALTER TABLE "notifications" ADD COLUMN "priority" "NotificationPriority" NOT NULL DEFAULT 'MEDIUM',
+    ADD COLUMN "targetAudience" "TargetAudience" NOT NULL DEFAULT 'ALL_USERS',
+    ADD COLUMN "targetRoles" "Role"[] DEFAULT ARRAY[]::"Role"[],
+    ADD COLUMN "targetUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    ADD COLUMN "scheduledFor" TIMESTAMP(3),
+    ADD COLUMN "sentAt" TIMESTAMP(3),
+    ADD COLUMN "linkText" TEXT,
+    ADD COLUMN "status" "NotificationStatus" NOT NULL DEFAULT 'DRAFT',
+    ADD COLUMN "createdById" TEXT,
+    ADD COLUMN "totalRecipients" INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN "readCount" INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN "updatedAt" TIMESTAMP(3);
+
+    UPDATE "notifications" SET
+      "targetAudience" = 'SPECIFIC_USERS',
+      "targetUserIds" = ARRAY["userId"],
+      "status" = 'SENT',
+      "sentAt" = "createdAt",
+      "createdById" = "userId",
+      "totalRecipients" = 1,
+      "readCount" = CASE WHEN "read" THEN 1 ELSE 0 END,
+      "updatedAt" = "createdAt";
+
+    ALTER TABLE "notifications" ALTER COLUMN "createdById" SET NOT NULL,
+    ALTER COLUMN "updatedAt" SET NOT NULL,
+    DROP COLUMN "userId",
+    DROP COLUMN "read";
+  END IF;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "contact_persons" (
+    "id" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "position" "ContactPosition" NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "photo" TEXT,
+    "bio" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_persons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "event_registration_forms" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_registration_forms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "event_registration_fields" (
+    "id" TEXT NOT NULL,
+    "formId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "fieldType" "RegistrationFieldType" NOT NULL,
+    "placeholder" TEXT,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "validation" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_registration_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "event_registration_submissions" (
+    "id" TEXT NOT NULL,
+    "formId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "responses" JSONB NOT NULL,
+    "status" "SubmissionStatus" NOT NULL DEFAULT 'PENDING',
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "attended" BOOLEAN NOT NULL DEFAULT false,
+    "attendanceMarkedAt" TIMESTAMP(3),
+    "attendanceMarkedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_registration_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "user_notifications_userId_notificationId_key" ON "user_notifications"("userId", "notificationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "event_registration_forms_eventId_key" ON "event_registration_forms"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "event_registration_submissions_formId_userId_key" ON "event_registration_submissions"("formId", "userId");
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "notifications" ADD CONSTRAINT "notifications_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "user_notifications" ADD CONSTRAINT "user_notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "user_notifications" ADD CONSTRAINT "user_notifications_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "event_registration_forms" ADD CONSTRAINT "event_registration_forms_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "event_registration_fields" ADD CONSTRAINT "event_registration_fields_formId_fkey" FOREIGN KEY ("formId") REFERENCES "event_registration_forms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "event_registration_submissions" ADD CONSTRAINT "event_registration_submissions_formId_fkey" FOREIGN KEY ("formId") REFERENCES "event_registration_forms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "event_registration_submissions" ADD CONSTRAINT "event_registration_submissions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
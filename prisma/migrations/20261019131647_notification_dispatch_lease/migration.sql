@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "dispatchAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "notifications_status_scheduledFor_idx" ON "notifications"("status", "scheduledFor");
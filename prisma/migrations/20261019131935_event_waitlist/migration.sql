@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "RegistrationStatus" ADD VALUE 'WAITLISTED';
+
+-- CreateIndex
+CREATE INDEX "event_registrations_eventId_status_createdAt_idx" ON "event_registrations"("eventId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "event_registration_submissions_eventId_status_createdAt_idx" ON "event_registration_submissions"("eventId", "status", "createdAt");
+
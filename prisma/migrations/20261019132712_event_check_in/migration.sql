@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "event_registrations" ADD COLUMN     "attendanceMarkedAt" TIMESTAMP(3),
+ADD COLUMN     "attendanceMarkedBy" TEXT,
+ADD COLUMN     "checkInNonce" TEXT;
+
+-- AlterTable
+ALTER TABLE "event_registration_submissions" ADD COLUMN     "checkInNonce" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_registrations_checkInNonce_key" ON "event_registrations"("checkInNonce");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_registration_submissions_checkInNonce_key" ON "event_registration_submissions"("checkInNonce");
+
@@ -0,0 +1,9 @@
+-- New enum values can't be used in the transaction that adds them, so they
+-- land here, ahead of the registration reconciliation that needs them
+
+-- AlterEnum
+ALTER TYPE "SubmissionStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+ALTER TYPE "RegistrationStatus" ADD VALUE 'PENDING' BEFORE 'REGISTERED';
+ALTER TYPE "RegistrationStatus" ADD VALUE 'REJECTED';
@@ -0,0 +1,70 @@
+-- DropIndex
+DROP INDEX "event_registration_submissions_checkInNonce_key";
+
+-- AlterTable
+ALTER TABLE "event_registration_submissions" DROP COLUMN "checkInNonce",
+ADD COLUMN     "registrationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_registration_submissions_registrationId_key" ON "event_registration_submissions"("registrationId");
+
+-- AddForeignKey
+ALTER TABLE "event_registration_submissions" ADD CONSTRAINT "event_registration_submissions_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "event_registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Link every form submission to an EventRegistration so both registration
+-- paths share one record for capacity, cancellation and attendance.
+
+-- Where a user has both a simple registration and a submission for the same
+-- event, merge them; the furthest-along status wins
+UPDATE "event_registrations" r SET
+  "status" = CASE
+    WHEN array_position(ARRAY['ATTENDED', 'REGISTERED', 'PENDING', 'WAITLISTED', 'REJECTED', 'CANCELLED']::"RegistrationStatus"[], r."status")
+      <= array_position(ARRAY['ATTENDED', 'REGISTERED', 'PENDING', 'WAITLISTED', 'REJECTED', 'CANCELLED']::"RegistrationStatus"[], s."registrationStatus")
+    THEN r."status"
+    ELSE s."registrationStatus"
+  END,
+  "createdAt" = LEAST(r."createdAt", s."createdAt"),
+  "attendanceMarkedAt" = COALESCE(r."attendanceMarkedAt", s."attendanceMarkedAt"),
+  "attendanceMarkedBy" = COALESCE(r."attendanceMarkedBy", s."attendanceMarkedBy"),
+  "updatedAt" = CURRENT_TIMESTAMP
+FROM (
+  SELECT *,
+    (CASE
+      WHEN "status" = 'APPROVED' AND "attended" THEN 'ATTENDED'
+      WHEN "status" = 'APPROVED' THEN 'REGISTERED'
+      ELSE "status"::text
+    END)::"RegistrationStatus" AS "registrationStatus"
+  FROM "event_registration_submissions"
+) s
+WHERE s."eventId" = r."eventId" AND s."userId" = r."userId";
+
+-- Submissions without a registration get one; it reuses the submission's id
+INSERT INTO "event_registrations" ("id", "eventId", "userId", "status", "attendanceMarkedAt", "attendanceMarkedBy", "createdAt", "updatedAt")
+SELECT s."id", s."eventId", s."userId",
+  (CASE
+    WHEN s."status" = 'APPROVED' AND s."attended" THEN 'ATTENDED'
+    WHEN s."status" = 'APPROVED' THEN 'REGISTERED'
+    ELSE s."status"::text
+  END)::"RegistrationStatus",
+  s."attendanceMarkedAt", s."attendanceMarkedBy", s."createdAt", CURRENT_TIMESTAMP
+FROM "event_registration_submissions" s
+WHERE NOT EXISTS (
+  SELECT 1 FROM "event_registrations" r
+  WHERE r."eventId" = s."eventId" AND r."userId" = s."userId"
+);
+
+UPDATE "event_registration_submissions" s SET "registrationId" = r."id"
+FROM "event_registrations" r
+WHERE r."eventId" = s."eventId" AND r."userId" = s."userId";
+
+-- Submission status and attendance mirror the registration from now on
+UPDATE "event_registration_submissions" s SET
+  "status" = (CASE
+    WHEN r."status" IN ('REGISTERED', 'ATTENDED') THEN 'APPROVED'
+    ELSE r."status"::text
+  END)::"SubmissionStatus",
+  "attended" = r."status" = 'ATTENDED',
+  "attendanceMarkedAt" = r."attendanceMarkedAt",
+  "attendanceMarkedBy" = r."attendanceMarkedBy"
+FROM "event_registrations" r
+WHERE s."registrationId" = r."id";
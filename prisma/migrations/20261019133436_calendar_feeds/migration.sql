@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "calendarFeedCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "calendarFeedTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarFeedTokenHash_key" ON "users"("calendarFeedTokenHash");
+
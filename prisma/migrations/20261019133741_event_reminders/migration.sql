@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "event_reminders" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "recipients" INTEGER NOT NULL DEFAULT 0,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_reminders_eventId_kind_key" ON "event_reminders"("eventId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
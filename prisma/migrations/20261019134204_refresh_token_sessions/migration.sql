@@ -0,0 +1,21 @@
+-- Old sessions carry no refresh token and can't be carried over; their
+-- users sign in again
+DELETE FROM "sessions";
+
+-- DropIndex
+DROP INDEX "sessions_token_key";
+
+-- AlterTable
+ALTER TABLE "sessions" DROP COLUMN "token",
+ADD COLUMN     "generation" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "refreshTokenHash" TEXT NOT NULL,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedReason" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_refreshTokenHash_key" ON "sessions"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_revokedAt_idx" ON "sessions"("userId", "revokedAt");
+
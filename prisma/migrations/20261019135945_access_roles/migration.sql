@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "access_roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "access_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_access_roles" (
+    "userId" TEXT NOT NULL,
+    "accessRoleId" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_access_roles_pkey" PRIMARY KEY ("userId","accessRoleId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "access_roles_name_key" ON "access_roles"("name");
+
+-- CreateIndex
+CREATE INDEX "user_access_roles_accessRoleId_idx" ON "user_access_roles"("accessRoleId");
+
+-- AddForeignKey
+ALTER TABLE "user_access_roles" ADD CONSTRAINT "user_access_roles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_access_roles" ADD CONSTRAINT "user_access_roles_accessRoleId_fkey" FOREIGN KEY ("accessRoleId") REFERENCES "access_roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,12 @@
+-- CreateIndex
+CREATE INDEX "activities_createdAt_idx" ON "activities"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "activities_userId_createdAt_idx" ON "activities"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "activities_entity_entityId_createdAt_idx" ON "activities"("entity", "entityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "activities_action_createdAt_idx" ON "activities"("action", "createdAt");
+
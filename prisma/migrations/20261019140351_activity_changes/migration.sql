@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "changes" JSONB;
+
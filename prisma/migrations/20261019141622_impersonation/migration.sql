@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "impersonatorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_impersonatorId_idx" ON "sessions"("impersonatorId");
+
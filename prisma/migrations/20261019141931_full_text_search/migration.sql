@@ -0,0 +1,111 @@
+-- AlterTable
+ALTER TABLE "blogs" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "gallery_images" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "albums" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "contact_persons" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "blogs_searchVector_idx" ON "blogs" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "events_searchVector_idx" ON "events" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "gallery_images_searchVector_idx" ON "gallery_images" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "albums_searchVector_idx" ON "albums" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "contact_persons_searchVector_idx" ON "contact_persons" USING GIN ("searchVector");
+
+
+-- Keep each table's "searchVector" up to date with triggers. Titles weigh
+-- most (A), short descriptive fields next (B), long text least (C); HTML
+-- tags are stripped and enum values (ORGANIZING_SECRETARY) turned into words.
+-- The text search configuration must match SEARCH_CONFIG in
+-- src/services/search.service.ts. Triggers only fire when an indexed column
+-- changes, so e.g. view counts don't re-index.
+CREATE FUNCTION blogs_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."excerpt", '')), 'B') ||
+    setweight(to_tsvector('english', regexp_replace(coalesce(NEW."content", ''), '<[^>]+>', ' ', 'g')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER blogs_search_vector
+BEFORE INSERT OR UPDATE OF "title", "excerpt", "content" ON "blogs"
+FOR EACH ROW EXECUTE FUNCTION blogs_search_vector();
+
+CREATE FUNCTION events_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."location", '')), 'B') ||
+    setweight(to_tsvector('english', regexp_replace(coalesce(NEW."description", ''), '<[^>]+>', ' ', 'g')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER events_search_vector
+BEFORE INSERT OR UPDATE OF "title", "location", "description" ON "events"
+FOR EACH ROW EXECUTE FUNCTION events_search_vector();
+
+CREATE FUNCTION gallery_images_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER gallery_images_search_vector
+BEFORE INSERT OR UPDATE OF "title", "description" ON "gallery_images"
+FOR EACH ROW EXECUTE FUNCTION gallery_images_search_vector();
+
+CREATE FUNCTION albums_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER albums_search_vector
+BEFORE INSERT OR UPDATE OF "name", "description" ON "albums"
+FOR EACH ROW EXECUTE FUNCTION albums_search_vector();
+
+CREATE FUNCTION contact_persons_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."fullName", '')), 'A') ||
+    setweight(to_tsvector('english', replace(NEW."position"::text, '_', ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."bio", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER contact_persons_search_vector
+BEFORE INSERT OR UPDATE OF "fullName", "position", "bio" ON "contact_persons"
+FOR EACH ROW EXECUTE FUNCTION contact_persons_search_vector();
+
+-- Index existing rows: a no-op update of an indexed column fires the trigger
+UPDATE "blogs" SET "title" = "title";
+UPDATE "events" SET "title" = "title";
+UPDATE "gallery_images" SET "title" = "title";
+UPDATE "albums" SET "name" = "name";
+UPDATE "contact_persons" SET "fullName" = "fullName";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "passwordless" BOOLEAN NOT NULL DEFAULT false;
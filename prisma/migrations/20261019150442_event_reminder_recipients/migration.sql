@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "event_reminders" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ALTER COLUMN "sentAt" DROP NOT NULL,
+ALTER COLUMN "sentAt" DROP DEFAULT;
+
+-- Reminders recorded so far were claimed and sent in one go
+UPDATE "event_reminders" SET "createdAt" = "sentAt";
+
+-- CreateTable
+CREATE TABLE "event_reminder_recipients" (
+    "id" TEXT NOT NULL,
+    "reminderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "emailedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_reminder_recipients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_reminder_recipients_userId_idx" ON "event_reminder_recipients"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_reminder_recipients_reminderId_userId_key" ON "event_reminder_recipients"("reminderId", "userId");
+
+-- CreateIndex
+CREATE INDEX "event_reminders_sentAt_idx" ON "event_reminders"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "event_reminder_recipients" ADD CONSTRAINT "event_reminder_recipients_reminderId_fkey" FOREIGN KEY ("reminderId") REFERENCES "event_reminders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_reminder_recipients" ADD CONSTRAINT "event_reminder_recipients_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
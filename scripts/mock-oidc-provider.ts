@@ -0,0 +1,242 @@
+// A minimal OpenID Connect provider for trying single sign-on locally.
+// It signs in whoever you type into its login form, so never expose it.
+//
+//   pnpm oidc:mock
+//
+// then point the backend at it:
+//   OIDC_ISSUER=http://localhost:4010
+//   OIDC_CLIENT_ID=bitsa-local
+//   OIDC_CLIENT_SECRET=bitsa-local-secret
+//
+// Supports discovery, the authorization code flow with PKCE, signed RS256
+// ID tokens (with nonce), JWKS and userinfo.
+import crypto from "crypto";
+import express from "express";
+import jwt from "jsonwebtoken";
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || "4010");
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || "bitsa-local";
+const CLIENT_SECRET =
+  process.env.MOCK_OIDC_CLIENT_SECRET || "bitsa-local-secret";
+const CODE_TTL_MS = 60 * 1000;
+
+// A fresh key each run; the backend re-reads the JWKS when it sees a new kid
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const KID = crypto.randomBytes(8).toString("hex");
+
+interface Profile {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+}
+
+interface PendingCode {
+  profile: Profile;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  scope: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Profile>();
+
+const escape = (value: unknown) =>
+  String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      }[char]!)
+  );
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "email", "profile"],
+    token_endpoint_auth_methods_supported: [
+      "client_secret_basic",
+      "client_secret_post",
+    ],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+app.get("/jwks", (req, res) => {
+  res.json({
+    keys: [
+      {
+        ...publicKey.export({ format: "jwk" }),
+        kid: KID,
+        use: "sig",
+        alg: "RS256",
+      },
+    ],
+  });
+});
+
+// Login form standing in for the real provider's login page
+app.get("/authorize", (req, res) => {
+  const { client_id, redirect_uri, response_type } = req.query;
+
+  if (client_id !== CLIENT_ID || response_type !== "code" || !redirect_uri) {
+    return res.status(400).send("Invalid authorization request");
+  }
+
+  const hidden = [
+    "redirect_uri",
+    "state",
+    "nonce",
+    "scope",
+    "code_challenge",
+    "code_challenge_method",
+  ]
+    .map(
+      (name) =>
+        `<input type="hidden" name="${name}" value="${escape(
+          req.query[name]
+        )}">`
+    )
+    .join("\n");
+
+  res.send(`<!DOCTYPE html>
+<html>
+<body style="font-family: sans-serif; max-width: 360px; margin: 40px auto">
+  <h2>Mock OIDC provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label>Subject (defaults to the email)<br><input name="sub" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body>
+</html>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { redirect_uri, state, nonce, scope, code_challenge, email } = req.body;
+
+  if (!redirect_uri || !email) {
+    return res.status(400).send("Email is required");
+  }
+
+  const code = crypto.randomBytes(24).toString("base64url");
+  codes.set(code, {
+    profile: {
+      sub: req.body.sub || `mock|${String(email).toLowerCase()}`,
+      email,
+      email_verified: Boolean(req.body.email_verified),
+      name: req.body.name || email,
+    },
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge || undefined,
+    scope: scope || "openid",
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const url = new URL(redirect_uri);
+  url.searchParams.set("code", code);
+  if (state) url.searchParams.set("state", state);
+  res.redirect(url.toString());
+});
+
+app.post("/token", (req, res) => {
+  // client_secret_basic, falling back to client_secret_post
+  const [basicId, basicSecret] = Buffer.from(
+    (req.get("authorization") || "").replace(/^Basic /, ""),
+    "base64"
+  )
+    .toString()
+    .split(":")
+    .map((part) => decodeURIComponent(part || ""));
+  const clientId = basicId || req.body.client_id;
+  const clientSecret = basicSecret || req.body.client_secret;
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (
+    req.body.grant_type !== "authorization_code" ||
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.redirectUri !== req.body.redirect_uri
+  ) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+
+  if (pending.codeChallenge) {
+    const challenge = crypto
+      .createHash("sha256")
+      .update(String(req.body.code_verifier || ""))
+      .digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      return res
+        .status(400)
+        .json({ error: "invalid_grant", error_description: "PKCE mismatch" });
+    }
+  }
+
+  const accessToken = crypto.randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, pending.profile);
+
+  const idToken = jwt.sign(
+    { ...pending.profile, nonce: pending.nonce },
+    privateKey,
+    {
+      algorithm: "RS256",
+      keyid: KID,
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      expiresIn: "5m",
+    }
+  );
+
+  res.json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: 300,
+    scope: pending.scope,
+    id_token: idToken,
+  });
+});
+
+app.get("/userinfo", (req, res) => {
+  const profile = accessTokens.get(
+    (req.get("authorization") || "").replace(/^Bearer /, "")
+  );
+  if (!profile) return res.status(401).json({ error: "invalid_token" });
+  res.json(profile);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider on ${ISSUER}`);
+  console.log(`  OIDC_ISSUER=${ISSUER}`);
+  console.log(`  OIDC_CLIENT_ID=${CLIENT_ID}`);
+  console.log(`  OIDC_CLIENT_SECRET=${CLIENT_SECRET}`);
+});
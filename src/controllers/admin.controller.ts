@@ -2,6 +2,17 @@
 import { Request, Response } from "express";
 import prisma from "../config/database";
 import bcrypt from "bcryptjs";
+import { SessionService } from "../services/session.service";
+import { LoginThrottleService } from "../services/login-throttle.service";
+import { ChangeDiffUtil } from "../utils/change-diff.util";
+import {
+  PasswordPolicyService,
+  PasswordPolicyError,
+} from "../services/password-policy.service";
+import {
+  AccountErasureService,
+  AccountErasureError,
+} from "../services/account-erasure.service";
 
 export class AdminController {
   // Get all users with pagination and search
@@ -155,6 +166,17 @@ export class AdminController {
         });
       }
 
+      // Staff with user:manage who aren't admins can't touch admin accounts
+      if (
+        AdminController.isAdminRole(user.role) &&
+        !AdminController.isAdminRole(req.user?.role)
+      ) {
+        return res.status(403).json({
+          success: false,
+          message: "Only admins can modify admin accounts",
+        });
+      }
+
       // Prevent modifying super admin if not super admin
       if (user.role === "SUPER_ADMIN" && req.user?.role !== "SUPER_ADMIN") {
         return res.status(403).json({
@@ -163,6 +185,20 @@ export class AdminController {
         });
       }
 
+      // Email, phone and student ID are what people sign in and reset
+      // passwords with; staff with user:manage could otherwise point them at
+      // themselves and take the account over
+      const identityChanged =
+        (email && email !== user.email) ||
+        (phone && phone !== user.phone) ||
+        (studentId && studentId !== user.studentId);
+      if (identityChanged && !AdminController.isAdminRole(req.user?.role)) {
+        return res.status(403).json({
+          success: false,
+          message: "Only admins can change a user's email, phone or student ID",
+        });
+      }
+
       // Check for unique constraints
       if (email && email !== user.email) {
         const emailExists = await prisma.user.findUnique({
@@ -224,6 +260,30 @@ export class AdminController {
         },
       });
 
+      const changes = ChangeDiffUtil.diff(user, updatedUser, [
+        "name",
+        "email",
+        "phone",
+        "course",
+        "yearOfStudy",
+        "studentId",
+      ]);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "UPDATE_USER",
+          entity: "User",
+          entityId: updatedUser.id,
+          description: `Updated user ${
+            updatedUser.name || updatedUser.studentId
+          }${ChangeDiffUtil.summarize(changes)}`,
+          changes: changes ?? undefined,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
       res.json({
         success: true,
         message: "User updated successfully",
@@ -251,6 +311,17 @@ export class AdminController {
         });
       }
 
+      // Staff with user:manage who aren't admins can't touch admin accounts
+      if (
+        AdminController.isAdminRole(user.role) &&
+        !AdminController.isAdminRole(req.user?.role)
+      ) {
+        return res.status(403).json({
+          success: false,
+          message: "Only admins can modify admin accounts",
+        });
+      }
+
       // Prevent deleting super admin
       if (user.role === "SUPER_ADMIN") {
         return res.status(403).json({
@@ -267,6 +338,8 @@ export class AdminController {
         });
       }
 
+      // Cut off access tokens still in use before the sessions disappear
+      await SessionService.revokeAllForUser(id, "ACCOUNT_DELETED");
       await prisma.user.delete({ where: { id } });
 
       res.json({
@@ -295,6 +368,17 @@ export class AdminController {
         });
       }
 
+      // Staff with user:manage who aren't admins can't touch admin accounts
+      if (
+        AdminController.isAdminRole(user.role) &&
+        !AdminController.isAdminRole(req.user?.role)
+      ) {
+        return res.status(403).json({
+          success: false,
+          message: "Only admins can modify admin accounts",
+        });
+      }
+
       // Prevent modifying super admin
       if (user.role === "SUPER_ADMIN" && req.user?.role !== "SUPER_ADMIN") {
         return res.status(403).json({
@@ -311,6 +395,17 @@ export class AdminController {
         });
       }
 
+      // Erased accounts stay inactive; pending ones are restored through
+      // the erasure endpoint so the schedule is cleared too
+      if (user.erasedAt || user.deletionScheduledFor) {
+        return res.status(400).json({
+          success: false,
+          message: user.erasedAt
+            ? "This account has been erased"
+            : "This account is scheduled for erasure. Restore it instead.",
+        });
+      }
+
       const updatedUser = await prisma.user.update({
         where: { id },
         data: { isActive: !user.isActive },
@@ -321,6 +416,10 @@ export class AdminController {
         },
       });
 
+      if (!updatedUser.isActive) {
+        await SessionService.revokeAllForUser(id, "ACCOUNT_DEACTIVATED");
+      }
+
       res.json({
         success: true,
         message: `User ${
@@ -337,6 +436,168 @@ export class AdminController {
     }
   }
 
+  // Accounts scheduled for erasure, soonest first
+  static async getPendingErasures(req: Request, res: Response) {
+    try {
+      const users = await AccountErasureService.listPending();
+
+      res.json({
+        success: true,
+        data: users,
+      });
+    } catch (error) {
+      console.error("Get pending erasures error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch pending erasures",
+      });
+    }
+  }
+
+  // Schedule an account for erasure after the grace period, or erase it now
+  // with { immediate: true } (admins only)
+  static async eraseUser(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const immediate = req.body?.immediate === true;
+
+      const user = await prisma.user.findUnique({ where: { id } });
+      if (!user || user.erasedAt) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      // Staff with user:manage who aren't admins can't touch admin accounts
+      // or skip the grace period
+      if (
+        (AdminController.isAdminRole(user.role) || immediate) &&
+        !AdminController.isAdminRole(req.user?.role)
+      ) {
+        return res.status(403).json({
+          success: false,
+          message: immediate
+            ? "Only admins can erase an account immediately"
+            : "Only admins can modify admin accounts",
+        });
+      }
+
+      if (id === req.user?.id) {
+        return res.status(403).json({
+          success: false,
+          message: "Cannot erase your own account here",
+        });
+      }
+
+      const context = {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      };
+
+      if (immediate) {
+        await AccountErasureService.erase(id, req.user!.id, context);
+
+        return res.json({
+          success: true,
+          message: "Account erased",
+        });
+      }
+
+      const scheduledFor = await AccountErasureService.schedule(
+        id,
+        req.user!.id,
+        context
+      );
+
+      res.json({
+        success: true,
+        message: "Account scheduled for erasure",
+        data: { deletionScheduledFor: scheduledFor },
+      });
+    } catch (error) {
+      if (error instanceof AccountErasureError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Erase user error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to erase user",
+      });
+    }
+  }
+
+  // Restore an account during its erasure grace period
+  static async cancelErasure(req: Request, res: Response) {
+    try {
+      await AccountErasureService.cancel(req.params.id, req.user!.id, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json({
+        success: true,
+        message: "Account restored",
+      });
+    } catch (error) {
+      if (error instanceof AccountErasureError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Cancel erasure error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to restore account",
+      });
+    }
+  }
+
+  // Lift a lockout caused by failed login attempts
+  static async unlockUser(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, name: true, studentId: true },
+      });
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const lockedForMs = await LoginThrottleService.lockedFor(user.id);
+      await LoginThrottleService.unlock(user.id);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ACCOUNT_UNLOCKED",
+          entity: "User",
+          entityId: user.id,
+          description: `Unlocked login for ${user.name || user.studentId}`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: lockedForMs
+          ? "User unlocked successfully"
+          : "User was not locked; failed attempts have been cleared",
+        data: { wasLocked: lockedForMs > 0 },
+      });
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to unlock user",
+      });
+    }
+  }
+
   // Update user role
   static async updateUserRole(req: Request, res: Response) {
     try {
@@ -350,6 +611,15 @@ export class AdminController {
         });
       }
 
+      // Base roles decide who holds every permission, so only admins set them
+      if (!AdminController.isAdminRole(req.user?.role)) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "Only admins can change base roles. Assign an access role instead.",
+        });
+      }
+
       const user = await prisma.user.findUnique({ where: { id } });
       if (!user) {
         return res.status(404).json({
@@ -392,6 +662,11 @@ export class AdminController {
         },
       });
 
+      // Access tokens carry the role, so make the user sign in again
+      if (updatedUser.role !== user.role) {
+        await SessionService.revokeAllForUser(id, "ROLE_CHANGED");
+      }
+
       res.json({
         success: true,
         message: "User role updated successfully",
@@ -492,4 +767,126 @@ export class AdminController {
       });
     }
   }
+
+  // Get admin-approval setting (new accounts wait for an admin instead of
+  // verifying their own email)
+  static async getAdminApprovalSetting(req: Request, res: Response) {
+    try {
+      const setting = await prisma.setting.findUnique({
+        where: { key: "require_admin_approval" },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          requireAdminApproval: setting?.value === "true" || false,
+        },
+      });
+    } catch (error) {
+      console.error("Get admin-approval setting error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch setting",
+      });
+    }
+  }
+
+  // Update admin-approval setting
+  static async updateAdminApprovalSetting(req: Request, res: Response) {
+    try {
+      const { requireAdminApproval } = req.body;
+
+      if (typeof requireAdminApproval !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "requireAdminApproval must be a boolean",
+        });
+      }
+
+      const setting = await prisma.setting.upsert({
+        where: { key: "require_admin_approval" },
+        update: { value: requireAdminApproval.toString() },
+        create: {
+          key: "require_admin_approval",
+          value: requireAdminApproval.toString(),
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Admin approval ${
+          requireAdminApproval ? "enabled" : "disabled"
+        } successfully`,
+        data: {
+          requireAdminApproval: setting.value === "true",
+        },
+      });
+    } catch (error) {
+      console.error("Update admin-approval setting error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update setting",
+      });
+    }
+  }
+
+  // Get password policy
+  static async getPasswordPolicySetting(req: Request, res: Response) {
+    try {
+      res.json({
+        success: true,
+        data: await PasswordPolicyService.getPolicy(),
+      });
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch setting",
+      });
+    }
+  }
+
+  // Update password policy (any subset of the fields). Applies to passwords
+  // set from now on; maxAgeDays also applies to existing old passwords.
+  static async updatePasswordPolicySetting(req: Request, res: Response) {
+    try {
+      const before = await PasswordPolicyService.getPolicy();
+      const policy = await PasswordPolicyService.setPolicy(req.body || {});
+      const changes = ChangeDiffUtil.diff(before, policy);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "UPDATE_PASSWORD_POLICY",
+          entity: "Setting",
+          entityId: "password_policy",
+          description: `Updated password policy${ChangeDiffUtil.summarize(
+            changes
+          )}`,
+          changes: changes ?? undefined,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: "Password policy updated successfully",
+        data: policy,
+      });
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Update password policy error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update setting",
+      });
+    }
+  }
+
+  private static isAdminRole(role?: string) {
+    return role === "ADMIN" || role === "SUPER_ADMIN";
+  }
 }
@@ -0,0 +1,298 @@
+// src/controllers/audit-log.controller.ts
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { ExportUtil, ExportColumn } from "../utils/export.util";
+import {
+  AuditLogService,
+  AuditLogError,
+  ActivityWithUser,
+  activityUserSelect,
+} from "../services/audit-log.service";
+
+// Exports beyond this need narrower filters
+const EXPORT_MAX_ROWS = 50000;
+
+export class AuditLogController {
+  // Search the activity log (?userId=&user=&action=&entity=&entityId=
+  // &ipAddress=&from=&to=&cursor=&limit=)
+  static async getActivities(req: Request, res: Response) {
+    try {
+      const { cursor, limit } = req.query as any;
+
+      const where = AuditLogService.buildWhere(req.query);
+      const page = await AuditLogService.search(where, { cursor, limit });
+
+      return res.status(200).json({
+        success: true,
+        data: page.items,
+        pagination: { nextCursor: page.nextCursor },
+      });
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Get activities error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch activity log",
+      });
+    }
+  }
+
+  // Everything that happened to one record, e.g. /entities/Event/:id
+  static async getEntityTimeline(req: Request, res: Response) {
+    try {
+      const { entity, entityId } = req.params;
+      const { cursor, limit } = req.query as any;
+
+      const where = AuditLogService.buildWhere({
+        ...req.query,
+        entity,
+        entityId,
+      });
+      const page = await AuditLogService.search(where, { cursor, limit });
+
+      return res.status(200).json({
+        success: true,
+        data: page.items,
+        pagination: { nextCursor: page.nextCursor },
+      });
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Get entity timeline error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch activity timeline",
+      });
+    }
+  }
+
+  // Field-level edit history of one record: only the entries that
+  // recorded a diff, newest first
+  static async getEntityChanges(req: Request, res: Response) {
+    try {
+      const { entity, entityId } = req.params;
+      const { cursor, limit } = req.query as any;
+
+      const where = AuditLogService.buildWhere({
+        ...req.query,
+        entity,
+        entityId,
+      });
+      const page = await AuditLogService.search(
+        { ...where, changes: { not: Prisma.DbNull } },
+        { cursor, limit }
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: page.items.map((activity) => ({
+          id: activity.id,
+          action: activity.action,
+          changes: activity.changes,
+          user: activity.user,
+          createdAt: activity.createdAt,
+        })),
+        pagination: { nextCursor: page.nextCursor },
+      });
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Get entity changes error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch change history",
+      });
+    }
+  }
+
+  // Distinct actions and entities with counts, for filter dropdowns
+  static async getFacets(req: Request, res: Response) {
+    try {
+      const [actions, entities] = await Promise.all([
+        prisma.activity.groupBy({
+          by: ["action"],
+          _count: { _all: true },
+          orderBy: { action: "asc" },
+        }),
+        prisma.activity.groupBy({
+          by: ["entity"],
+          _count: { _all: true },
+          orderBy: { entity: "asc" },
+        }),
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          actions: actions.map((row) => ({
+            action: row.action,
+            count: row._count._all,
+          })),
+          entities: entities.map((row) => ({
+            entity: row.entity,
+            count: row._count._all,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Get activity facets error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch activity filters",
+      });
+    }
+  }
+
+  // Export matching rows as CSV or XLSX (same filters as the search)
+  static async exportActivities(req: Request, res: Response) {
+    try {
+      const { format = "csv" } = req.query as any;
+
+      if (!ExportUtil.isFormat(format)) {
+        return res.status(400).json({
+          success: false,
+          message: "Format must be csv or xlsx",
+        });
+      }
+
+      const where = AuditLogService.buildWhere(req.query);
+
+      const total = await prisma.activity.count({ where });
+      if (total > EXPORT_MAX_ROWS) {
+        return res.status(400).json({
+          success: false,
+          message: `${total} rows match; narrow the filters to at most ${EXPORT_MAX_ROWS} rows`,
+        });
+      }
+
+      const activities = await prisma.activity.findMany({
+        where,
+        include: { user: { select: activityUserSelect } },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      });
+
+      const columns: ExportColumn<ActivityWithUser>[] = [
+        { header: "Time", value: (row) => row.createdAt, width: 22 },
+        { header: "Action", value: (row) => row.action, width: 24 },
+        { header: "Entity", value: (row) => row.entity, width: 16 },
+        { header: "Entity ID", value: (row) => row.entityId, width: 28 },
+        {
+          header: "Description",
+          value: (row) => row.description,
+          width: 50,
+        },
+        {
+          header: "Changes",
+          value: (row) => (row.changes ? JSON.stringify(row.changes) : null),
+          width: 50,
+        },
+        { header: "User ID", value: (row) => row.userId, width: 28 },
+        { header: "Student ID", value: (row) => row.user.studentId },
+        { header: "Name", value: (row) => row.user.name, width: 24 },
+        { header: "Email", value: (row) => row.user.email, width: 30 },
+        { header: "Role", value: (row) => row.user.role },
+        { header: "IP Address", value: (row) => row.ipAddress, width: 18 },
+        { header: "User Agent", value: (row) => row.userAgent, width: 40 },
+      ];
+
+      const file = await ExportUtil.build(
+        format,
+        "Activity",
+        columns,
+        activities
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "EXPORT_ACTIVITY_LOG",
+          entity: "Activity",
+          entityId: "export",
+          description: `Exported ${
+            activities.length
+          } activity rows as ${format.toUpperCase()}`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${ExportUtil.filename(
+          "activity-log",
+          file.extension
+        )}"`
+      );
+      return res.status(200).send(file.body);
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Export activities error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while exporting the activity log",
+      });
+    }
+  }
+
+  // Get how long activity rows are kept
+  static async getRetention(req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        data: { retentionDays: await AuditLogService.getRetentionDays() },
+      });
+    } catch (error) {
+      console.error("Get activity retention error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch setting",
+      });
+    }
+  }
+
+  // Set how long activity rows are kept (0 keeps them forever)
+  static async updateRetention(req: Request, res: Response) {
+    try {
+      const retentionDays = await AuditLogService.setRetentionDays(
+        Number(req.body.retentionDays)
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "UPDATE_ACTIVITY_RETENTION",
+          entity: "Setting",
+          entityId: "activity_retention_days",
+          description: retentionDays
+            ? `Activity log kept for ${retentionDays} days`
+            : "Activity log kept forever",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Retention updated successfully",
+        data: { retentionDays },
+      });
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Update activity retention error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update setting",
+      });
+    }
+  }
+}
@@ -1,16 +1,62 @@
 import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
 import prisma from "../config/database";
 import { PasswordUtil } from "../utils/password.util";
 import { TokenUtil } from "../utils/token.util";
 import { EmailUtil } from "../utils/email.util";
 import { ValidatorUtil } from "../utils/validator.util";
+import { VerificationUtil } from "../utils/verification.util";
+import { SessionService, SessionError } from "../services/session.service";
+import { ImpersonationService } from "../services/impersonation.service";
+import { LoginThrottleService } from "../services/login-throttle.service";
+import { RateLimitService } from "../services/rate-limit.service";
+import {
+  TwoFactorService,
+  TwoFactorError,
+} from "../services/two-factor.service";
+import { OidcService, OidcError } from "../services/oidc.service";
+import { PermissionService } from "../services/permission.service";
+import { UserImportService } from "../services/user-import.service";
+import { PasswordPolicyService } from "../services/password-policy.service";
 import {
   SignupRequest,
   LoginRequest,
   ForgotPasswordRequest,
   ResetPasswordRequest,
+  AcceptInviteRequest,
+  VerifyEmailRequest,
+  ResendVerificationRequest,
+  RefreshTokenRequest,
+  TwoFactorLoginRequest,
+  TwoFactorSetupLoginRequest,
+  OidcCallbackRequest,
+  MagicLinkRequest,
+  MagicLinkLoginRequest,
 } from "../types/auth.types";
 
+const EMAIL_VERIFICATION_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+const MAGIC_LINK_EXPIRY_MINUTES = parseInt(
+  process.env.MAGIC_LINK_EXPIRY_MINUTES || "15"
+);
+
+// User fields returned on login
+const loginUserSelect = {
+  id: true,
+  studentId: true,
+  email: true,
+  phone: true,
+  name: true,
+  role: true,
+  course: true,
+  yearOfStudy: true,
+  image: true,
+  isActive: true,
+  emailVerified: true,
+};
+
+type LoginUser = Prisma.UserGetPayload<{ select: typeof loginUserSelect }>;
+
 export class AuthController {
   // Signup/Register
   static async signup(req: Request<{}, {}, SignupRequest>, res: Response) {
@@ -43,8 +89,8 @@ export class AuthController {
         });
       }
 
-      // Validate password strength
-      const passwordValidation = PasswordUtil.validate(password);
+      // Validate password against the configured policy
+      const passwordValidation = await PasswordPolicyService.validate(password);
       if (!passwordValidation.isValid) {
         return res.status(400).json({
           success: false,
@@ -120,6 +166,17 @@ export class AuthController {
 
       const autoVerify = autoVerifySetting?.value === "true";
 
+      // Without auto-verify, students confirm their own email unless admins
+      // have chosen to approve every new account themselves
+      const adminApprovalSetting = autoVerify
+        ? null
+        : await prisma.setting.findUnique({
+            where: { key: "require_admin_approval" },
+          });
+
+      const requireAdminApproval = adminApprovalSetting?.value === "true";
+      const selfVerify = !autoVerify && !requireAdminApproval;
+
       // Create user
       const user = await prisma.user.create({
         data: {
@@ -130,8 +187,9 @@ export class AuthController {
           name: name ? ValidatorUtil.sanitizeInput(name) : null,
           course: course ? ValidatorUtil.sanitizeInput(course) : null,
           yearOfStudy: yearOfStudy || null,
+          passwordChangedAt: new Date(),
           emailVerified: autoVerify, // Auto-verify based on setting
-          isActive: autoVerify, // Auto-activate if auto-verify is on
+          isActive: autoVerify || selfVerify, // Admin approval activates later
         },
         select: {
           id: true,
@@ -149,38 +207,40 @@ export class AuthController {
         },
       });
 
-      // Generate token only if auto-verify is enabled
-      let token = null;
-      let expiresAt = null;
-
-      if (autoVerify) {
-        token = TokenUtil.generate({
-          userId: user.id,
-          studentId: user.studentId,
-          role: user.role,
-        });
-
-        expiresAt = TokenUtil.getExpirationDate();
-
-        // Create session
-        await prisma.session.create({
-          data: {
-            userId: user.id,
-            token,
-            expiresAt,
+      // Create session only if auto-verify is enabled
+      const tokens = autoVerify
+        ? await SessionService.create(user, {
             ipAddress: req.ip,
             userAgent: req.get("user-agent") || null,
-          },
-        });
+          })
+        : null;
+
+      if (selfVerify) {
+        // Send verification email (non-blocking); welcome follows on confirm
+        VerificationUtil.issue(
+          "email-verification",
+          user.id,
+          EMAIL_VERIFICATION_EXPIRY_MS
+        )
+          .then((verificationToken) =>
+            EmailUtil.sendVerificationEmail(
+              user.email,
+              user.name,
+              verificationToken
+            )
+          )
+          .catch((err) =>
+            console.error("Failed to send verification email:", err)
+          );
+      } else {
+        // Send welcome email (non-blocking)
+        EmailUtil.sendWelcomeEmail(
+          user.email,
+          user.name || "",
+          user.studentId
+        ).catch((err) => console.error("Failed to send welcome email:", err));
       }
 
-      // Send welcome email (non-blocking)
-      EmailUtil.sendWelcomeEmail(
-        user.email,
-        user.name || "",
-        user.studentId
-      ).catch((err) => console.error("Failed to send welcome email:", err));
-
       // Log activity
       await prisma.activity.create({
         data: {
@@ -190,6 +250,8 @@ export class AuthController {
           entityId: user.id,
           description: autoVerify
             ? "User account created and auto-verified"
+            : selfVerify
+            ? "User account created - pending email verification"
             : "User account created - pending verification",
           ipAddress: req.ip,
           userAgent: req.get("user-agent") || null,
@@ -200,10 +262,13 @@ export class AuthController {
         success: true,
         message: autoVerify
           ? "Account created successfully! Welcome to BITSA Club."
+          : selfVerify
+          ? "Registration successful! Please check your email to verify your account."
           : "Registration successful! Please wait for admin verification.",
         data: {
           user,
-          ...(autoVerify && { token, expiresAt }),
+          ...(!autoVerify && { verification: selfVerify ? "EMAIL" : "ADMIN" }),
+          ...tokens,
         },
       });
     } catch (error) {
@@ -237,20 +302,7 @@ export class AuthController {
             { phone: ValidatorUtil.sanitizeInput(studentId) },
           ],
         },
-        select: {
-          id: true,
-          studentId: true,
-          email: true,
-          phone: true,
-          name: true,
-          password: true,
-          role: true,
-          course: true,
-          yearOfStudy: true,
-          image: true,
-          isActive: true,
-          emailVerified: true,
-        },
+        select: { ...loginUserSelect, password: true, twoFactorEnabled: true },
       });
 
       if (!user) {
@@ -261,6 +313,12 @@ export class AuthController {
         });
       }
 
+      // Check if account is locked after too many failed attempts
+      const lockedForMs = await LoginThrottleService.lockedFor(user.id);
+      if (lockedForMs > 0) {
+        return AuthController.accountLocked(res, lockedForMs);
+      }
+
       // Check if account is active
       if (!user.isActive) {
         return res.status(403).json({
@@ -274,7 +332,8 @@ export class AuthController {
         return res.status(403).json({
           success: false,
           message:
-            "Your account is pending verification. Please wait for admin approval.",
+            "Please verify your email address before logging in. Check your inbox for the verification link or request a new one.",
+          data: { emailVerificationRequired: true },
         });
       }
 
@@ -285,63 +344,28 @@ export class AuthController {
       );
 
       if (!isPasswordValid) {
+        const lockedNowMs = await LoginThrottleService.recordFailure(user.id, {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        });
+        if (lockedNowMs > 0) {
+          return AuthController.accountLocked(res, lockedNowMs);
+        }
+
         return res.status(401).json({
           success: false,
           message: "Invalid credentials",
         });
       }
 
-      // Generate token
-      const token = TokenUtil.generate({
-        userId: user.id,
-        studentId: user.studentId,
-        role: user.role,
-      });
-
-      const expiresAt = TokenUtil.getExpirationDate();
-
-      // Create session
-      await prisma.session.create({
-        data: {
-          userId: user.id,
-          token,
-          expiresAt,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
-      // Update last login
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
-      });
-
-      // Log activity
-      await prisma.activity.create({
-        data: {
-          userId: user.id,
-          action: "LOGIN",
-          entity: "User",
-          entityId: user.id,
-          description: "User logged in",
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
+      const { password: _, twoFactorEnabled, ...loginUser } = user;
 
-      return res.status(200).json({
-        success: true,
-        message: "Login successful",
-        data: {
-          user: userWithoutPassword,
-          token,
-          expiresAt,
-        },
-      });
+      return AuthController.continueLogin(
+        req,
+        res,
+        loginUser,
+        twoFactorEnabled
+      );
     } catch (error) {
       console.error("Login error:", error);
       return res.status(500).json({
@@ -351,240 +375,1115 @@ export class AuthController {
     }
   }
 
-  // Logout
-  static async logout(req: Request, res: Response) {
+  // Login - second step with an authenticator or recovery code
+  static async loginTwoFactor(
+    req: Request<{}, {}, TwoFactorLoginRequest>,
+    res: Response
+  ) {
     try {
-      const token = req.headers.authorization?.replace("Bearer ", "");
+      const { challengeToken, code, recoveryCode } = req.body;
 
-      if (!token) {
+      if (!challengeToken || (!code && !recoveryCode)) {
         return res.status(400).json({
           success: false,
-          message: "No token provided",
+          message: "Challenge token and a code or recovery code are required",
+        });
+      }
+
+      const challenge = TokenUtil.verifyChallengeToken(
+        String(challengeToken),
+        "login"
+      );
+
+      const user = challenge
+        ? await prisma.user.findUnique({
+            where: { id: challenge.userId },
+            select: loginUserSelect,
+          })
+        : null;
+
+      if (!user || !user.isActive || !user.emailVerified) {
+        return res.status(401).json({
+          success: false,
+          message: "Your login attempt has expired. Please login again.",
         });
       }
 
-      // Delete session
-      await prisma.session.delete({
-        where: { token },
+      const lockedForMs = await LoginThrottleService.lockedFor(user.id);
+      if (lockedForMs > 0) {
+        return AuthController.accountLocked(res, lockedForMs);
+      }
+
+      const factor = await TwoFactorService.verify(user.id, {
+        code: code ? String(code) : undefined,
+        recoveryCode: recoveryCode ? String(recoveryCode) : undefined,
       });
 
-      // Log activity if user is available
-      if (req.user?.id) {
+      if (!factor) {
+        const lockedNowMs = await LoginThrottleService.recordFailure(user.id, {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        });
+        if (lockedNowMs > 0) {
+          return AuthController.accountLocked(res, lockedNowMs);
+        }
+
+        return res.status(401).json({
+          success: false,
+          message: code ? "Invalid verification code" : "Invalid recovery code",
+        });
+      }
+
+      if (factor === "recovery") {
         await prisma.activity.create({
           data: {
-            userId: req.user.id,
-            action: "LOGOUT",
+            userId: user.id,
+            action: "TWO_FACTOR_RECOVERY_CODE_USED",
             entity: "User",
-            entityId: req.user.id,
-            description: "User logged out",
+            entityId: user.id,
+            description: "Logged in with a two-factor recovery code",
             ipAddress: req.ip,
             userAgent: req.get("user-agent") || null,
           },
         });
       }
 
-      return res.status(200).json({
-        success: true,
-        message: "Logged out successfully",
+      return AuthController.completeLogin(req, res, user, {
+        passwordless: challenge.passwordless,
       });
     } catch (error) {
-      console.error("Logout error:", error);
+      console.error("Two-factor login error:", error);
       return res.status(500).json({
         success: false,
-        message: "An error occurred during logout",
+        message: "An error occurred during login. Please try again.",
       });
     }
   }
 
-  // Forgot Password
-  static async forgotPassword(
-    req: Request<{}, {}, ForgotPasswordRequest>,
+  // Login - enroll in mandatory 2FA (setup challenge from login)
+  static async setupTwoFactorLogin(
+    req: Request<{}, {}, TwoFactorSetupLoginRequest>,
     res: Response
   ) {
     try {
-      const { email } = req.body;
-
-      if (!email) {
-        return res.status(400).json({
-          success: false,
-          message: "Email is required",
-        });
-      }
-
-      if (!ValidatorUtil.isValidEmail(email)) {
-        return res.status(400).json({
-          success: false,
-          message: "Invalid email format",
-        });
-      }
-
-      // Find user by email
-      const user = await prisma.user.findUnique({
-        where: { email: email.toLowerCase() },
-      });
+      const { user } =
+        (await AuthController.findSetupChallenge(req.body.challengeToken)) ||
+        {};
 
-      // Always return success to prevent email enumeration
       if (!user) {
-        return res.status(200).json({
-          success: true,
-          message:
-            "If an account with that email exists, a password reset link has been sent.",
+        return res.status(401).json({
+          success: false,
+          message: "Your login attempt has expired. Please login again.",
         });
       }
 
-      // Generate reset token
-      const resetToken = TokenUtil.generateResetToken();
-      const resetTokenExpiry = TokenUtil.getResetTokenExpiry();
-
-      // Save reset token to database
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          resetToken,
-          resetTokenExpiry,
-        },
-      });
-
-      // Send reset email
-      await EmailUtil.sendPasswordResetEmail(user.email, resetToken);
-
-      // Log activity
-      await prisma.activity.create({
-        data: {
-          userId: user.id,
-          action: "PASSWORD_RESET_REQUESTED",
-          entity: "User",
-          entityId: user.id,
-          description: "Password reset requested",
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
+      const enrollment = await TwoFactorService.beginEnrollment(
+        user.id,
+        user.email
+      );
 
       return res.status(200).json({
         success: true,
         message:
-          "If an account with that email exists, a password reset link has been sent.",
+          "Scan the QR code with your authenticator app, then enter a code to confirm",
+        data: enrollment,
       });
     } catch (error) {
-      console.error("Forgot password error:", error);
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Two-factor setup login error:", error);
       return res.status(500).json({
         success: false,
-        message: "An error occurred. Please try again.",
+        message: "An error occurred during login. Please try again.",
       });
     }
   }
 
-  // Reset Password
-  static async resetPassword(
-    req: Request<{}, {}, ResetPasswordRequest>,
+  // Login - confirm mandatory 2FA enrollment and sign in
+  static async confirmTwoFactorLogin(
+    req: Request<{}, {}, TwoFactorSetupLoginRequest>,
     res: Response
   ) {
     try {
-      const { token, newPassword, confirmPassword } = req.body;
-
-      if (!token || !newPassword || !confirmPassword) {
-        return res.status(400).json({
-          success: false,
-          message: "Token, new password, and confirm password are required",
-        });
-      }
-
-      if (newPassword !== confirmPassword) {
-        return res.status(400).json({
-          success: false,
-          message: "Passwords do not match",
-        });
-      }
+      const { challengeToken, code } = req.body;
 
-      // Validate password strength
-      const passwordValidation = PasswordUtil.validate(newPassword);
-      if (!passwordValidation.isValid) {
+      if (!code) {
         return res.status(400).json({
           success: false,
-          message: passwordValidation.message,
+          message: "Verification code is required",
         });
       }
 
-      // Find user with valid reset token
-      const user = await prisma.user.findFirst({
-        where: {
-          resetToken: token,
-          resetTokenExpiry: {
-            gt: new Date(),
-          },
-        },
-      });
+      const { user, passwordless } =
+        (await AuthController.findSetupChallenge(challengeToken)) || {};
 
       if (!user) {
-        return res.status(400).json({
+        return res.status(401).json({
           success: false,
-          message: "Invalid or expired reset token",
+          message: "Your login attempt has expired. Please login again.",
         });
       }
 
-      // Hash new password
-      const hashedPassword = await PasswordUtil.hash(newPassword);
-
-      // Update password and clear reset token
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          password: hashedPassword,
-          resetToken: null,
-          resetTokenExpiry: null,
-        },
-      });
-
-      // Delete all existing sessions (force re-login)
-      await prisma.session.deleteMany({
-        where: { userId: user.id },
-      });
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(
+        user.id,
+        String(code)
+      );
 
-      // Log activity
       await prisma.activity.create({
         data: {
           userId: user.id,
-          action: "PASSWORD_RESET_COMPLETED",
+          action: "TWO_FACTOR_ENABLED",
           entity: "User",
           entityId: user.id,
-          description: "Password successfully reset",
+          description: "Enabled two-factor authentication",
           ipAddress: req.ip,
           userAgent: req.get("user-agent") || null,
         },
       });
 
+      return AuthController.completeLogin(req, res, user, {
+        passwordless,
+        extra: { recoveryCodes },
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Two-factor confirm login error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred during login. Please try again.",
+      });
+    }
+  }
+
+  // Single sign-on provider details for the login page
+  static async getOidcProvider(req: Request, res: Response) {
+    return res.status(200).json({
+      success: true,
+      data: OidcService.getProvider(),
+    });
+  }
+
+  // Single sign-on - step one: get the provider URL to redirect to
+  static async oidcAuthorize(req: Request, res: Response) {
+    try {
+      const url = await OidcService.createAuthorizationUrl(req, res, "login");
+
       return res.status(200).json({
         success: true,
-        message:
-          "Password reset successfully. Please login with your new password.",
+        data: { url },
       });
     } catch (error) {
-      console.error("Reset password error:", error);
+      if (error instanceof OidcError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("OIDC authorize error:", error);
       return res.status(500).json({
         success: false,
-        message: "An error occurred. Please try again.",
+        message: "An error occurred during login. Please try again.",
       });
     }
   }
 
-  // Get Current User
-  static async getCurrentUser(req: Request, res: Response) {
+  // Single sign-on - step two: the frontend posts the code and state the
+  // provider redirected back with, with credentials so the state cookie set
+  // in step one comes along. Finishes both logins and account links.
+  static async oidcCallback(
+    req: Request<{}, {}, OidcCallbackRequest>,
+    res: Response
+  ) {
     try {
-      const userId = req.user?.id;
+      const { code, state } = req.body;
 
-      if (!userId) {
-        return res.status(401).json({
+      if (!code || !state) {
+        return res.status(400).json({
           success: false,
-          message: "Unauthorized",
+          message: "Code and state are required",
         });
       }
 
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          id: true,
-          studentId: true,
+      OidcService.checkStateCookie(req, res, String(state));
+
+      const { flow, identity } = await OidcService.completeAuthorization(
+        String(code),
+        String(state)
+      );
+
+      if (flow.intent === "link") {
+        // Must come from the user who started the link, so nobody can attach
+        // their identity to someone else's account
+        if (!req.user || req.user.id !== flow.userId) {
+          return res.status(403).json({
+            success: false,
+            message: "Log in to the account you are linking and try again",
+          });
+        }
+        if (req.user.impersonatorId) {
+          return res.status(403).json({
+            success: false,
+            message: "This action isn't available while impersonating a user",
+          });
+        }
+
+        const account = await OidcService.link(req.user.id, identity);
+
+        await prisma.activity.create({
+          data: {
+            userId: req.user.id,
+            action: "ACCOUNT_LINKED",
+            entity: "User",
+            entityId: req.user.id,
+            description: `Linked ${OidcService.getProvider().name} account${
+              identity.email ? ` ${identity.email}` : ""
+            }`,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent") || null,
+          },
+        });
+
+        return res.status(200).json({
+          success: true,
+          message: "Account linked successfully",
+          data: {
+            linked: true,
+            account: {
+              id: account.id,
+              provider: account.provider,
+              email: account.email,
+              linkedAt: account.createdAt,
+            },
+          },
+        });
+      }
+
+      const { userId, linked } = await OidcService.resolveUser(identity);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { ...loginUserSelect, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message:
+            "User doesn't exist. Please signup first to create an account.",
+        });
+      }
+
+      if (linked) {
+        await prisma.activity.create({
+          data: {
+            userId: user.id,
+            action: "ACCOUNT_LINKED",
+            entity: "User",
+            entityId: user.id,
+            description: `Linked ${
+              OidcService.getProvider().name
+            } account by verified email ${identity.email}`,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent") || null,
+          },
+        });
+      }
+
+      // Same gates as password login
+      if (!user.isActive) {
+        return res.status(403).json({
+          success: false,
+          message: "Your account has been deactivated. Please contact admin.",
+        });
+      }
+
+      if (!user.emailVerified) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "Please verify your email address before logging in. Check your inbox for the verification link or request a new one.",
+          data: { emailVerificationRequired: true },
+        });
+      }
+
+      const { twoFactorEnabled, ...loginUser } = user;
+
+      return AuthController.continueLogin(
+        req,
+        res,
+        loginUser,
+        twoFactorEnabled,
+        true
+      );
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("OIDC callback error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred during login. Please try again.",
+      });
+    }
+  }
+
+  // Magic link - step one: email a single-use login link
+  static async requestMagicLink(
+    req: Request<{}, {}, MagicLinkRequest>,
+    res: Response
+  ) {
+    try {
+      const identifier = req.body.email || req.body.studentId;
+
+      if (!identifier || typeof identifier !== "string") {
+        return res.status(400).json({
+          success: false,
+          message: "Email or student ID is required",
+        });
+      }
+
+      // Same answer whether or not the account exists
+      const genericResponse = {
+        success: true,
+        message:
+          "If an account matches, a login link has been sent to its email address.",
+      };
+
+      const value = ValidatorUtil.sanitizeInput(identifier);
+      const user = await prisma.user.findFirst({
+        where: {
+          OR: [
+            { studentId: value },
+            { email: value.toLowerCase() },
+            { phone: value },
+          ],
+        },
+        select: { id: true, email: true, name: true, isActive: true },
+      });
+
+      // No point sending a link that login would refuse
+      if (!user || !user.isActive) {
+        return res.status(200).json(genericResponse);
+      }
+
+      const token = await VerificationUtil.issue(
+        "magic-link",
+        user.id,
+        MAGIC_LINK_EXPIRY_MINUTES * 60 * 1000
+      );
+
+      await EmailUtil.sendMagicLinkEmail(
+        user.email,
+        user.name,
+        token,
+        MAGIC_LINK_EXPIRY_MINUTES
+      );
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "MAGIC_LINK_REQUESTED",
+          entity: "User",
+          entityId: user.id,
+          description: "Login link requested",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json(genericResponse);
+    } catch (error) {
+      console.error("Request magic link error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Magic link - step two: exchange the token for a session
+  static async magicLinkLogin(
+    req: Request<{}, {}, MagicLinkLoginRequest>,
+    res: Response
+  ) {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({
+          success: false,
+          message: "Login token is required",
+        });
+      }
+
+      const userId = await VerificationUtil.consume(
+        "magic-link",
+        String(token)
+      );
+
+      const user = userId
+        ? await prisma.user.findUnique({
+            where: { id: userId },
+            select: { ...loginUserSelect, twoFactorEnabled: true },
+          })
+        : null;
+
+      if (!user) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid or expired login link. Please request a new one.",
+        });
+      }
+
+      // Same gates as password login
+      if (!user.isActive) {
+        return res.status(403).json({
+          success: false,
+          message: "Your account has been deactivated. Please contact admin.",
+        });
+      }
+
+      if (!user.emailVerified) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "Please verify your email address before logging in. Check your inbox for the verification link or request a new one.",
+          data: { emailVerificationRequired: true },
+        });
+      }
+
+      const { twoFactorEnabled, ...loginUser } = user;
+
+      return AuthController.continueLogin(
+        req,
+        res,
+        loginUser,
+        twoFactorEnabled,
+        true
+      );
+    } catch (error) {
+      console.error("Magic link login error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred during login. Please try again.",
+      });
+    }
+  }
+
+  // Create the session for a user who passed every login step. extra is
+  // added to the response (e.g. recovery codes from 2FA setup).
+  static async completeLogin(
+    req: Request,
+    res: Response,
+    user: LoginUser,
+    {
+      passwordless = false,
+      extra = {},
+    }: { passwordless?: boolean; extra?: Record<string, unknown> } = {}
+  ) {
+    // Passwords and codes count towards the same lockout until login completes
+    await LoginThrottleService.recordSuccess(user.id);
+
+    // No session until an expired password has been reset. Sign-ins that
+    // never used the password (SSO, magic link) aren't held up by its age.
+    const { passwordChangedAt, createdAt } = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { passwordChangedAt: true, createdAt: true },
+    });
+    if (
+      !passwordless &&
+      (await PasswordPolicyService.isExpired({ passwordChangedAt, createdAt }))
+    ) {
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "LOGIN_PASSWORD_EXPIRED",
+          entity: "User",
+          entityId: user.id,
+          description: "Login refused: password expired",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return AuthController.passwordExpired(res, extra);
+    }
+
+    // Create session
+    const tokens = await SessionService.create(user, {
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent") || null,
+      passwordless,
+    });
+
+    // Update last login
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    // Log activity
+    await prisma.activity.create({
+      data: {
+        userId: user.id,
+        action: "LOGIN",
+        entity: "User",
+        entityId: user.id,
+        description: "User logged in",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Login successful",
+      data: {
+        user,
+        ...tokens,
+        ...extra,
+      },
+    });
+  }
+
+  // Refresh Token
+  static async refresh(
+    req: Request<{}, {}, RefreshTokenRequest>,
+    res: Response
+  ) {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        return res.status(400).json({
+          success: false,
+          message: "Refresh token is required",
+        });
+      }
+
+      const { tokens } = await SessionService.refresh(String(refreshToken), {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Token refreshed",
+        data: tokens,
+      });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Refresh token error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Logout
+  static async logout(req: Request, res: Response) {
+    try {
+      const sessionId = req.user?.sessionId;
+
+      if (!sessionId) {
+        return res.status(400).json({
+          success: false,
+          message: "No token provided",
+        });
+      }
+
+      // Logging out of an impersonation session ends the impersonation
+      if (req.user.impersonatorId) {
+        await ImpersonationService.stop(sessionId, req.user.impersonatorId, {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        });
+
+        return res.status(200).json({
+          success: true,
+          message: "Logged out successfully",
+        });
+      }
+
+      // Revoke session (its refresh token stops working)
+      await SessionService.revoke(sessionId, "LOGOUT");
+
+      // Log activity if user is available
+      if (req.user?.id) {
+        await prisma.activity.create({
+          data: {
+            userId: req.user.id,
+            action: "LOGOUT",
+            entity: "User",
+            entityId: req.user.id,
+            description: "User logged out",
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent") || null,
+          },
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Logged out successfully",
+      });
+    } catch (error) {
+      console.error("Logout error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred during logout",
+      });
+    }
+  }
+
+  // Forgot Password
+  static async forgotPassword(
+    req: Request<{}, {}, ForgotPasswordRequest>,
+    res: Response
+  ) {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({
+          success: false,
+          message: "Email is required",
+        });
+      }
+
+      if (!ValidatorUtil.isValidEmail(email)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid email format",
+        });
+      }
+
+      // Find user by email
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+
+      // Always return success to prevent email enumeration
+      if (!user) {
+        return res.status(200).json({
+          success: true,
+          message:
+            "If an account with that email exists, a password reset link has been sent.",
+        });
+      }
+
+      // Generate reset token
+      const resetToken = TokenUtil.generateResetToken();
+      const resetTokenExpiry = TokenUtil.getResetTokenExpiry();
+
+      // Save reset token to database
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          resetToken,
+          resetTokenExpiry,
+        },
+      });
+
+      // Send reset email
+      await EmailUtil.sendPasswordResetEmail(user.email, resetToken);
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "PASSWORD_RESET_REQUESTED",
+          entity: "User",
+          entityId: user.id,
+          description: "Password reset requested",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message:
+          "If an account with that email exists, a password reset link has been sent.",
+      });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Reset Password
+  static async resetPassword(
+    req: Request<{}, {}, ResetPasswordRequest>,
+    res: Response
+  ) {
+    try {
+      const { token, newPassword, confirmPassword } = req.body;
+
+      if (!token || !newPassword || !confirmPassword) {
+        return res.status(400).json({
+          success: false,
+          message: "Token, new password, and confirm password are required",
+        });
+      }
+
+      if (newPassword !== confirmPassword) {
+        return res.status(400).json({
+          success: false,
+          message: "Passwords do not match",
+        });
+      }
+
+      // Find user with valid reset token
+      const user = await prisma.user.findFirst({
+        where: {
+          resetToken: token,
+          resetTokenExpiry: {
+            gt: new Date(),
+          },
+        },
+      });
+
+      if (!user) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid or expired reset token",
+        });
+      }
+
+      // Validate against the policy, including password reuse
+      const passwordValidation = await PasswordPolicyService.validate(
+        newPassword,
+        user.id
+      );
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: passwordValidation.message,
+        });
+      }
+
+      // Update password and clear reset token
+      await PasswordPolicyService.setPassword(user.id, newPassword, {
+        resetToken: null,
+        resetTokenExpiry: null,
+        invitedAt: null,
+      });
+      // A pending invite would let the password be set again
+      await VerificationUtil.revoke("account-invite", user.id);
+
+      // Revoke all existing sessions (force re-login)
+      await SessionService.revokeAllForUser(user.id, "PASSWORD_RESET");
+      // Proving control of the email lifts any login lockout
+      await LoginThrottleService.unlock(user.id);
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "PASSWORD_RESET_COMPLETED",
+          entity: "User",
+          entityId: user.id,
+          description: "Password successfully reset",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message:
+          "Password reset successfully. Please login with your new password.",
+      });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Accept Invite (set the first password on an imported account)
+  static async acceptInvite(
+    req: Request<{}, {}, AcceptInviteRequest>,
+    res: Response
+  ) {
+    try {
+      const { token, newPassword, confirmPassword } = req.body;
+
+      if (!token || !newPassword || !confirmPassword) {
+        return res.status(400).json({
+          success: false,
+          message: "Token, new password, and confirm password are required",
+        });
+      }
+
+      if (newPassword !== confirmPassword) {
+        return res.status(400).json({
+          success: false,
+          message: "Passwords do not match",
+        });
+      }
+
+      // Validate password against the configured policy
+      const passwordValidation = await PasswordPolicyService.validate(
+        newPassword
+      );
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: passwordValidation.message,
+        });
+      }
+
+      const user = await UserImportService.acceptInvite(
+        String(token),
+        newPassword
+      );
+
+      if (!user) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Invalid or expired invite link. Ask an administrator to send a new one.",
+        });
+      }
+
+      // Send welcome email (non-blocking)
+      EmailUtil.sendWelcomeEmail(
+        user.email,
+        user.name || "",
+        user.studentId
+      ).catch((err) => console.error("Failed to send welcome email:", err));
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "INVITE_ACCEPTED",
+          entity: "User",
+          entityId: user.id,
+          description: "Accepted invite and set password",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Password set successfully. You can now login.",
+      });
+    } catch (error) {
+      console.error("Accept invite error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Verify Email
+  static async verifyEmail(
+    req: Request<{}, {}, VerifyEmailRequest>,
+    res: Response
+  ) {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({
+          success: false,
+          message: "Verification token is required",
+        });
+      }
+
+      const userId = await VerificationUtil.consume(
+        "email-verification",
+        String(token)
+      );
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Invalid or expired verification link. Please request a new one.",
+        });
+      }
+
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerified: true },
+        select: { id: true, email: true, name: true, studentId: true },
+      });
+
+      // Send welcome email (non-blocking)
+      EmailUtil.sendWelcomeEmail(
+        user.email,
+        user.name || "",
+        user.studentId
+      ).catch((err) => console.error("Failed to send welcome email:", err));
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "EMAIL_VERIFIED",
+          entity: "User",
+          entityId: user.id,
+          description: "Email address verified",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Email verified successfully. You can now login.",
+      });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Resend Verification Email
+  static async resendVerification(
+    req: Request<{}, {}, ResendVerificationRequest>,
+    res: Response
+  ) {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({
+          success: false,
+          message: "Email is required",
+        });
+      }
+
+      if (!ValidatorUtil.isValidEmail(email)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid email format",
+        });
+      }
+
+      const genericResponse = {
+        success: true,
+        message:
+          "If an unverified account with that email exists, a new verification link has been sent.",
+      };
+
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          emailVerified: true,
+          isActive: true,
+        },
+      });
+
+      // Always return success to prevent email enumeration; accounts waiting
+      // for admin approval are inactive and can't verify themselves
+      if (!user || user.emailVerified || !user.isActive) {
+        return res.status(200).json(genericResponse);
+      }
+
+      const lastIssuedAt = await VerificationUtil.lastIssuedAt(
+        "email-verification",
+        user.id
+      );
+
+      // Within the cooldown nothing is sent, but the answer is the same so it
+      // doesn't give away that the account exists
+      if (
+        lastIssuedAt &&
+        Date.now() - lastIssuedAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS
+      ) {
+        return res.status(200).json(genericResponse);
+      }
+
+      const verificationToken = await VerificationUtil.issue(
+        "email-verification",
+        user.id,
+        EMAIL_VERIFICATION_EXPIRY_MS
+      );
+
+      await EmailUtil.sendVerificationEmail(
+        user.email,
+        user.name,
+        verificationToken
+      );
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId: user.id,
+          action: "EMAIL_VERIFICATION_RESENT",
+          entity: "User",
+          entityId: user.id,
+          description: "Verification email resent",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json(genericResponse);
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred. Please try again.",
+      });
+    }
+  }
+
+  // Password rules, so forms can show them before submitting
+  static async getPasswordPolicy(req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        data: await PasswordPolicyService.getPolicy(),
+      });
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred",
+      });
+    }
+  }
+
+  // Get Current User
+  static async getCurrentUser(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized",
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          studentId: true,
           email: true,
           phone: true,
           name: true,
@@ -597,6 +1496,7 @@ export class AuthController {
           emailVerified: true,
           createdAt: true,
           lastLoginAt: true,
+          passwordChangedAt: true,
         },
       });
 
@@ -607,9 +1507,35 @@ export class AuthController {
         });
       }
 
+      // The password expired since login: end the session so the user
+      // resets it before going on. A super admin impersonating, or a session
+      // started without the password, is let through.
+      if (
+        !req.user!.impersonatorId &&
+        (await PasswordPolicyService.isExpired(user))
+      ) {
+        const session = await prisma.session.findUnique({
+          where: { id: req.user!.sessionId },
+          select: { passwordless: true },
+        });
+
+        if (!session?.passwordless) {
+          await SessionService.revoke(req.user!.sessionId, "PASSWORD_EXPIRED");
+          return AuthController.passwordExpired(res);
+        }
+      }
+
+      // So the frontend can show the tools the user may use
+      const permissions = await PermissionService.getPermissions(user);
+
       return res.status(200).json({
         success: true,
-        data: { user },
+        data: {
+          user,
+          permissions: [...permissions],
+          // Set while a super admin is signed in as this user
+          impersonation: await ImpersonationService.describe(req.user!),
+        },
       });
     } catch (error) {
       console.error("Get current user error:", error);
@@ -619,4 +1545,93 @@ export class AuthController {
       });
     }
   }
+
+  // After the first factor (password, SSO or magic link): ask for 2FA or
+  // sign in
+  private static async continueLogin(
+    req: Request,
+    res: Response,
+    user: LoginUser,
+    twoFactorEnabled: boolean,
+    passwordless = false
+  ) {
+    // Second step: a code from the authenticator app
+    if (twoFactorEnabled) {
+      return res.status(200).json({
+        success: true,
+        message: "Enter the code from your authenticator app to continue",
+        data: {
+          twoFactorRequired: true,
+          challengeToken: TokenUtil.generateChallengeToken(
+            user.id,
+            "login",
+            passwordless
+          ),
+          challengeExpiresAt: TokenUtil.getChallengeExpiry(),
+        },
+      });
+    }
+
+    // 2FA is mandatory for this role but not set up yet
+    if (await TwoFactorService.isRequiredFor(user.role)) {
+      return res.status(200).json({
+        success: true,
+        message:
+          "Two-factor authentication is required for your account. Set it up to continue.",
+        data: {
+          twoFactorSetupRequired: true,
+          challengeToken: TokenUtil.generateChallengeToken(
+            user.id,
+            "setup",
+            passwordless
+          ),
+          challengeExpiresAt: TokenUtil.getChallengeExpiry(),
+        },
+      });
+    }
+
+    return AuthController.completeLogin(req, res, user, { passwordless });
+  }
+
+  private static async findSetupChallenge(challengeToken?: string) {
+    const challenge = challengeToken
+      ? TokenUtil.verifyChallengeToken(String(challengeToken), "setup")
+      : null;
+
+    const user = challenge
+      ? await prisma.user.findUnique({
+          where: { id: challenge.userId },
+          select: loginUserSelect,
+        })
+      : null;
+
+    return user && user.isActive && user.emailVerified
+      ? { user, passwordless: challenge.passwordless }
+      : null;
+  }
+
+  // Anything else passed along (e.g. new recovery codes) is still returned
+  private static passwordExpired(
+    res: Response,
+    extra: Record<string, unknown> = {}
+  ) {
+    return res.status(403).json({
+      success: false,
+      message:
+        "Your password has expired. Reset it using the forgot password link to continue.",
+      data: { passwordExpired: true, ...extra },
+    });
+  }
+
+  private static accountLocked(res: Response, lockedForMs: number) {
+    const retryAfter = Math.ceil(lockedForMs / 1000);
+    res.setHeader("Retry-After", String(retryAfter));
+    return res.status(429).json({
+      success: false,
+      message: `Too many failed login attempts. Please try again in ${RateLimitService.formatDuration(
+        lockedForMs
+      )} or reset your password.`,
+      data: { retryAfter },
+    });
+  }
 }
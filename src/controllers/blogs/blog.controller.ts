@@ -5,6 +5,8 @@ import {
   UpdateBlogData,
   BlogFilters,
 } from "../../types/blog.types";
+import { PermissionService } from "../../services/permission.service";
+import { ChangeDiffUtil } from "../../utils/change-diff.util";
 
 export class BlogController {
   // Get Single Blog by Slug (Public)
@@ -89,9 +91,8 @@ export class BlogController {
       // Check if user can view unpublished posts
       if (
         !blog.published &&
-        req.user?.role !== "ADMIN" &&
-        req.user?.role !== "SUPER_ADMIN" &&
-        req.user?.id !== blog.authorId
+        req.user?.id !== blog.authorId &&
+        !(await PermissionService.hasPermission(req.user, "blog:publish"))
       ) {
         console.log("⚠️ Blog is not published and user cannot view");
         return res.status(403).json({
@@ -298,8 +299,8 @@ export class BlogController {
       // Build where clause
       const where: any = {};
 
-      // If user is not admin, only show published posts
-      if (req.user?.role !== "ADMIN" && req.user?.role !== "SUPER_ADMIN") {
+      // If user is not an editor, only show published posts
+      if (!(await PermissionService.hasPermission(req.user, "blog:publish"))) {
         where.published = true;
         console.log("👤 Non-admin user: filtering for published blogs only");
       } else if (published !== undefined) {
@@ -542,7 +543,6 @@ export class BlogController {
         tags,
       } = req.body;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
 
       if (!userId) {
         return res.status(401).json({
@@ -554,6 +554,7 @@ export class BlogController {
       // Find existing blog
       const existingBlog = await prisma.blog.findUnique({
         where: { id },
+        include: { tags: { select: { name: true } } },
       });
 
       if (!existingBlog) {
@@ -563,11 +564,10 @@ export class BlogController {
         });
       }
 
-      // Check permissions: Admin or Author
+      // Check permissions: Editor or Author
       if (
-        userRole !== "ADMIN" &&
-        userRole !== "SUPER_ADMIN" &&
-        existingBlog.authorId !== userId
+        existingBlog.authorId !== userId &&
+        !(await PermissionService.hasPermission(req.user, "blog:publish"))
       ) {
         return res.status(403).json({
           success: false,
@@ -648,6 +648,13 @@ export class BlogController {
         },
       });
 
+      // Tags are compared by name
+      const changes = ChangeDiffUtil.diff(
+        { ...existingBlog, tags: existingBlog.tags.map((tag) => tag.name) },
+        { ...blog, tags: blog.tags.map((tag) => tag.name) },
+        Object.keys(updateData)
+      );
+
       // Log activity
       await prisma.activity.create({
         data: {
@@ -655,7 +662,10 @@ export class BlogController {
           action: "UPDATE_BLOG",
           entity: "Blog",
           entityId: blog.id,
-          description: `Updated blog post: ${blog.title}`,
+          description: `Updated blog post: ${
+            blog.title
+          }${ChangeDiffUtil.summarize(changes)}`,
+          changes: changes ?? undefined,
           ipAddress: req.ip,
           userAgent: req.get("user-agent") || null,
         },
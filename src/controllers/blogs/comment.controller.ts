@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import prisma from "../../config/database";
+import { PermissionService } from "../../services/permission.service";
 
 export class CommentController {
   // Add Comment (Authenticated Users)
@@ -94,12 +95,11 @@ export class CommentController {
     }
   }
 
-  // Delete Comment (Admin or Comment Author)
+  // Delete Comment (Moderator or Comment Author)
   static async deleteComment(req: Request, res: Response) {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
 
       if (!userId) {
         return res.status(401).json({
@@ -121,9 +121,8 @@ export class CommentController {
 
       // Check permissions
       if (
-        userRole !== "ADMIN" &&
-        userRole !== "SUPER_ADMIN" &&
-        comment.authorId !== userId
+        comment.authorId !== userId &&
+        !(await PermissionService.hasPermission(req.user, "comment:moderate"))
       ) {
         return res.status(403).json({
           success: false,
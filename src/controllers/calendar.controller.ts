@@ -0,0 +1,328 @@
+// src/controllers/calendar.controller.ts
+import { Request, Response } from "express";
+import { EventType, RegistrationStatus } from "@prisma/client";
+import prisma from "../config/database";
+import { TokenUtil } from "../utils/token.util";
+import { CalendarUtil, CalendarEvent } from "../utils/calendar.util";
+
+const calendarEventSelect = {
+  id: true,
+  slug: true,
+  title: true,
+  description: true,
+  location: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  category: { select: { name: true } },
+};
+
+// Registrations that still belong on the user's calendar
+const FEED_STATUSES: RegistrationStatus[] = [
+  "PENDING",
+  "REGISTERED",
+  "ATTENDED",
+  "WAITLISTED",
+];
+
+// Keep past events in feeds for a while so they don't vanish right away
+const FEED_HISTORY_DAYS = 90;
+
+export class CalendarController {
+  // Download a single published event as .ics
+  static async getEventIcs(req: Request, res: Response) {
+    try {
+      const { slug } = req.params;
+
+      const event = await prisma.event.findFirst({
+        where: { slug, published: true },
+        select: calendarEventSelect,
+      });
+
+      if (!event) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Event not found" });
+      }
+
+      const ics = CalendarUtil.build([event], { name: event.title });
+
+      return CalendarController.sendCalendar(
+        res,
+        ics,
+        `attachment; filename="${event.slug}.ics"`
+      );
+    } catch (error) {
+      console.error("Get event ics error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while generating the calendar file",
+      });
+    }
+  }
+
+  // Public feed of published events (?eventType=WORKSHOP&category=<id or slug>)
+  static async getPublicFeed(req: Request, res: Response) {
+    try {
+      const { eventType, category } = req.query as any;
+
+      // A repeated parameter (?category=a&category=b) arrives as an array
+      if (
+        (eventType !== undefined && typeof eventType !== "string") ||
+        (category !== undefined && typeof category !== "string")
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "eventType and category may each be given only once",
+        });
+      }
+
+      if (eventType && !Object.values(EventType).includes(eventType)) {
+        return res.status(400).json({
+          success: false,
+          message: `eventType must be one of: ${Object.values(EventType).join(
+            ", "
+          )}`,
+        });
+      }
+
+      const where: any = {
+        published: true,
+        endDate: { gte: CalendarController.historyStart() },
+      };
+      if (eventType) where.eventType = eventType;
+      if (category) {
+        where.category = { OR: [{ id: category }, { slug: category }] };
+      }
+
+      const events = await prisma.event.findMany({
+        where,
+        select: calendarEventSelect,
+        orderBy: { startDate: "asc" },
+      });
+
+      const ics = CalendarUtil.build(events, {
+        name: "BITSA Events",
+        description: "Upcoming events from BITSA",
+      });
+
+      return CalendarController.sendCalendar(
+        res,
+        ics,
+        'inline; filename="bitsa-events.ics"'
+      );
+    } catch (error) {
+      console.error("Get public calendar feed error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while generating the calendar feed",
+      });
+    }
+  }
+
+  // Personal feed of the events a user registered for; authenticated by the
+  // token in the URL because calendar apps can't send an Authorization header
+  static async getUserFeed(req: Request, res: Response) {
+    try {
+      const token = req.params.token.replace(/\.ics$/i, "");
+
+      const user = await prisma.user.findUnique({
+        where: { calendarFeedTokenHash: TokenUtil.hashToken(token) },
+        select: { id: true, isActive: true },
+      });
+
+      if (!user || !user.isActive) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Calendar feed not found" });
+      }
+
+      const registrations = await prisma.eventRegistration.findMany({
+        where: {
+          userId: user.id,
+          status: { in: FEED_STATUSES },
+          event: { endDate: { gte: CalendarController.historyStart() } },
+        },
+        select: { status: true, event: { select: calendarEventSelect } },
+        orderBy: { event: { startDate: "asc" } },
+      });
+
+      const statuses = new Map(
+        registrations.map((registration) => [
+          registration.event.id,
+          registration.status,
+        ])
+      );
+
+      const ics = CalendarUtil.build(
+        registrations.map((registration) => registration.event),
+        {
+          name: "My BITSA Events",
+          description: "Events you registered for on BITSA",
+          statusFor: (event: CalendarEvent) => {
+            if (event.status === "CANCELLED") return "CANCELLED";
+            const status = statuses.get(event.id);
+            return status === "PENDING" || status === "WAITLISTED"
+              ? "TENTATIVE"
+              : "CONFIRMED";
+          },
+        }
+      );
+
+      res.setHeader("Cache-Control", "private, max-age=900");
+      return CalendarController.sendCalendar(
+        res,
+        ics,
+        'inline; filename="my-bitsa-events.ics"'
+      );
+    } catch (error) {
+      console.error("Get user calendar feed error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while generating the calendar feed",
+      });
+    }
+  }
+
+  // Whether the current user has a calendar feed
+  static async getFeedStatus(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { calendarFeedTokenHash: true, calendarFeedCreatedAt: true },
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          enabled: !!user?.calendarFeedTokenHash,
+          createdAt: user?.calendarFeedCreatedAt || null,
+        },
+      });
+    } catch (error) {
+      console.error("Get calendar feed status error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while fetching calendar feed",
+      });
+    }
+  }
+
+  // Create (or replace) the current user's feed URL; old URLs stop working
+  static async createFeed(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const token = TokenUtil.generateResetToken();
+      const createdAt = new Date();
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          calendarFeedTokenHash: TokenUtil.hashToken(token),
+          calendarFeedCreatedAt: createdAt,
+        },
+      });
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "CREATE_CALENDAR_FEED",
+          entity: "User",
+          entityId: userId,
+          description: "Created calendar feed link",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      const baseUrl =
+        process.env.API_URL || `${req.protocol}://${req.get("host")}`;
+      const url = `${baseUrl}/api/events/calendar/feed/${token}.ics`;
+
+      // The token is only shown once; only its hash is stored
+      return res.status(201).json({
+        success: true,
+        message: "Calendar feed created",
+        data: {
+          url,
+          webcalUrl: url.replace(/^https?:/, "webcal:"),
+          createdAt,
+        },
+      });
+    } catch (error) {
+      console.error("Create calendar feed error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while creating calendar feed",
+      });
+    }
+  }
+
+  // Revoke the current user's feed URL
+  static async revokeFeed(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { calendarFeedTokenHash: null, calendarFeedCreatedAt: null },
+      });
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "REVOKE_CALENDAR_FEED",
+          entity: "User",
+          entityId: userId,
+          description: "Revoked calendar feed link",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Calendar feed revoked",
+      });
+    } catch (error) {
+      console.error("Revoke calendar feed error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while revoking calendar feed",
+      });
+    }
+  }
+
+  private static sendCalendar(res: Response, ics: string, disposition: string) {
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", disposition);
+    return res.status(200).send(ics);
+  }
+
+  private static historyStart(): Date {
+    return new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,193 @@
+// src/controllers/check-in.controller.ts
+import { Request, Response } from "express";
+import prisma from "../config/database";
+import { CheckInUtil } from "../utils/check-in.util";
+import { RegistrationService } from "../services/registration.service";
+
+export class CheckInController {
+  // Get the student's QR check-in code for an event (?format=png|svg|json)
+  static async getMyCheckInCode(req: Request, res: Response) {
+    try {
+      const { eventId } = req.params;
+      const { format = "png" } = req.query as any;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!["png", "svg", "json"].includes(format)) {
+        return res.status(400).json({
+          success: false,
+          message: "Format must be png, svg or json",
+        });
+      }
+
+      const event = await prisma.event.findUnique({
+        where: { id: eventId },
+        select: { id: true, title: true, endDate: true, status: true },
+      });
+
+      if (!event) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Event not found" });
+      }
+
+      if (event.status === "CANCELLED") {
+        return res
+          .status(400)
+          .json({ success: false, message: "This event has been cancelled" });
+      }
+
+      const registration = await prisma.eventRegistration.findUnique({
+        where: { eventId_userId: { eventId, userId } },
+      });
+
+      if (registration?.status === "ATTENDED") {
+        return res.status(409).json({
+          success: false,
+          message: "You have already checked in to this event",
+        });
+      }
+
+      // Pending (unapproved) and waitlisted registrations don't get a code
+      if (registration?.status !== "REGISTERED") {
+        return res.status(404).json({
+          success: false,
+          message: "You do not have a confirmed registration for this event",
+        });
+      }
+
+      if (!registration.checkInNonce) {
+        await prisma.eventRegistration.updateMany({
+          where: { id: registration.id, checkInNonce: null },
+          data: { checkInNonce: CheckInUtil.generateNonce() },
+        });
+      }
+
+      const { checkInNonce } = await prisma.eventRegistration.findUniqueOrThrow(
+        {
+          where: { id: registration.id },
+          select: { checkInNonce: true },
+        }
+      );
+
+      const token = CheckInUtil.sign(
+        { registrationId: registration.id, eventId, nonce: checkInNonce! },
+        event.endDate
+      );
+
+      if (format === "json") {
+        return res.status(200).json({ success: true, data: { token } });
+      }
+
+      const image = await CheckInUtil.renderQr(token, format);
+
+      res.setHeader(
+        "Content-Type",
+        format === "svg" ? "image/svg+xml" : "image/png"
+      );
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(200).send(image);
+    } catch (error) {
+      console.error("Get check-in code error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while generating the check-in code",
+      });
+    }
+  }
+
+  // Scan a check-in code and mark the attendee present (admin)
+  static async checkIn(req: Request, res: Response) {
+    try {
+      const { eventId } = req.params;
+      const { token } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!token || typeof token !== "string") {
+        return res
+          .status(400)
+          .json({ success: false, message: "Check-in code is required" });
+      }
+
+      const payload = CheckInUtil.verify(token.trim());
+
+      if (!payload) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid or expired check-in code",
+        });
+      }
+
+      if (payload.eventId !== eventId) {
+        return res.status(400).json({
+          success: false,
+          message: "This check-in code is for a different event",
+        });
+      }
+
+      const registration = await prisma.eventRegistration.findUnique({
+        where: { id: payload.registrationId },
+        include: {
+          user: {
+            select: { id: true, name: true, studentId: true, image: true },
+          },
+        },
+      });
+
+      if (!registration || registration.eventId !== eventId) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Registration not found" });
+      }
+
+      const attendee = registration.user;
+
+      if (!["REGISTERED", "ATTENDED"].includes(registration.status)) {
+        return res.status(400).json({
+          success: false,
+          message: "This registration is not confirmed",
+          data: { attendee },
+        });
+      }
+
+      // Only matches while the nonce is unused, so replays fail
+      const checkedIn = await RegistrationService.checkIn(
+        registration.id,
+        payload.nonce,
+        userId,
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
+
+      if (!checkedIn) {
+        return res.status(409).json({
+          success: false,
+          message: "This check-in code has already been used",
+          data: { attendee },
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Checked in successfully",
+        data: { attendee, checkedInAt: new Date() },
+      });
+    } catch (error) {
+      console.error("Check-in error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while checking in",
+      });
+    }
+  }
+}
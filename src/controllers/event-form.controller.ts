@@ -1,6 +1,14 @@
 // src/controllers/event-form.controller.ts
 import { Request, Response } from "express";
 import prisma from "../config/database";
+import { WaitlistUtil } from "../utils/waitlist.util";
+import { FormValidatorUtil } from "../utils/form-validator.util";
+import { FileStorageUtil } from "../utils/file-storage.util";
+import { ExportUtil, ExportColumn } from "../utils/export.util";
+import {
+  RegistrationService,
+  RegistrationError,
+} from "../services/registration.service";
 
 export class EventFormController {
   // Create or update registration form for an event
@@ -32,6 +40,15 @@ export class EventFormController {
         });
       }
 
+      const fieldErrors = FormValidatorUtil.validateFieldDefinitions(fields);
+      if (Object.keys(fieldErrors).length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: fieldErrors,
+        });
+      }
+
       // Check if form already exists
       const existingForm = await prisma.eventRegistrationForm.findUnique({
         where: { eventId },
@@ -164,7 +181,7 @@ export class EventFormController {
   // Submit registration form (student)
   static async submitForm(req: Request, res: Response) {
     try {
-      const { formId, responses } = req.body;
+      const { formId } = req.body;
       const userId = req.user?.id;
 
       if (!userId) {
@@ -173,13 +190,28 @@ export class EventFormController {
           .json({ success: false, message: "Unauthorized" });
       }
 
-      // Get form with event details
+      // Multipart submissions send responses as a JSON string
+      let responses = req.body.responses;
+      if (typeof responses === "string") {
+        try {
+          responses = JSON.parse(responses);
+        } catch {
+          return res.status(400).json({
+            success: false,
+            message: "Responses must be valid JSON",
+          });
+        }
+      }
+
+      // Uploaded files are named after the FILE field they answer
+      const files: Record<string, Express.Multer.File> = {};
+      for (const file of (req.files as Express.Multer.File[]) || []) {
+        files[file.fieldname] = file;
+      }
+
       const form = await prisma.eventRegistrationForm.findUnique({
         where: { id: formId },
-        include: {
-          fields: true,
-          event: true,
-        },
+        select: { eventId: true },
       });
 
       if (!form) {
@@ -189,96 +221,32 @@ export class EventFormController {
         });
       }
 
-      // Check if event is still accepting registrations
-      if (
-        form.event.registrationDeadline &&
-        new Date() > form.event.registrationDeadline
-      ) {
-        return res.status(400).json({
-          success: false,
-          message: "Registration deadline has passed",
+      const { submission, waitlistPosition, requiresApproval } =
+        await RegistrationService.register(
+          { eventId: form.eventId, userId, responses: responses || {}, files },
+          { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+        );
+
+      if (waitlistPosition) {
+        return res.status(201).json({
+          success: true,
+          message: `Event is full - you have been added to the waitlist (position ${waitlistPosition})`,
+          data: { submission, waitlistPosition },
         });
       }
 
-      // Check if already submitted
-      const existing = await prisma.eventRegistrationSubmission.findUnique({
-        where: {
-          formId_userId: { formId, userId },
-        },
-      });
-
-      if (existing) {
-        return res.status(409).json({
-          success: false,
-          message: "You have already submitted a registration for this event",
-        });
-      }
-
-      // Validate required fields
-      for (const field of form.fields) {
-        if (field.required && !responses[field.id]) {
-          return res.status(400).json({
-            success: false,
-            message: `${field.label} is required`,
-          });
-        }
-      }
-
-      // Create submission
-      const submission = await prisma.eventRegistrationSubmission.create({
-        data: {
-          formId,
-          userId,
-          eventId: form.eventId,
-          responses,
-          status: form.requiresApproval ? "PENDING" : "APPROVED",
-          approvedAt: form.requiresApproval ? null : new Date(),
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              studentId: true,
-              email: true,
-              image: true,
-            },
-          },
-          form: {
-            include: {
-              event: {
-                select: {
-                  id: true,
-                  title: true,
-                  startDate: true,
-                  location: true,
-                },
-              },
-            },
-          },
-        },
-      });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "SUBMIT_REGISTRATION",
-          entity: "EventRegistrationSubmission",
-          entityId: submission.id,
-          description: `Submitted registration for: ${form.event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
       return res.status(201).json({
         success: true,
-        message: form.requiresApproval
+        message: requiresApproval
           ? "Registration submitted successfully. Awaiting approval."
           : "Registration successful!",
         data: { submission },
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Submit registration form error:", error);
       return res.status(500).json({
         success: false,
@@ -358,72 +326,205 @@ export class EventFormController {
     }
   }
 
-  // Approve/Reject submission (admin)
-  static async updateSubmissionStatus(req: Request, res: Response) {
+  // Export submissions with one column per form field as CSV or XLSX (admin)
+  static async exportSubmissions(req: Request, res: Response) {
     try {
-      const { id } = req.params;
-      const { status, rejectionReason } = req.body;
+      const { eventId } = req.params;
+      const { format = "csv", status } = req.query as any;
       const userId = req.user?.id;
 
-      if (!userId) {
-        return res
-          .status(401)
-          .json({ success: false, message: "Unauthorized" });
-      }
-
-      if (!["APPROVED", "REJECTED", "WAITLISTED"].includes(status)) {
+      if (!ExportUtil.isFormat(format)) {
         return res.status(400).json({
           success: false,
-          message: "Invalid status",
+          message: "Format must be csv or xlsx",
         });
       }
 
-      const submission = await prisma.eventRegistrationSubmission.findUnique({
-        where: { id },
-        include: {
-          user: { select: { name: true, email: true } },
-          form: { include: { event: true } },
+      const event = await prisma.event.findUnique({
+        where: { id: eventId },
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          registrationForm: {
+            include: { fields: { orderBy: { order: "asc" } } },
+          },
         },
       });
 
-      if (!submission) {
+      if (!event) {
+        return res.status(404).json({
+          success: false,
+          message: "Event not found",
+        });
+      }
+
+      if (!event.registrationForm) {
         return res.status(404).json({
           success: false,
-          message: "Submission not found",
+          message: "This event has no registration form",
         });
       }
 
-      const updated = await prisma.eventRegistrationSubmission.update({
-        where: { id },
-        data: {
-          status,
-          approvedBy: status === "APPROVED" ? userId : null,
-          approvedAt: status === "APPROVED" ? new Date() : null,
-          rejectionReason: status === "REJECTED" ? rejectionReason : null,
-        },
+      const where: any = { eventId };
+      if (status) where.status = status;
+
+      const submissions = await prisma.eventRegistrationSubmission.findMany({
+        where,
+        orderBy: { createdAt: "asc" },
         include: {
           user: {
             select: {
-              id: true,
-              name: true,
               studentId: true,
+              name: true,
               email: true,
+              phone: true,
+              course: true,
+              yearOfStudy: true,
             },
           },
         },
       });
 
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: `${status}_REGISTRATION`,
-          entity: "EventRegistrationSubmission",
-          entityId: id,
-          description: `${status} registration for: ${submission.form.event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
+      // approvedBy/attendanceMarkedBy hold user IDs; show who they are
+      const staffIds = new Set<string>();
+      submissions.forEach((submission) => {
+        if (submission.approvedBy) staffIds.add(submission.approvedBy);
+        if (submission.attendanceMarkedBy)
+          staffIds.add(submission.attendanceMarkedBy);
+      });
+      const staff = await prisma.user.findMany({
+        where: { id: { in: Array.from(staffIds) } },
+        select: { id: true, name: true, studentId: true },
+      });
+      const staffNames = new Map(
+        staff.map((user) => [user.id, user.name || user.studentId])
+      );
+
+      type Row = (typeof submissions)[number];
+      const columns: ExportColumn<Row>[] = [
+        { header: "Student ID", value: (row) => row.user.studentId },
+        { header: "Name", value: (row) => row.user.name, width: 24 },
+        { header: "Email", value: (row) => row.user.email, width: 30 },
+        { header: "Phone", value: (row) => row.user.phone, width: 16 },
+        { header: "Course", value: (row) => row.user.course, width: 24 },
+        { header: "Year of Study", value: (row) => row.user.yearOfStudy },
+        ...event.registrationForm.fields.map(
+          (field): ExportColumn<Row> => ({
+            header: field.label,
+            width: 24,
+            value: (row) =>
+              EventFormController.formatResponse(
+                field.fieldType,
+                (row.responses as any)?.[field.id]
+              ),
+          })
+        ),
+        { header: "Status", value: (row) => row.status },
+        { header: "Submitted At", value: (row) => row.createdAt, width: 22 },
+        {
+          header: "Approved By",
+          value: (row) => row.approvedBy && staffNames.get(row.approvedBy),
+          width: 20,
+        },
+        { header: "Approved At", value: (row) => row.approvedAt, width: 22 },
+        {
+          header: "Rejection Reason",
+          value: (row) => row.rejectionReason,
+          width: 30,
+        },
+        { header: "Attended", value: (row) => (row.attended ? "Yes" : "No") },
+        {
+          header: "Attendance Marked By",
+          value: (row) =>
+            row.attendanceMarkedBy && staffNames.get(row.attendanceMarkedBy),
+          width: 20,
         },
+        {
+          header: "Attendance Marked At",
+          value: (row) => row.attendanceMarkedAt,
+          width: 22,
+        },
+      ];
+
+      const file = await ExportUtil.build(
+        format,
+        "Registrations",
+        columns,
+        submissions
+      );
+
+      if (userId) {
+        await prisma.activity.create({
+          data: {
+            userId,
+            action: "EXPORT_SUBMISSIONS",
+            entity: "Event",
+            entityId: event.id,
+            description: `Exported ${submissions.length} registrations for ${
+              event.title
+            } as ${format.toUpperCase()}`,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent") || null,
+          },
+        });
+      }
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${ExportUtil.filename(
+          `${event.slug}-registrations`,
+          file.extension
+        )}"`
+      );
+      return res.status(200).send(file.body);
+    } catch (error) {
+      console.error("Export submissions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while exporting submissions",
       });
+    }
+  }
+
+  // Approve/Reject submission (admin)
+  static async updateSubmissionStatus(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { status, rejectionReason } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!["APPROVED", "REJECTED", "WAITLISTED"].includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid status",
+        });
+      }
+
+      const registrationId =
+        await RegistrationService.getRegistrationIdForSubmission(id);
+
+      if (!registrationId) {
+        return res.status(404).json({
+          success: false,
+          message: "Submission not found",
+        });
+      }
+
+      const updated = await RegistrationService.review(
+        registrationId,
+        status,
+        userId,
+        rejectionReason || null,
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
 
       return res.status(200).json({
         success: true,
@@ -431,6 +532,10 @@ export class EventFormController {
         data: { submission: updated },
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Update submission status error:", error);
       return res.status(500).json({
         success: false,
@@ -439,6 +544,50 @@ export class EventFormController {
     }
   }
 
+  // Delete submission and its uploaded files (admin)
+  static async deleteSubmission(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const registrationId =
+        await RegistrationService.getRegistrationIdForSubmission(id);
+
+      if (!registrationId) {
+        return res.status(404).json({
+          success: false,
+          message: "Submission not found",
+        });
+      }
+
+      await RegistrationService.remove(registrationId, userId, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Submission deleted successfully",
+      });
+    } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
+      console.error("Delete submission error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while deleting submission",
+      });
+    }
+  }
+
   // Bulk approve submissions (admin)
   static async bulkApproveSubmissions(req: Request, res: Response) {
     try {
@@ -458,33 +607,21 @@ export class EventFormController {
         });
       }
 
-      await prisma.eventRegistrationSubmission.updateMany({
-        where: {
-          id: { in: submissionIds },
-          status: "PENDING",
-        },
-        data: {
-          status: "APPROVED",
-          approvedBy: userId,
-          approvedAt: new Date(),
-        },
+      const submissions = await prisma.eventRegistrationSubmission.findMany({
+        where: { id: { in: submissionIds }, registrationId: { not: null } },
+        select: { registrationId: true },
       });
 
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "BULK_APPROVE_REGISTRATIONS",
-          entity: "EventRegistrationSubmission",
-          entityId: submissionIds[0],
-          description: `Bulk approved ${submissionIds.length} registrations`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
+      const approved = await RegistrationService.approveMany(
+        submissions.map((submission) => submission.registrationId!),
+        userId,
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
 
       return res.status(200).json({
         success: true,
-        message: `${submissionIds.length} registrations approved successfully`,
+        message: `${approved} registrations approved successfully`,
+        data: { approved },
       });
     } catch (error) {
       console.error("Bulk approve error:", error);
@@ -508,35 +645,25 @@ export class EventFormController {
           .json({ success: false, message: "Unauthorized" });
       }
 
-      const submission = await prisma.eventRegistrationSubmission.findUnique({
-        where: { id },
-        include: {
-          user: { select: { name: true } },
-          form: { include: { event: { select: { title: true } } } },
-        },
-      });
+      const registrationId =
+        await RegistrationService.getRegistrationIdForSubmission(id);
 
-      if (!submission) {
+      if (!registrationId) {
         return res.status(404).json({
           success: false,
           message: "Registration not found",
         });
       }
 
-      if (submission.status !== "APPROVED") {
-        return res.status(400).json({
-          success: false,
-          message: "Only approved registrations can have attendance marked",
-        });
-      }
+      await RegistrationService.markAttendance(
+        registrationId,
+        !!attended,
+        userId,
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
 
-      const updated = await prisma.eventRegistrationSubmission.update({
+      const updated = await prisma.eventRegistrationSubmission.findUnique({
         where: { id },
-        data: {
-          attended,
-          attendanceMarkedAt: new Date(),
-          attendanceMarkedBy: userId,
-        },
         include: {
           user: {
             select: {
@@ -549,26 +676,16 @@ export class EventFormController {
         },
       });
 
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "MARK_ATTENDANCE",
-          entity: "EventRegistrationSubmission",
-          entityId: id,
-          description: `Marked ${attended ? "present" : "absent"} for ${
-            submission.user.name
-          } at ${submission.form.event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
       return res.status(200).json({
         success: true,
         message: "Attendance marked successfully",
         data: { submission: updated },
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Mark attendance error:", error);
       return res.status(500).json({
         success: false,
@@ -577,43 +694,20 @@ export class EventFormController {
     }
   }
 
-  // Get attendance statistics
+  // Get attendance statistics (covers registrations with and without a form)
   static async getAttendanceStats(req: Request, res: Response) {
     try {
       const { eventId } = req.params;
 
-      const stats = await prisma.eventRegistrationSubmission.groupBy({
-        by: ["attended", "status"],
-        where: { eventId },
-        _count: true,
-      });
-
-      const totalSubmissions = await prisma.eventRegistrationSubmission.count({
-        where: { eventId },
-      });
-
-      const approved = await prisma.eventRegistrationSubmission.count({
-        where: { eventId, status: "APPROVED" },
-      });
-
-      const attended = await prisma.eventRegistrationSubmission.count({
-        where: { eventId, status: "APPROVED", attended: true },
-      });
-
-      const absent = await prisma.eventRegistrationSubmission.count({
-        where: { eventId, status: "APPROVED", attended: false },
-      });
+      const stats = await RegistrationService.getEventStats(eventId);
 
       return res.status(200).json({
         success: true,
         data: {
-          totalSubmissions,
-          approved,
-          attended,
-          absent,
-          attendanceRate:
-            approved > 0 ? ((attended / approved) * 100).toFixed(2) : 0,
-          details: stats,
+          ...stats,
+          // Names used before simple registrations were included
+          totalSubmissions: stats.total,
+          approved: stats.confirmed,
         },
       });
     } catch (error) {
@@ -669,9 +763,14 @@ export class EventFormController {
         },
       });
 
+      const waitlistPosition =
+        submission?.status === "WAITLISTED"
+          ? await WaitlistUtil.getPosition(eventId, userId)
+          : null;
+
       return res.status(200).json({
         success: true,
-        data: { submission },
+        data: { submission, waitlistPosition },
       });
     } catch (error) {
       console.error("Get my submission error:", error);
@@ -681,4 +780,22 @@ export class EventFormController {
       });
     }
   }
+
+  // Turn a stored response into a single spreadsheet cell
+  static formatResponse(fieldType: string, value: any) {
+    if (value === undefined || value === null) return null;
+    if (Array.isArray(value)) return value.join("; ");
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (FileStorageUtil.isStoredFile(value)) return value.url;
+    if (typeof value === "object") {
+      return value.removedAt
+        ? `${value.originalName} (removed)`
+        : JSON.stringify(value);
+    }
+    if (fieldType === "DATE") {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? String(value) : date;
+    }
+    return value;
+  }
 }
@@ -1,5 +1,14 @@
 import { Request, Response } from "express";
 import prisma from "../config/database";
+import { EventStatusUtil } from "../utils/event-status.util";
+import { WaitlistUtil, SEATED_STATUSES } from "../utils/waitlist.util";
+import { FileStorageUtil } from "../utils/file-storage.util";
+import { ChangeDiffUtil } from "../utils/change-diff.util";
+import {
+  RegistrationService,
+  RegistrationError,
+} from "../services/registration.service";
+import { PermissionService } from "../services/permission.service";
 
 export class EventController {
   static async createEvent(req: Request, res: Response) {
@@ -63,6 +72,11 @@ export class EventController {
             ? new Date(registrationDeadline)
             : null,
           maxAttendees: maxAttendees ? parseInt(maxAttendees) : null,
+          status: EventStatusUtil.derive({
+            status: "UPCOMING",
+            startDate: new Date(startDate),
+            endDate: new Date(endDate),
+          }),
           createdById: userId,
           categoryId: categoryId || null,
           published,
@@ -74,7 +88,11 @@ export class EventController {
             select: { id: true, name: true, studentId: true, image: true },
           },
           category: true,
-          _count: { select: { registrations: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+            },
+          },
         },
       });
 
@@ -138,7 +156,11 @@ export class EventController {
             select: { id: true, name: true, studentId: true, image: true },
           },
           category: true,
-          _count: { select: { registrations: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+            },
+          },
         },
       });
 
@@ -190,8 +212,10 @@ export class EventController {
       const where: any = {};
 
       // Only show published events to non-admin users
-      const isAdmin =
-        req.user?.role === "ADMIN" || req.user?.role === "SUPER_ADMIN";
+      const isAdmin = await PermissionService.hasPermission(
+        req.user,
+        "event:manage"
+      );
       if (!isAdmin && published !== "false") {
         where.published = true;
       } else if (published === "true") {
@@ -226,7 +250,7 @@ export class EventController {
           category: true,
           _count: {
             select: {
-              registrations: true,
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
               gallery: true,
             },
           },
@@ -287,7 +311,12 @@ export class EventController {
             orderBy: { createdAt: "desc" },
           },
           gallery: { orderBy: { uploadedAt: "desc" } },
-          _count: { select: { registrations: true, gallery: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+              gallery: true,
+            },
+          },
         },
       });
 
@@ -325,6 +354,7 @@ export class EventController {
           },
           category: true,
           registrations: {
+            where: { status: { in: SEATED_STATUSES } },
             include: {
               user: {
                 select: { id: true, name: true, studentId: true, image: true },
@@ -332,7 +362,12 @@ export class EventController {
             },
           },
           gallery: { orderBy: { uploadedAt: "desc" } },
-          _count: { select: { registrations: true, gallery: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+              gallery: true,
+            },
+          },
         },
       });
 
@@ -414,7 +449,16 @@ export class EventController {
       if (maxAttendees !== undefined)
         updateData.maxAttendees = maxAttendees ? parseInt(maxAttendees) : null;
       if (categoryId !== undefined) updateData.categoryId = categoryId || null;
-      if (status) updateData.status = status;
+      if (status) {
+        updateData.status = status;
+      } else if (startDate || endDate) {
+        // Re-derive status when the schedule moves (CANCELLED stays put)
+        updateData.status = EventStatusUtil.derive({
+          status: existingEvent.status,
+          startDate: updateData.startDate || existingEvent.startDate,
+          endDate: updateData.endDate || existingEvent.endDate,
+        });
+      }
       if (published !== undefined) {
         updateData.published = published;
         if (published && !existingEvent.published) {
@@ -434,17 +478,38 @@ export class EventController {
             select: { id: true, name: true, studentId: true, image: true },
           },
           category: true,
-          _count: { select: { registrations: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+            },
+          },
         },
       });
 
+      // Raising capacity can let people in from the waitlist
+      if (
+        maxAttendees !== undefined &&
+        event.maxAttendees !== existingEvent.maxAttendees
+      ) {
+        await WaitlistUtil.promote(event.id);
+      }
+
+      const changes = ChangeDiffUtil.diff(
+        existingEvent,
+        event,
+        Object.keys(updateData)
+      );
+
       await prisma.activity.create({
         data: {
           userId,
           action: "UPDATE_EVENT",
           entity: "Event",
           entityId: event.id,
-          description: `Updated event: ${event.title}`,
+          description: `Updated event: ${event.title}${ChangeDiffUtil.summarize(
+            changes
+          )}`,
+          changes: changes ?? undefined,
           ipAddress: req.ip,
           userAgent: req.get("user-agent") || null,
         },
@@ -483,8 +548,20 @@ export class EventController {
           .json({ success: false, message: "Event not found" });
       }
 
+      // Submissions cascade with the event, so collect their uploads first
+      const submissions = await prisma.eventRegistrationSubmission.findMany({
+        where: { eventId: id },
+        select: { responses: true },
+      });
+
       await prisma.event.delete({ where: { id } });
 
+      await FileStorageUtil.removeAll(
+        submissions.flatMap((submission) =>
+          FileStorageUtil.collectFiles(submission.responses)
+        )
+      );
+
       await prisma.activity.create({
         data: {
           userId,
@@ -526,85 +603,31 @@ export class EventController {
           .json({ success: false, message: "Event ID is required" });
       }
 
-      const event = await prisma.event.findUnique({
-        where: { id: eventId },
-        include: { _count: { select: { registrations: true } } },
-      });
-
-      if (!event) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Event not found" });
-      }
-
-      // Check if event requires registration form (meaning simple registration is not allowed)
-      if (event.requiresRegistration) {
-        return res.status(400).json({
-          success: false,
-          message: "This event requires filling out a registration form",
-        });
-      }
-
-      if (
-        event.registrationDeadline &&
-        new Date() > new Date(event.registrationDeadline)
-      ) {
-        return res.status(400).json({
-          success: false,
-          message: "Registration deadline has passed",
-        });
-      }
-
-      if (
-        event.maxAttendees &&
-        event._count.registrations >= event.maxAttendees
-      ) {
-        return res
-          .status(400)
-          .json({ success: false, message: "Event is full" });
-      }
+      // Events with a registration form are rejected here; they use form submit
+      const { registration, waitlistPosition } =
+        await RegistrationService.register(
+          { eventId, userId },
+          { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+        );
 
-      const existingRegistration = await prisma.eventRegistration.findUnique({
-        where: { eventId_userId: { eventId, userId } },
-      });
-
-      if (existingRegistration) {
-        return res.status(409).json({
-          success: false,
-          message: "You are already registered for this event",
+      if (waitlistPosition) {
+        return res.status(201).json({
+          success: true,
+          message: `Event is full - you have been added to the waitlist (position ${waitlistPosition})`,
+          data: { registration, waitlistPosition },
         });
       }
 
-      const registration = await prisma.eventRegistration.create({
-        data: { eventId, userId },
-        include: {
-          event: {
-            select: { id: true, title: true, startDate: true, location: true },
-          },
-          user: {
-            select: { id: true, name: true, studentId: true, email: true },
-          },
-        },
-      });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "REGISTER_EVENT",
-          entity: "EventRegistration",
-          entityId: registration.id,
-          description: `Registered for event: ${event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
       return res.status(201).json({
         success: true,
         message: "Successfully registered for event",
         data: { registration },
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Simple register error:", error);
       return res.status(500).json({
         success: false,
@@ -613,107 +636,15 @@ export class EventController {
     }
   }
 
+  // Same flow as simpleRegister, kept for the /register route
   static async registerForEvent(req: Request, res: Response) {
-    try {
-      const { eventId } = req.body;
-      const userId = req.user?.id;
-
-      if (!userId) {
-        return res
-          .status(401)
-          .json({ success: false, message: "Unauthorized" });
-      }
-
-      if (!eventId) {
-        return res
-          .status(400)
-          .json({ success: false, message: "Event ID is required" });
-      }
-
-      const event = await prisma.event.findUnique({
-        where: { id: eventId },
-        include: { _count: { select: { registrations: true } } },
-      });
-
-      if (!event) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Event not found" });
-      }
-
-      if (
-        event.registrationDeadline &&
-        new Date() > new Date(event.registrationDeadline)
-      ) {
-        return res.status(400).json({
-          success: false,
-          message: "Registration deadline has passed",
-        });
-      }
-
-      if (
-        event.maxAttendees &&
-        event._count.registrations >= event.maxAttendees
-      ) {
-        return res
-          .status(400)
-          .json({ success: false, message: "Event is full" });
-      }
-
-      const existingRegistration = await prisma.eventRegistration.findUnique({
-        where: { eventId_userId: { eventId, userId } },
-      });
-
-      if (existingRegistration) {
-        return res.status(409).json({
-          success: false,
-          message: "You are already registered for this event",
-        });
-      }
-
-      const registration = await prisma.eventRegistration.create({
-        data: { eventId, userId },
-        include: {
-          event: {
-            select: { id: true, title: true, startDate: true, location: true },
-          },
-          user: {
-            select: { id: true, name: true, studentId: true, email: true },
-          },
-        },
-      });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "REGISTER_EVENT",
-          entity: "EventRegistration",
-          entityId: registration.id,
-          description: `Registered for event: ${event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
-      return res.status(201).json({
-        success: true,
-        message: "Successfully registered for event",
-        data: { registration },
-      });
-    } catch (error) {
-      console.error("Register for event error:", error);
-      return res.status(500).json({
-        success: false,
-        message: "An error occurred while registering for the event",
-      });
-    }
+    return EventController.simpleRegister(req, res);
   }
 
   static async cancelRegistration(req: Request, res: Response) {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
 
       if (!userId) {
         return res
@@ -721,47 +652,27 @@ export class EventController {
           .json({ success: false, message: "Unauthorized" });
       }
 
-      const registration = await prisma.eventRegistration.findUnique({
-        where: { id },
-        include: { event: true },
-      });
-
-      if (!registration) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Registration not found" });
-      }
-
-      if (
-        userRole !== "ADMIN" &&
-        userRole !== "SUPER_ADMIN" &&
-        registration.userId !== userId
-      ) {
-        return res.status(403).json({
-          success: false,
-          message: "You do not have permission to cancel this registration",
-        });
-      }
-
-      await prisma.eventRegistration.delete({ where: { id } });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "CANCEL_REGISTRATION",
-          entity: "EventRegistration",
-          entityId: id,
-          description: `Cancelled registration for event: ${registration.event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
+      await RegistrationService.cancel(
+        id,
+        {
+          id: userId,
+          canManage: await PermissionService.hasPermission(
+            req.user,
+            "event:manage"
+          ),
         },
-      });
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
 
       return res.status(200).json({
         success: true,
         message: "Registration cancelled successfully",
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Cancel registration error:", error);
       return res.status(500).json({
         success: false,
@@ -788,45 +699,35 @@ export class EventController {
           .json({ success: false, message: "Invalid status" });
       }
 
-      const registration = await prisma.eventRegistration.findUnique({
-        where: { id },
-      });
-
-      if (!registration) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Registration not found" });
-      }
-
-      const updatedRegistration = await prisma.eventRegistration.update({
-        where: { id },
-        data: { status },
-        include: {
-          user: {
-            select: { id: true, name: true, studentId: true, email: true },
-          },
-          event: { select: { id: true, title: true } },
-        },
-      });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "UPDATE_ATTENDANCE",
-          entity: "EventRegistration",
-          entityId: id,
-          description: `Updated attendance status to ${status}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
+      const context = {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      };
+
+      const registration =
+        status === "CANCELLED"
+          ? await RegistrationService.cancel(
+              id,
+              { id: userId, canManage: true },
+              context
+            )
+          : await RegistrationService.markAttendance(
+              id,
+              status === "ATTENDED",
+              userId,
+              context
+            );
 
       return res.status(200).json({
         success: true,
         message: "Attendance status updated",
-        data: { registration: updatedRegistration },
+        data: { registration },
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Update attendance error:", error);
       return res.status(500).json({
         success: false,
@@ -847,7 +748,12 @@ export class EventController {
       const completedEvents = await prisma.event.count({
         where: { status: "COMPLETED" },
       });
-      const totalRegistrations = await prisma.eventRegistration.count();
+      const totalRegistrations = await prisma.eventRegistration.count({
+        where: { status: { in: SEATED_STATUSES } },
+      });
+      const totalAttended = await prisma.eventRegistration.count({
+        where: { status: "ATTENDED" },
+      });
 
       const eventsWithCounts = await prisma.event.findMany({
         select: {
@@ -855,7 +761,11 @@ export class EventController {
           title: true,
           slug: true,
           startDate: true,
-          _count: { select: { registrations: true } },
+          _count: {
+            select: {
+              registrations: { where: { status: { in: SEATED_STATUSES } } },
+            },
+          },
         },
         orderBy: { registrations: { _count: "desc" } },
         take: 5,
@@ -884,6 +794,7 @@ export class EventController {
             ongoingEvents,
             completedEvents,
             totalRegistrations,
+            totalAttended,
           },
           mostPopularEvents: eventsWithCounts,
           recentEvents,
@@ -915,7 +826,11 @@ export class EventController {
             include: {
               category: true,
               createdBy: { select: { name: true, studentId: true } },
-              _count: { select: { registrations: true } },
+              _count: {
+                select: {
+                  registrations: { where: { status: { in: SEATED_STATUSES } } },
+                },
+              },
             },
           },
         },
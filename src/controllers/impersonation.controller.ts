@@ -0,0 +1,128 @@
+// src/controllers/impersonation.controller.ts
+import { Request, Response } from "express";
+import {
+  ImpersonationService,
+  ImpersonationError,
+} from "../services/impersonation.service";
+
+export class ImpersonationController {
+  // Sign in as a user to see what they see (super admin)
+  static async start(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const { user, tokens } = await ImpersonationService.start(
+        req.user!,
+        id,
+        req.body?.reason,
+        {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        }
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: `You are now signed in as ${user.name || user.studentId}`,
+        data: {
+          user,
+          ...tokens,
+          impersonation: {
+            impersonatorId: req.user!.id,
+            expiresAt: tokens.refreshTokenExpiresAt,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof ImpersonationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Start impersonation error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while starting impersonation",
+      });
+    }
+  }
+
+  // End the impersonation session making the request
+  static async stop(req: Request, res: Response) {
+    try {
+      if (!req.user?.impersonatorId) {
+        return res.status(400).json({
+          success: false,
+          message: "You are not impersonating anyone",
+        });
+      }
+
+      await ImpersonationService.stop(
+        req.user.sessionId,
+        req.user.impersonatorId,
+        {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        }
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Impersonation ended. Sign in to your own account again.",
+      });
+    } catch (error) {
+      if (error instanceof ImpersonationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Stop impersonation error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while ending impersonation",
+      });
+    }
+  }
+
+  // List running impersonation sessions (super admin)
+  static async getActive(req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        data: await ImpersonationService.listActive(),
+      });
+    } catch (error) {
+      console.error("Get impersonations error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while fetching impersonation sessions",
+      });
+    }
+  }
+
+  // End someone's impersonation session from an admin account (super admin)
+  static async end(req: Request, res: Response) {
+    try {
+      const ended = await ImpersonationService.stop(
+        req.params.sessionId,
+        req.user!.id,
+        {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        }
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: ended
+          ? "Impersonation session ended"
+          : "Impersonation session had already ended",
+      });
+    } catch (error) {
+      if (error instanceof ImpersonationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("End impersonation error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while ending impersonation",
+      });
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// src/controllers/job.controller.ts
+import { Request, Response } from "express";
+import { JobRunner } from "../jobs/job-runner";
+
+export class JobController {
+  // Get status of all background jobs
+  static async getJobs(req: Request, res: Response) {
+    try {
+      res.json({
+        success: true,
+        data: {
+          instanceId: JobRunner.instanceId,
+          jobs: JobRunner.getStatus(),
+        },
+      });
+    } catch (error) {
+      console.error("Get jobs error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch job status",
+      });
+    }
+  }
+
+  // Trigger a job immediately
+  static async runJob(req: Request, res: Response) {
+    try {
+      const { name } = req.params;
+
+      const result = await JobRunner.runNow(name);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          message: "Job not found",
+        });
+      }
+
+      const { skipped, status } = result;
+
+      if (skipped) {
+        return res.status(409).json({
+          success: false,
+          message: `Job ${name} is already running`,
+          data: status,
+        });
+      }
+
+      res.json({
+        success: true,
+        message: status.lastError
+          ? `Job ${name} failed: ${status.lastError}`
+          : `Job ${name} completed`,
+        data: status,
+      });
+    } catch (error) {
+      console.error("Run job error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to run job",
+      });
+    }
+  }
+}
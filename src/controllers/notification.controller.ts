@@ -1,7 +1,7 @@
 // src/controllers/notification.controller.ts
 import { Request, Response } from "express";
 import prisma from "../config/database";
-import { Role } from "@prisma/client";
+import { NotificationPriority, NotificationType, Role } from "@prisma/client";
 
 export class NotificationController {
   // Get all notifications (admin only)
@@ -242,6 +242,19 @@ export class NotificationController {
           scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
           link,
           linkText,
+          // Keep status in sync with the schedule so the dispatcher picks it up
+          status:
+            notification.status === "CANCELLED"
+              ? "CANCELLED"
+              : scheduledFor
+              ? "SCHEDULED"
+              : "DRAFT",
+          // A fresh schedule gets a fresh set of delivery attempts
+          dispatchAttempts: 0,
+          // Leave a live lease alone; the holder may be mid-send
+          ...(notification.lockedUntil && notification.lockedUntil > new Date()
+            ? {}
+            : { lockedBy: null, lockedUntil: null }),
         },
         include: {
           createdBy: {
@@ -268,14 +281,19 @@ export class NotificationController {
     }
   }
 
-  // Send notification
-  static async sendNotification(notificationId: string) {
+  // Send notification (returns false if delivery failed or was pre-empted).
+  // The dispatcher passes its instance id so the send only lands while it
+  // still holds the lease on a SCHEDULED notification.
+  static async sendNotification(
+    notificationId: string,
+    lockedBy?: string
+  ): Promise<boolean> {
     try {
       const notification = await prisma.notification.findUnique({
         where: { id: notificationId },
       });
 
-      if (!notification) return;
+      if (!notification) return false;
 
       // Get target users
       let userIds: string[] = [];
@@ -299,29 +317,82 @@ export class NotificationController {
         userIds = notification.targetUserIds;
       }
 
-      // Create user notifications
-      await prisma.userNotification.createMany({
-        data: userIds.map((userId) => ({
-          userId,
-          notificationId: notification.id,
-        })),
-        skipDuplicates: true,
-      });
+      // For the dispatcher, mark it sent only if nobody cancelled, sent or
+      // re-leased it meanwhile; delivery shares the transaction, so a lost
+      // race delivers nothing
+      return await prisma.$transaction(async (tx) => {
+        const marked = await tx.notification.updateMany({
+          where: lockedBy
+            ? { id: notificationId, status: "SCHEDULED", lockedBy }
+            : { id: notificationId },
+          data: {
+            status: "SENT",
+            sentAt: new Date(),
+            totalRecipients: userIds.length,
+            lockedBy: null,
+            lockedUntil: null,
+          },
+        });
 
-      // Update notification status
-      await prisma.notification.update({
-        where: { id: notificationId },
-        data: {
-          status: "SENT",
-          sentAt: new Date(),
-          totalRecipients: userIds.length,
-        },
+        if (marked.count === 0) return false;
+
+        await tx.userNotification.createMany({
+          data: userIds.map((userId) => ({
+            userId,
+            notificationId: notification.id,
+          })),
+          skipDuplicates: true,
+        });
+
+        return true;
       });
     } catch (error) {
       console.error("Send notification error:", error);
+      return false;
     }
   }
 
+  // Notify specific users directly (used by system events such as waitlist promotion)
+  static async notifyUsers(options: {
+    userIds: string[];
+    title: string;
+    message: string;
+    type: NotificationType;
+    createdById: string;
+    priority?: NotificationPriority;
+    link?: string;
+    linkText?: string;
+  }) {
+    if (options.userIds.length === 0) return null;
+
+    const notification = await prisma.notification.create({
+      data: {
+        title: options.title,
+        message: options.message,
+        type: options.type,
+        priority: options.priority || "MEDIUM",
+        targetAudience: "SPECIFIC_USERS",
+        targetUserIds: options.userIds,
+        link: options.link,
+        linkText: options.linkText,
+        status: "SENT",
+        sentAt: new Date(),
+        totalRecipients: options.userIds.length,
+        createdById: options.createdById,
+      },
+    });
+
+    await prisma.userNotification.createMany({
+      data: options.userIds.map((userId) => ({
+        userId,
+        notificationId: notification.id,
+      })),
+      skipDuplicates: true,
+    });
+
+    return notification;
+  }
+
   // Send notification now (trigger)
   static async sendNotificationNow(req: Request, res: Response) {
     try {
@@ -385,7 +456,7 @@ export class NotificationController {
 
       await prisma.notification.update({
         where: { id },
-        data: { status: "CANCELLED" },
+        data: { status: "CANCELLED", lockedBy: null, lockedUntil: null },
       });
 
       return res.status(200).json({
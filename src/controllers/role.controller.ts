@@ -0,0 +1,423 @@
+// src/controllers/role.controller.ts
+import { Request, Response } from "express";
+import prisma from "../config/database";
+import {
+  PermissionService,
+  PermissionError,
+  PERMISSIONS,
+  ALL_PERMISSIONS,
+} from "../services/permission.service";
+
+export class RoleController {
+  // List every permission that can be put in a role
+  static async getPermissions(req: Request, res: Response) {
+    return res.status(200).json({
+      success: true,
+      data: ALL_PERMISSIONS.map((key) => ({
+        key,
+        description: PERMISSIONS[key],
+      })),
+    });
+  }
+
+  // List access roles with how many users hold each
+  static async getRoles(req: Request, res: Response) {
+    try {
+      const roles = await prisma.accessRole.findMany({
+        include: { _count: { select: { users: true } } },
+        orderBy: { name: "asc" },
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: roles.map(({ _count, ...role }) => ({
+          ...role,
+          userCount: _count.users,
+        })),
+      });
+    } catch (error) {
+      console.error("Get roles error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch roles",
+      });
+    }
+  }
+
+  // Create an access role, e.g. "Blog editor" with blog:publish
+  static async createRole(req: Request, res: Response) {
+    try {
+      const { name, description } = req.body;
+
+      if (!name || String(name).trim().length < 2) {
+        return res.status(400).json({
+          success: false,
+          message: "Role name must be at least 2 characters",
+        });
+      }
+
+      const permissions = PermissionService.validate(req.body.permissions);
+      await PermissionService.assertCanGrant(req.user!, permissions);
+
+      const role = await prisma.accessRole.create({
+        data: {
+          name: String(name).trim(),
+          description: description ? String(description).trim() : null,
+          permissions,
+        },
+      });
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ROLE_CREATED",
+          entity: "AccessRole",
+          entityId: role.id,
+          description: `Created role ${role.name} (${
+            permissions.join(", ") || "no permissions"
+          })`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: "Role created successfully",
+        data: role,
+      });
+    } catch (error: any) {
+      if (error instanceof PermissionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      if (error.code === "P2002") {
+        return res.status(409).json({
+          success: false,
+          message: "A role with this name already exists",
+        });
+      }
+      console.error("Create role error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to create role",
+      });
+    }
+  }
+
+  // Rename a role or change its permissions; applies to everyone holding it
+  static async updateRole(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { name, description } = req.body;
+
+      const role = await prisma.accessRole.findUnique({ where: { id } });
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      if (name !== undefined && String(name).trim().length < 2) {
+        return res.status(400).json({
+          success: false,
+          message: "Role name must be at least 2 characters",
+        });
+      }
+
+      const permissions =
+        req.body.permissions !== undefined
+          ? PermissionService.validate(req.body.permissions)
+          : undefined;
+
+      // Editing a role is granting (or revoking) everything in it
+      await PermissionService.assertCanGrant(req.user!, [
+        ...role.permissions,
+        ...(permissions || []),
+      ]);
+
+      const updatedRole = await prisma.accessRole.update({
+        where: { id },
+        data: {
+          name: name !== undefined ? String(name).trim() : undefined,
+          description:
+            description !== undefined
+              ? String(description).trim() || null
+              : undefined,
+          permissions,
+        },
+      });
+
+      PermissionService.invalidate();
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ROLE_UPDATED",
+          entity: "AccessRole",
+          entityId: role.id,
+          description: `Updated role ${updatedRole.name} (${
+            updatedRole.permissions.join(", ") || "no permissions"
+          })`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Role updated successfully",
+        data: updatedRole,
+      });
+    } catch (error: any) {
+      if (error instanceof PermissionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      if (error.code === "P2002") {
+        return res.status(409).json({
+          success: false,
+          message: "A role with this name already exists",
+        });
+      }
+      console.error("Update role error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update role",
+      });
+    }
+  }
+
+  // Delete a role; users holding it lose its permissions
+  static async deleteRole(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const role = await prisma.accessRole.findUnique({ where: { id } });
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      await PermissionService.assertCanGrant(req.user!, role.permissions);
+
+      await prisma.accessRole.delete({ where: { id } });
+      PermissionService.invalidate();
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ROLE_DELETED",
+          entity: "AccessRole",
+          entityId: role.id,
+          description: `Deleted role ${role.name}`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Role deleted successfully",
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Delete role error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to delete role",
+      });
+    }
+  }
+
+  // A user's base role, access roles and resulting permissions
+  static async getUserRoles(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          role: true,
+          accessRoles: {
+            select: { assignedAt: true, accessRole: true },
+            orderBy: { assignedAt: "asc" },
+          },
+        },
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const permissions = await PermissionService.getPermissions(user);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          role: user.role,
+          accessRoles: user.accessRoles.map(({ assignedAt, accessRole }) => ({
+            ...accessRole,
+            assignedAt,
+          })),
+          permissions: [...permissions],
+        },
+      });
+    } catch (error) {
+      console.error("Get user roles error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch user roles",
+      });
+    }
+  }
+
+  // Give a user an access role
+  static async assignRole(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { roleId } = req.body;
+
+      if (!roleId) {
+        return res.status(400).json({
+          success: false,
+          message: "roleId is required",
+        });
+      }
+
+      const [user, role] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id },
+          select: { id: true, name: true, studentId: true },
+        }),
+        prisma.accessRole.findUnique({ where: { id: String(roleId) } }),
+      ]);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      await PermissionService.assertCanGrant(req.user!, role.permissions);
+
+      await prisma.userAccessRole.upsert({
+        where: {
+          userId_accessRoleId: { userId: user.id, accessRoleId: role.id },
+        },
+        update: {},
+        create: {
+          userId: user.id,
+          accessRoleId: role.id,
+          assignedById: req.user!.id,
+        },
+      });
+
+      PermissionService.invalidate(user.id);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ROLE_ASSIGNED",
+          entity: "User",
+          entityId: user.id,
+          description: `Gave ${user.name || user.studentId} the ${
+            role.name
+          } role`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Role assigned successfully",
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Assign role error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to assign role",
+      });
+    }
+  }
+
+  // Take an access role away from a user
+  static async removeRole(req: Request, res: Response) {
+    try {
+      const { id, roleId } = req.params;
+
+      const assignment = await prisma.userAccessRole.findUnique({
+        where: { userId_accessRoleId: { userId: id, accessRoleId: roleId } },
+        include: {
+          user: { select: { name: true, studentId: true } },
+          accessRole: true,
+        },
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: "The user doesn't have this role",
+        });
+      }
+
+      await PermissionService.assertCanGrant(
+        req.user!,
+        assignment.accessRole.permissions
+      );
+
+      await prisma.userAccessRole.delete({
+        where: { userId_accessRoleId: { userId: id, accessRoleId: roleId } },
+      });
+
+      PermissionService.invalidate(id);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "ROLE_REMOVED",
+          entity: "User",
+          entityId: id,
+          description: `Removed the ${assignment.accessRole.name} role from ${
+            assignment.user.name || assignment.user.studentId
+          }`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Role removed successfully",
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Remove role error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to remove role",
+      });
+    }
+  }
+}
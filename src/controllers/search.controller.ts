@@ -0,0 +1,51 @@
+// src/controllers/search.controller.ts
+import { Request, Response } from "express";
+import { SearchService, SearchError } from "../services/search.service";
+
+export class SearchController {
+  // Ranked search across blogs, events, gallery and contact people (public)
+  static async search(req: Request, res: Response) {
+    try {
+      const data = await SearchService.search(req.query.q, {
+        types: SearchService.parseTypes(req.query.type),
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 10,
+      });
+
+      return res.status(200).json({ success: true, data });
+    } catch (error) {
+      if (error instanceof SearchError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Search error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Search failed",
+      });
+    }
+  }
+
+  // Typeahead suggestions while the user is typing (public)
+  static async getSuggestions(req: Request, res: Response) {
+    try {
+      const suggestions = await SearchService.suggest(req.query.q, {
+        types: SearchService.parseTypes(req.query.type),
+        limit: parseInt(req.query.limit as string) || 8,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: { suggestions },
+      });
+    } catch (error) {
+      if (error instanceof SearchError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Search suggestions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to get suggestions",
+      });
+    }
+  }
+}
@@ -0,0 +1,262 @@
+// src/controllers/session.controller.ts
+import { Request, Response } from "express";
+import prisma from "../config/database";
+import { SessionService } from "../services/session.service";
+import { UserAgentUtil } from "../utils/user-agent.util";
+
+export class SessionController {
+  // List the current user's active sessions
+  static async getMySessions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const sessions = await SessionController.findActiveSessions(userId);
+
+      return res.status(200).json({
+        success: true,
+        data: sessions.map((session) =>
+          SessionController.formatSession(session, req.user!.sessionId)
+        ),
+      });
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while fetching sessions",
+      });
+    }
+  }
+
+  // Sign out one of the current user's sessions (the current one included)
+  static async revokeSession(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const session = await prisma.session.findFirst({
+        where: { id, userId, revokedAt: null },
+        select: { id: true },
+      });
+
+      if (!session) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Session not found" });
+      }
+
+      await SessionService.revoke(session.id, "REVOKED_BY_USER");
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "REVOKE_SESSION",
+          entity: "Session",
+          entityId: session.id,
+          description: "Signed out a session",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Session revoked",
+        data: { current: session.id === req.user!.sessionId },
+      });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while revoking session",
+      });
+    }
+  }
+
+  // Sign out every session except the current one
+  static async revokeOtherSessions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const revoked = await SessionService.revokeAllForUser(
+        userId,
+        "REVOKED_BY_USER",
+        req.user!.sessionId
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "REVOKE_OTHER_SESSIONS",
+          entity: "User",
+          entityId: userId,
+          description: `Signed out ${revoked} other session(s)`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: `${revoked} other session(s) revoked`,
+        data: { revoked },
+      });
+    } catch (error) {
+      console.error("Revoke other sessions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while revoking sessions",
+      });
+    }
+  }
+
+  // List a user's active sessions (admin)
+  static async getUserSessions(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      const sessions = await SessionController.findActiveSessions(id);
+
+      return res.status(200).json({
+        success: true,
+        data: sessions.map((session) =>
+          SessionController.formatSession(session, req.user?.sessionId)
+        ),
+      });
+    } catch (error) {
+      console.error("Get user sessions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while fetching sessions",
+      });
+    }
+  }
+
+  // Sign a user out everywhere (admin)
+  static async forceLogout(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, name: true, studentId: true, role: true },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      if (user.role === "SUPER_ADMIN" && req.user?.role !== "SUPER_ADMIN") {
+        return res.status(403).json({
+          success: false,
+          message: "Only super admins can sign out super admin accounts",
+        });
+      }
+
+      const revoked = await SessionService.revokeAllForUser(
+        user.id,
+        "FORCE_LOGOUT"
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId: adminId,
+          action: "FORCE_LOGOUT",
+          entity: "User",
+          entityId: user.id,
+          description: `Signed out ${
+            user.name || user.studentId
+          } from ${revoked} session(s)`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: `User signed out of ${revoked} session(s)`,
+        data: { revoked },
+      });
+    } catch (error) {
+      console.error("Force logout error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while signing the user out",
+      });
+    }
+  }
+
+  private static findActiveSessions(userId: string) {
+    return prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        lastUsedAt: true,
+        createdAt: true,
+        expiresAt: true,
+        impersonatorId: true,
+      },
+      orderBy: { lastUsedAt: "desc" },
+    });
+  }
+
+  // lastSeenAt moves when the session refreshes its access token, so it is
+  // accurate to within one access-token lifetime
+  private static formatSession(
+    session: Awaited<
+      ReturnType<typeof SessionController.findActiveSessions>
+    >[number],
+    currentSessionId?: string
+  ) {
+    return {
+      id: session.id,
+      current: session.id === currentSessionId,
+      impersonated: !!session.impersonatorId,
+      device: UserAgentUtil.parse(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastSeenAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+    };
+  }
+}
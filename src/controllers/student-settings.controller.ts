@@ -3,6 +3,14 @@ import { Request, Response } from "express";
 import prisma from "../config/database";
 import bcrypt from "bcryptjs";
 import { CloudinaryUtil } from "../utils/cloudinary.util";
+import { SessionService } from "../services/session.service";
+import { OidcService, OidcError } from "../services/oidc.service";
+import { DataExportService } from "../services/data-export.service";
+import { PasswordPolicyService } from "../services/password-policy.service";
+import {
+  AccountErasureService,
+  AccountErasureError,
+} from "../services/account-erasure.service";
 
 export class StudentSettingsController {
   /**
@@ -92,6 +100,15 @@ export class StudentSettingsController {
         });
       }
 
+      // Password resets and magic links go to the email, so an impersonating
+      // admin can't change it
+      if (email && email !== user.email && req.user?.impersonatorId) {
+        return res.status(403).json({
+          success: false,
+          message: "This action isn't available while impersonating a user",
+        });
+      }
+
       // Check if email is already taken by another user
       if (email && email !== user.email) {
         const emailExists = await prisma.user.findFirst({
@@ -300,13 +317,6 @@ export class StudentSettingsController {
         });
       }
 
-      if (newPassword.length < 6) {
-        return res.status(400).json({
-          success: false,
-          message: "Password must be at least 6 characters long",
-        });
-      }
-
       // Get user with password
       const user = await prisma.user.findUnique({
         where: { id: userId },
@@ -332,16 +342,26 @@ export class StudentSettingsController {
         });
       }
 
-      // Hash new password
-      const hashedPassword = await bcrypt.hash(newPassword, 12);
+      // Validate against the policy, including password reuse
+      const passwordValidation = await PasswordPolicyService.validate(
+        newPassword,
+        userId
+      );
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: passwordValidation.message,
+        });
+      }
 
-      // Update password
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          password: hashedPassword,
-        },
-      });
+      await PasswordPolicyService.setPassword(userId, newPassword);
+
+      // Sign out everywhere else; this session stays signed in
+      await SessionService.revokeAllForUser(
+        userId,
+        "PASSWORD_CHANGED",
+        req.user?.sessionId
+      );
 
       // Log activity
       await prisma.activity.create({
@@ -514,7 +534,218 @@ export class StudentSettingsController {
   }
 
   /**
-   * Delete account (soft delete)
+   * Get linked sign-in accounts (single sign-on)
+   * GET /api/student/linked-accounts
+   */
+  static async getLinkedAccounts(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized. Please login.",
+        });
+      }
+
+      const accounts = await prisma.account.findMany({
+        where: { userId },
+        select: { id: true, provider: true, email: true, createdAt: true },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          provider: OidcService.getProvider(),
+          accounts: accounts.map(({ createdAt, ...account }) => ({
+            ...account,
+            linkedAt: createdAt,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Get linked accounts error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch linked accounts",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : undefined,
+      });
+    }
+  }
+
+  /**
+   * Start linking a single sign-on account; returns the provider URL. The
+   * provider redirects back to the frontend, which finishes with
+   * POST /api/auth/oidc/callback while logged in.
+   * POST /api/student/linked-accounts
+   */
+  static async linkAccount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized. Please login.",
+        });
+      }
+
+      const url = await OidcService.createAuthorizationUrl(
+        req,
+        res,
+        "link",
+        userId
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: { url },
+      });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Link account error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to start linking account",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : undefined,
+      });
+    }
+  }
+
+  /**
+   * Unlink a single sign-on account (the password keeps working)
+   * DELETE /api/student/linked-accounts/:id
+   */
+  static async unlinkAccount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized. Please login.",
+        });
+      }
+
+      const account = await prisma.account.findFirst({
+        where: { id, userId },
+        select: { id: true, provider: true, email: true },
+      });
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: "Linked account not found",
+        });
+      }
+
+      await prisma.account.delete({ where: { id: account.id } });
+
+      // Log activity
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "ACCOUNT_UNLINKED",
+          entity: "User",
+          entityId: userId,
+          description: `Unlinked ${account.provider} account${
+            account.email ? ` ${account.email}` : ""
+          }`,
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Account unlinked successfully",
+      });
+    } catch (error) {
+      console.error("Unlink account error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to unlink account",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : undefined,
+      });
+    }
+  }
+
+  /**
+   * Download everything stored about the current user (?format=json|zip;
+   * the ZIP also holds uploaded files)
+   * GET /api/student/data-export
+   */
+  static async exportData(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized. Please login.",
+        });
+      }
+
+      const format = req.query.format === "zip" ? "zip" : "json";
+      const filename = `bitsa-data-${req.user!.studentId}.${format}`;
+
+      const body =
+        format === "zip"
+          ? await DataExportService.buildArchive(userId)
+          : Buffer.from(
+              JSON.stringify(await DataExportService.collect(userId), null, 2)
+            );
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "PERSONAL_DATA_EXPORTED",
+          entity: "User",
+          entityId: userId,
+          description: `Downloaded personal data as ${format.toUpperCase()}`,
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+      });
+
+      res.setHeader(
+        "Content-Type",
+        format === "zip" ? "application/zip" : "application/json"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      return res.status(200).send(body);
+    } catch (error) {
+      console.error("Export personal data error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to export your data",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : undefined,
+      });
+    }
+  }
+
+  /**
+   * Delete account: deactivates it now and permanently erases it after the
+   * grace period (an admin can restore it until then)
    * DELETE /api/student/account
    */
   static async deleteAccount(req: Request, res: Response) {
@@ -559,37 +790,23 @@ export class StudentSettingsController {
         });
       }
 
-      // Soft delete - deactivate account
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          isActive: false,
-        },
-      });
-
-      // Delete all sessions
-      await prisma.session.deleteMany({
-        where: { userId },
-      });
-
-      // Log activity
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "ACCOUNT_DELETED",
-          entity: "User",
-          entityId: userId,
-          description: "User deleted their account",
-          ipAddress: req.ip,
-          userAgent: req.headers["user-agent"],
-        },
-      });
+      const scheduledFor = await AccountErasureService.schedule(
+        userId,
+        userId,
+        { ipAddress: req.ip, userAgent: req.headers["user-agent"] }
+      );
 
       return res.status(200).json({
         success: true,
-        message: "Account deleted successfully",
+        message: `Account deleted. Your data will be permanently erased on ${
+          scheduledFor.toISOString().split("T")[0]
+        }; contact an admin before then to restore it.`,
+        data: { deletionScheduledFor: scheduledFor },
       });
     } catch (error) {
+      if (error instanceof AccountErasureError) {
+        return res.status(error.statusCode).json(error.body);
+      }
       console.error("Delete account error:", error);
       return res.status(500).json({
         success: false,
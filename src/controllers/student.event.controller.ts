@@ -1,6 +1,11 @@
 // src/controllers/student.event.controller.ts
 import { Request, Response } from "express";
 import prisma from "../config/database";
+import { WaitlistUtil, SEATED_STATUSES } from "../utils/waitlist.util";
+import {
+  RegistrationService,
+  RegistrationError,
+} from "../services/registration.service";
 
 export class StudentEventController {
   // Get all published events for students
@@ -43,10 +48,16 @@ export class StudentEventController {
         orderBy: { [sortBy]: sortOrder },
         include: {
           category: true,
-          _count: { select: { registrations: true } },
+          _count: {
+            select: {
+              registrations: {
+                where: { status: { in: SEATED_STATUSES } },
+              },
+            },
+          },
           registrations: userId
             ? {
-                where: { userId },
+                where: { userId, status: { not: "CANCELLED" } },
                 select: {
                   id: true,
                   status: true,
@@ -114,10 +125,17 @@ export class StudentEventController {
               image: true,
             },
           },
-          _count: { select: { registrations: true, gallery: true } },
+          _count: {
+            select: {
+              registrations: {
+                where: { status: { in: SEATED_STATUSES } },
+              },
+              gallery: true,
+            },
+          },
           registrations: userId
             ? {
-                where: { userId },
+                where: { userId, status: { not: "CANCELLED" } },
                 select: {
                   id: true,
                   status: true,
@@ -183,34 +201,59 @@ export class StudentEventController {
           event: {
             include: {
               category: true,
-              _count: { select: { registrations: true } },
+              _count: {
+                select: {
+                  registrations: {
+                    where: { status: { in: SEATED_STATUSES } },
+                  },
+                },
+              },
             },
           },
         },
         orderBy: { createdAt: "desc" },
       });
 
+      // Attach waitlist position to waitlisted entries
+      const withPositions = await Promise.all(
+        registrations.map(async (reg) => ({
+          ...reg,
+          waitlistPosition:
+            reg.status === "WAITLISTED"
+              ? await WaitlistUtil.getPosition(reg.eventId, userId)
+              : null,
+        }))
+      );
+
       // Separate by status
-      const upcoming = registrations.filter(
+      const upcoming = withPositions.filter(
         (reg) => reg.event.status === "UPCOMING" && reg.status === "REGISTERED"
       );
-      const attended = registrations.filter((reg) => reg.status === "ATTENDED");
-      const cancelled = registrations.filter(
+      const pending = withPositions.filter((reg) => reg.status === "PENDING");
+      const attended = withPositions.filter((reg) => reg.status === "ATTENDED");
+      const cancelled = withPositions.filter(
         (reg) => reg.status === "CANCELLED"
       );
+      const waitlisted = withPositions.filter(
+        (reg) => reg.status === "WAITLISTED"
+      );
 
       return res.status(200).json({
         success: true,
         data: {
-          all: registrations,
+          all: withPositions,
           upcoming,
+          pending,
           attended,
           cancelled,
+          waitlisted,
           stats: {
-            total: registrations.length,
+            total: withPositions.length,
             upcoming: upcoming.length,
+            pending: pending.length,
             attended: attended.length,
             cancelled: cancelled.length,
+            waitlisted: waitlisted.length,
           },
         },
       });
@@ -229,163 +272,43 @@ export class StudentEventController {
       const { eventId } = req.body;
       const userId = req.user?.id;
 
-      console.log("📝 Registration attempt:", { eventId, userId });
-
       if (!userId) {
-        console.log("❌ No user ID found");
         return res
           .status(401)
           .json({ success: false, message: "Unauthorized" });
       }
 
       if (!eventId) {
-        console.log("❌ No event ID provided");
         return res
           .status(400)
           .json({ success: false, message: "Event ID is required" });
       }
 
-      const event = await prisma.event.findUnique({
-        where: { id: eventId },
-        include: { _count: { select: { registrations: true } } },
-      });
-
-      if (!event) {
-        console.log("❌ Event not found:", eventId);
-        return res
-          .status(404)
-          .json({ success: false, message: "Event not found" });
-      }
-
-      console.log("📅 Event details:", {
-        title: event.title,
-        status: event.status,
-        registrationDeadline: event.registrationDeadline,
-        currentRegistrations: event._count.registrations,
-        maxAttendees: event.maxAttendees,
-      });
-
-      // Check if already registered FIRST (before other validations)
-      const existingRegistration = await prisma.eventRegistration.findUnique({
-        where: { eventId_userId: { eventId, userId } },
-      });
-
-      if (existingRegistration) {
-        console.log("⚠️ User already registered:", existingRegistration.id);
-        return res.status(409).json({
-          success: false,
-          message: "You are already registered for this event",
-        });
-      }
-
-      // Check if event is cancelled
-      if (event.status === "CANCELLED") {
-        console.log("❌ Event is cancelled");
-        return res.status(400).json({
-          success: false,
-          message: "This event has been cancelled",
-        });
-      }
-
-      // Check if event has already started or completed
-      if (event.status === "COMPLETED") {
-        console.log("❌ Event is completed");
-        return res.status(400).json({
-          success: false,
-          message: "Registration closed - event has ended",
-        });
-      }
-
-      // Check if registration deadline passed (only if deadline is set)
-      if (event.registrationDeadline) {
-        const now = new Date();
-        const deadline = new Date(event.registrationDeadline);
-
-        console.log("🕐 Deadline check:", {
-          now: now.toISOString(),
-          deadline: deadline.toISOString(),
-          isPassed: now > deadline,
-        });
-
-        if (now > deadline) {
-          console.log("❌ Registration deadline passed");
-          return res.status(400).json({
-            success: false,
-            message: "Registration deadline has passed",
-          });
-        }
-      }
-
-      // Check if event is full (only if max attendees is set)
-      if (event.maxAttendees && event.maxAttendees > 0) {
-        console.log("👥 Capacity check:", {
-          current: event._count.registrations,
-          max: event.maxAttendees,
-          isFull: event._count.registrations >= event.maxAttendees,
+      const { registration, waitlistPosition } =
+        await RegistrationService.register(
+          { eventId, userId },
+          { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+        );
+
+      if (waitlistPosition) {
+        return res.status(201).json({
+          success: true,
+          message: `Event is full - you have been added to the waitlist (position ${waitlistPosition})`,
+          data: { registration, waitlistPosition },
         });
-
-        if (event._count.registrations >= event.maxAttendees) {
-          console.log("❌ Event is full");
-          return res.status(400).json({
-            success: false,
-            message: "Event is full - maximum capacity reached",
-          });
-        }
       }
 
-      // All validations passed, create registration
-      console.log("✅ All validations passed, creating registration...");
-
-      const registration = await prisma.eventRegistration.create({
-        data: { eventId, userId },
-        include: {
-          event: {
-            select: {
-              id: true,
-              title: true,
-              startDate: true,
-              location: true,
-            },
-          },
-        },
-      });
-
-      console.log("✅ Registration created:", registration.id);
-
-      // Log activity
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "REGISTER_EVENT",
-          entity: "EventRegistration",
-          entityId: registration.id,
-          description: `Registered for event: ${event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
-
       return res.status(201).json({
         success: true,
         message: "Successfully registered for event",
         data: { registration },
       });
-    } catch (error: any) {
-      console.error("❌ Register for event error:", error);
-      console.error("Error details:", {
-        name: error.name,
-        message: error.message,
-        code: error.code,
-      });
-
-      // Handle Prisma unique constraint errors
-      if (error.code === "P2002") {
-        return res.status(409).json({
-          success: false,
-          message: "You are already registered for this event",
-        });
+    } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
       }
 
+      console.error("Register for event error:", error);
       return res.status(500).json({
         success: false,
         message: "An error occurred while registering for the event",
@@ -405,43 +328,21 @@ export class StudentEventController {
           .json({ success: false, message: "Unauthorized" });
       }
 
-      const registration = await prisma.eventRegistration.findUnique({
-        where: { id },
-        include: { event: true },
-      });
-
-      if (!registration) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Registration not found" });
-      }
-
-      if (registration.userId !== userId) {
-        return res.status(403).json({
-          success: false,
-          message: "You can only cancel your own registrations",
-        });
-      }
-
-      await prisma.eventRegistration.delete({ where: { id } });
-
-      await prisma.activity.create({
-        data: {
-          userId,
-          action: "CANCEL_REGISTRATION",
-          entity: "EventRegistration",
-          entityId: id,
-          description: `Cancelled registration for event: ${registration.event.title}`,
-          ipAddress: req.ip,
-          userAgent: req.get("user-agent") || null,
-        },
-      });
+      await RegistrationService.cancel(
+        id,
+        { id: userId },
+        { ipAddress: req.ip, userAgent: req.get("user-agent") || null }
+      );
 
       return res.status(200).json({
         success: true,
         message: "Registration cancelled successfully",
       });
     } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+
       console.error("Cancel registration error:", error);
       return res.status(500).json({
         success: false,
@@ -463,7 +364,7 @@ export class StudentEventController {
 
       // Total registrations
       const totalRegistrations = await prisma.eventRegistration.count({
-        where: { userId },
+        where: { userId, status: { notIn: ["CANCELLED", "REJECTED"] } },
       });
 
       // Attended events
@@ -494,6 +395,7 @@ export class StudentEventController {
       const monthlyAttendance = await prisma.eventRegistration.findMany({
         where: {
           userId,
+          status: { notIn: ["CANCELLED", "REJECTED"] },
           createdAt: { gte: sixMonthsAgo },
         },
         select: {
@@ -523,6 +425,7 @@ export class StudentEventController {
         FROM "event_registrations" er
         JOIN "events" e ON er."eventId" = e.id
         WHERE er."userId" = ${userId}
+          AND er."status" NOT IN ('CANCELLED', 'REJECTED')
         GROUP BY e."eventType"
       `;
 
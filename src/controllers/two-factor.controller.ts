@@ -0,0 +1,412 @@
+// src/controllers/two-factor.controller.ts
+import { Request, Response } from "express";
+import { Role } from "@prisma/client";
+import prisma from "../config/database";
+import { PasswordUtil } from "../utils/password.util";
+import {
+  TwoFactorService,
+  TwoFactorError,
+} from "../services/two-factor.service";
+
+export class TwoFactorController {
+  // Get the current user's 2FA status
+  static async getStatus(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          role: true,
+          twoFactorEnabled: true,
+          twoFactorEnabledAt: true,
+          twoFactorRecoveryCodes: true,
+        },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          enabled: user.twoFactorEnabled,
+          enabledAt: user.twoFactorEnabledAt,
+          required: await TwoFactorService.isRequiredFor(user.role),
+          recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+        },
+      });
+    } catch (error) {
+      console.error("Get two-factor status error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while fetching two-factor status",
+      });
+    }
+  }
+
+  // Start enrollment: returns the secret, otpauth URI and QR code
+  static async setup(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      const enrollment = await TwoFactorService.beginEnrollment(
+        userId,
+        user.email
+      );
+
+      return res.status(200).json({
+        success: true,
+        message:
+          "Scan the QR code with your authenticator app, then enter a code to confirm",
+        data: enrollment,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Two-factor setup error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while setting up two-factor authentication",
+      });
+    }
+  }
+
+  // Finish enrollment with a code from the app; returns recovery codes once
+  static async confirm(req: Request, res: Response) {
+    try {
+      const { code } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!code) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Verification code is required" });
+      }
+
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(
+        userId,
+        String(code)
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "TWO_FACTOR_ENABLED",
+          entity: "User",
+          entityId: userId,
+          description: "Enabled two-factor authentication",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message:
+          "Two-factor authentication enabled. Store your recovery codes somewhere safe; they won't be shown again.",
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Two-factor confirm error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while enabling two-factor authentication",
+      });
+    }
+  }
+
+  // Turn 2FA off (needs the password and a current code)
+  static async disable(req: Request, res: Response) {
+    try {
+      const { password, code, recoveryCode } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!password || (!code && !recoveryCode)) {
+        return res.status(400).json({
+          success: false,
+          message: "Password and a code or recovery code are required",
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true, role: true, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({
+          success: false,
+          message: "Two-factor authentication is not enabled",
+        });
+      }
+
+      if (await TwoFactorService.isRequiredFor(user.role)) {
+        return res.status(403).json({
+          success: false,
+          message: "Two-factor authentication is mandatory for your role",
+        });
+      }
+
+      if (!(await PasswordUtil.compare(password, user.password))) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Incorrect password" });
+      }
+
+      const factor = await TwoFactorService.verify(userId, {
+        code: code ? String(code) : undefined,
+        recoveryCode: recoveryCode ? String(recoveryCode) : undefined,
+      });
+
+      if (!factor) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Invalid verification code" });
+      }
+
+      await TwoFactorService.disable(userId);
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "TWO_FACTOR_DISABLED",
+          entity: "User",
+          entityId: userId,
+          description: "Disabled two-factor authentication",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error) {
+      console.error("Two-factor disable error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while disabling two-factor authentication",
+      });
+    }
+  }
+
+  // Replace the recovery codes (needs a current code)
+  static async regenerateRecoveryCodes(req: Request, res: Response) {
+    try {
+      const { code } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Unauthorized" });
+      }
+
+      if (!code) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Verification code is required" });
+      }
+
+      const factor = await TwoFactorService.verify(userId, {
+        code: String(code),
+      });
+
+      if (!factor) {
+        return res
+          .status(401)
+          .json({ success: false, message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+        userId
+      );
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: "TWO_FACTOR_RECOVERY_CODES_REGENERATED",
+          entity: "User",
+          entityId: userId,
+          description: "Generated new two-factor recovery codes",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "New recovery codes generated; the old ones no longer work",
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Regenerate recovery codes error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while generating recovery codes",
+      });
+    }
+  }
+
+  // Get the roles that must use 2FA (admin)
+  static async getPolicy(req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        data: { requiredRoles: await TwoFactorService.getRequiredRoles() },
+      });
+    } catch (error) {
+      console.error("Get two-factor policy error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch setting",
+      });
+    }
+  }
+
+  // Set the roles that must use 2FA (super admin)
+  static async updatePolicy(req: Request, res: Response) {
+    try {
+      const { requiredRoles } = req.body;
+
+      if (
+        !Array.isArray(requiredRoles) ||
+        requiredRoles.some((role) => !Object.values(Role).includes(role))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: `requiredRoles must be an array of: ${Object.values(
+            Role
+          ).join(", ")}`,
+        });
+      }
+
+      const roles = await TwoFactorService.setRequiredRoles(requiredRoles);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "UPDATE_TWO_FACTOR_POLICY",
+          entity: "Setting",
+          entityId: "two_factor_required_roles",
+          description: roles.length
+            ? `Two-factor authentication required for: ${roles.join(", ")}`
+            : "Two-factor authentication made optional for all roles",
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Two-factor policy updated successfully",
+        data: { requiredRoles: roles },
+      });
+    } catch (error) {
+      console.error("Update two-factor policy error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update setting",
+      });
+    }
+  }
+
+  // Remove a user's 2FA so they can enroll again, e.g. after losing their
+  // phone and recovery codes (super admin)
+  static async resetForUser(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, name: true, studentId: true },
+      });
+
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      await TwoFactorService.disable(user.id);
+
+      await prisma.activity.create({
+        data: {
+          userId: req.user!.id,
+          action: "TWO_FACTOR_RESET",
+          entity: "User",
+          entityId: user.id,
+          description: `Reset two-factor authentication for ${
+            user.name || user.studentId
+          }`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent") || null,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Two-factor authentication reset",
+      });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while resetting two-factor authentication",
+      });
+    }
+  }
+}
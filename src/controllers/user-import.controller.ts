@@ -0,0 +1,63 @@
+// src/controllers/user-import.controller.ts
+import { Request, Response } from "express";
+import prisma from "../config/database";
+import {
+  UserImportService,
+  UserImportError,
+} from "../services/user-import.service";
+
+export class UserImportController {
+  // Import users from a CSV upload (field "file"). Columns: studentId, email,
+  // phone, name, course, yearOfStudy. dryRun=true only validates; rows
+  // already imported are reported as existing, so re-uploading is safe.
+  static async importUsers(req: Request, res: Response) {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "Upload a CSV file in the 'file' field",
+        });
+      }
+
+      const flag = (name: string) =>
+        String(req.body?.[name] ?? req.query[name]) === "true";
+      const dryRun = flag("dryRun");
+
+      const result = await UserImportService.run(
+        req.file.buffer.toString("utf-8"),
+        { dryRun, resendInvites: flag("resendInvites") }
+      );
+
+      if (!dryRun) {
+        await prisma.activity.create({
+          data: {
+            userId: req.user!.id,
+            action: "IMPORT_USERS",
+            entity: "User",
+            entityId: "import",
+            description: `Imported users from ${req.file.originalname}: ${result.summary.created} created, ${result.summary.existing} existing, ${result.summary.invalid} invalid`,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent") || null,
+          },
+        });
+      }
+
+      return res.status(dryRun ? 200 : 201).json({
+        success: true,
+        message: dryRun
+          ? `${result.summary.created} user(s) would be created, ${result.summary.invalid} row(s) have errors`
+          : `${result.summary.created} user(s) created and invited`,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof UserImportError) {
+        return res.status(error.statusCode).json(error.body);
+      }
+      console.error("Import users error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "An error occurred while importing users",
+      });
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// src/jobs/account-erasure.job.ts
+import { AccountErasureService } from "../services/account-erasure.service";
+import { JobDefinition } from "./job-runner";
+
+export const accountErasureJob: JobDefinition = {
+  name: "account-erasure",
+  description: "Erases accounts whose deletion grace period has ended",
+  intervalMs: parseInt(process.env.ACCOUNT_ERASURE_INTERVAL_MS || "3600000"),
+  runOnStart: true,
+  handler: async () => {
+    const erased = await AccountErasureService.eraseDue();
+    return `erased ${erased} accounts`;
+  },
+};
@@ -0,0 +1,16 @@
+// src/jobs/activity-retention.job.ts
+import { AuditLogService } from "../services/audit-log.service";
+import { JobDefinition } from "./job-runner";
+
+export const activityRetentionJob: JobDefinition = {
+  name: "activity-retention",
+  description: "Deletes activity log rows older than the retention period",
+  intervalMs: parseInt(
+    process.env.ACTIVITY_RETENTION_INTERVAL_MS || "86400000"
+  ),
+  runOnStart: false,
+  handler: async () => {
+    const purged = await AuditLogService.purgeExpired();
+    return `purged ${purged} activity rows`;
+  },
+};
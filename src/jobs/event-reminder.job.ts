@@ -0,0 +1,451 @@
+// src/jobs/event-reminder.job.ts
+import { NotificationType } from "@prisma/client";
+import prisma from "../config/database";
+import { NotificationController } from "../controllers/notification.controller";
+import { EmailUtil } from "../utils/email.util";
+import { CalendarUtil } from "../utils/calendar.util";
+import { JobDefinition, JobRunner } from "./job-runner";
+
+const BATCH_SIZE = 50;
+const MINUTE_MS = 60 * 1000;
+const LEASE_MS = 5 * 60 * 1000; // Renewed after every email
+
+// Comma-separated offsets before the date, e.g. "24h,1h" or "2d,30m"
+const START_OFFSETS = parseOffsets(
+  process.env.EVENT_REMINDER_OFFSETS || "24h,1h"
+);
+const DEADLINE_OFFSETS = parseOffsets(
+  process.env.EVENT_DEADLINE_REMINDER_OFFSETS || "24h"
+);
+
+type ReminderEvent = {
+  id: string;
+  slug: string;
+  title: string;
+  location: string;
+  startDate: Date;
+  registrationDeadline: Date | null;
+  createdById: string;
+  reminders: { kind: string }[];
+};
+
+type Recipient = { id: string; email: string; name: string | null };
+
+const reminderEventSelect = {
+  id: true,
+  slug: true,
+  title: true,
+  location: true,
+  startDate: true,
+  registrationDeadline: true,
+  createdById: true,
+  reminders: { select: { kind: true } },
+};
+
+const recipientSelect = { id: true, email: true, name: true };
+
+// A reminder is claimable when nobody holds it or the holder's lease ran out
+const unlockedWhere = (now: Date) => ({
+  OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+});
+
+const lease = () => ({
+  lockedBy: JobRunner.instanceId,
+  lockedUntil: new Date(Date.now() + LEASE_MS),
+});
+
+export const eventReminderJob: JobDefinition = {
+  name: "event-reminder",
+  description:
+    "Reminds registered students before events start and everyone else before registration closes",
+  intervalMs: parseInt(process.env.EVENT_REMINDER_INTERVAL_MS || "300000"),
+  runOnStart: true,
+  handler: async () => {
+    const now = new Date();
+    let reminders = 0;
+    let recipients = 0;
+
+    // Reminders a crashed or failed run didn't get through
+    const unfinished = await prisma.eventReminder.findMany({
+      where: {
+        sentAt: null,
+        ...unlockedWhere(now),
+        event: { published: true, status: "UPCOMING" },
+      },
+      select: { id: true, kind: true, event: { select: reminderEventSelect } },
+      orderBy: { createdAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    for (const reminder of unfinished) {
+      const claimed = await prisma.eventReminder.updateMany({
+        where: { id: reminder.id, sentAt: null, ...unlockedWhere(new Date()) },
+        data: lease(),
+      });
+      if (claimed.count === 0) continue;
+
+      recipients += await deliverReminder(
+        reminder.id,
+        reminder.kind,
+        reminder.event,
+        now
+      );
+      reminders++;
+    }
+
+    if (START_OFFSETS.length > 0) {
+      const events = await prisma.event.findMany({
+        where: {
+          published: true,
+          status: "UPCOMING",
+          startDate: {
+            gt: now,
+            lte: new Date(now.getTime() + START_OFFSETS[0] * MINUTE_MS),
+          },
+        },
+        select: reminderEventSelect,
+        orderBy: { startDate: "asc" },
+        take: BATCH_SIZE,
+      });
+
+      for (const event of events) {
+        const reminder = await claimReminder(
+          event,
+          "start",
+          START_OFFSETS,
+          event.startDate,
+          now
+        );
+        if (!reminder) continue;
+
+        recipients += await deliverReminder(
+          reminder.id,
+          reminder.kind,
+          event,
+          now
+        );
+        reminders++;
+      }
+    }
+
+    if (DEADLINE_OFFSETS.length > 0) {
+      const events = await prisma.event.findMany({
+        where: {
+          published: true,
+          status: "UPCOMING",
+          registrationDeadline: {
+            gt: now,
+            lte: new Date(now.getTime() + DEADLINE_OFFSETS[0] * MINUTE_MS),
+          },
+        },
+        select: reminderEventSelect,
+        orderBy: { registrationDeadline: "asc" },
+        take: BATCH_SIZE,
+      });
+
+      for (const event of events) {
+        const reminder = await claimReminder(
+          event,
+          "deadline",
+          DEADLINE_OFFSETS,
+          event.registrationDeadline!,
+          now
+        );
+        if (!reminder) continue;
+
+        recipients += await deliverReminder(
+          reminder.id,
+          reminder.kind,
+          event,
+          now
+        );
+        reminders++;
+      }
+    }
+
+    return `sent ${reminders} reminders to ${recipients} users`;
+  },
+};
+
+// Parse "24h,1h,30m,2d" (bare numbers are minutes) into minutes, largest first
+function parseOffsets(value: string): number[] {
+  const units: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+  const offsets = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const match = part.trim().match(/^(\d+)\s*([mhd]?)$/i);
+    if (!match) {
+      if (part.trim()) {
+        console.warn(`Ignoring invalid event reminder offset "${part}"`);
+      }
+      continue;
+    }
+    const minutes = parseInt(match[1]) * units[(match[2] || "m").toLowerCase()];
+    if (minutes > 0) offsets.add(minutes);
+  }
+
+  return [...offsets].sort((a, b) => b - a);
+}
+
+// Record the reminder that is due now (leased to this instance), or return
+// null if there is nothing to send. When several offsets are due at once (the
+// event was created late or the job was down) only the closest one is sent
+// and the others are marked as done so they aren't sent afterwards.
+async function claimReminder(
+  event: ReminderEvent,
+  prefix: "start" | "deadline",
+  offsets: number[],
+  date: Date,
+  now: Date
+): Promise<{ id: string; kind: string } | null> {
+  const sent = new Set(event.reminders.map((reminder) => reminder.kind));
+  const due = offsets
+    .filter((offset) => date.getTime() - offset * MINUTE_MS <= now.getTime())
+    .map((offset) => `${prefix}:${offset}`);
+
+  // offsets are largest first, so the last due one is closest to the date
+  const kind = due[due.length - 1];
+  if (!kind || sent.has(kind)) return null;
+
+  let reminder: { id: string };
+  try {
+    reminder = await prisma.eventReminder.create({
+      data: { eventId: event.id, kind, ...lease() },
+      select: { id: true },
+    });
+  } catch (error) {
+    // Another instance claimed this reminder first
+    if (error.code === "P2002") return null;
+    throw error;
+  }
+
+  const skipped = due.filter((other) => other !== kind && !sent.has(other));
+  if (skipped.length > 0) {
+    await prisma.eventReminder.createMany({
+      data: skipped.map((other) => ({
+        eventId: event.id,
+        kind: other,
+        sentAt: now,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  return { id: reminder.id, kind };
+}
+
+// Work out who a leased reminder is for and what it says, then send it;
+// returns the number of users reminded in this run
+async function deliverReminder(
+  reminderId: string,
+  kind: string,
+  event: ReminderEvent,
+  now: Date
+): Promise<number> {
+  const isStart = kind.startsWith("start:");
+  const date = isStart ? event.startDate : event.registrationDeadline;
+
+  // Resumed too late to be of use (the event started or registration closed)
+  if (!date || date <= now) {
+    await finishReminder(reminderId);
+    return 0;
+  }
+
+  const timeLeft = formatDuration(date.getTime() - now.getTime());
+
+  if (isStart) {
+    const registrations = await prisma.eventRegistration.findMany({
+      where: {
+        eventId: event.id,
+        status: "REGISTERED",
+        user: { isActive: true },
+      },
+      select: { user: { select: recipientSelect } },
+    });
+
+    return sendReminder(
+      reminderId,
+      event,
+      registrations.map((registration) => registration.user),
+      {
+        type: "REMINDER",
+        title: `Reminder: ${event.title}`,
+        message: `${event.title} starts in ${timeLeft} at ${event.location}.`,
+        heading: `Starting in ${timeLeft}`,
+        linkText: "View event",
+      }
+    );
+  }
+
+  // Students with any registration (even cancelled) have already decided
+  const students = await prisma.user.findMany({
+    where: {
+      role: "STUDENT",
+      isActive: true,
+      emailVerified: true,
+      eventRegistrations: { none: { eventId: event.id } },
+    },
+    select: recipientSelect,
+  });
+
+  return sendReminder(reminderId, event, students, {
+    type: "DEADLINE",
+    title: `Registration closing: ${event.title}`,
+    message: `Registration for ${event.title} closes in ${timeLeft}. Don't miss out!`,
+    heading: `Registration closes in ${timeLeft}`,
+    linkText: "Register now",
+  });
+}
+
+// Deliver a reminder in-app and by email to everyone who hasn't turned
+// event reminders off and hasn't had it yet. Each recipient is recorded as
+// they are reached, so a run that dies partway is picked up where it
+// stopped. Returns the number of users reminded in-app in this run.
+async function sendReminder(
+  reminderId: string,
+  event: ReminderEvent,
+  users: Recipient[],
+  content: {
+    type: NotificationType;
+    title: string;
+    message: string;
+    heading: string;
+    linkText: string;
+  }
+): Promise<number> {
+  const noReminders = await optedOut(
+    "events",
+    users.map((user) => user.id)
+  );
+  const reached = await prisma.eventReminderRecipient.findMany({
+    where: { reminderId },
+    select: { userId: true },
+  });
+  const alreadyReached = new Set(reached.map((recipient) => recipient.userId));
+  const recipients = users.filter(
+    (user) => !noReminders.has(user.id) && !alreadyReached.has(user.id)
+  );
+
+  if (recipients.length > 0) {
+    await NotificationController.notifyUsers({
+      userIds: recipients.map((user) => user.id),
+      title: content.title,
+      message: content.message,
+      type: content.type,
+      createdById: event.createdById,
+      link: `/events/${event.slug}`,
+      linkText: content.linkText,
+    });
+
+    await prisma.eventReminderRecipient.createMany({
+      data: recipients.map((user) => ({ reminderId, userId: user.id })),
+      skipDuplicates: true,
+    });
+  }
+
+  // Emails still owed, including any an earlier run didn't get to
+  const pending = await prisma.eventReminderRecipient.findMany({
+    where: { reminderId, emailedAt: null },
+    select: { id: true, user: { select: recipientSelect } },
+  });
+  const noEmail = await optedOut(
+    "email",
+    pending.map(({ user }) => user.id)
+  );
+
+  let failed = 0;
+  for (const { id, user } of pending) {
+    if (noEmail.has(user.id)) continue;
+
+    try {
+      await EmailUtil.sendEventReminderEmail(user.email, user.name, {
+        subject: content.title,
+        heading: content.heading,
+        message: content.message,
+        eventTitle: event.title,
+        startDate: event.startDate,
+        location: event.location,
+        url: CalendarUtil.eventUrl(event.slug),
+        buttonText: content.linkText,
+      });
+    } catch (error) {
+      console.error(`Event reminder email to ${user.id} failed:`, error);
+      failed++;
+      continue;
+    }
+
+    await prisma.eventReminderRecipient.update({
+      where: { id },
+      data: { emailedAt: new Date() },
+    });
+
+    // Hold on to the reminder through a long list; if another instance took
+    // it over meanwhile, leave the rest to it
+    const renewed = await prisma.eventReminder.updateMany({
+      where: { id: reminderId, lockedBy: JobRunner.instanceId },
+      data: lease(),
+    });
+    if (renewed.count === 0) return recipients.length;
+  }
+
+  if (failed > 0) {
+    // Let the next run retry the failed emails
+    await prisma.eventReminder.updateMany({
+      where: { id: reminderId, lockedBy: JobRunner.instanceId },
+      data: { lockedBy: null, lockedUntil: null },
+    });
+  } else {
+    await finishReminder(reminderId);
+  }
+
+  return recipients.length;
+}
+
+async function finishReminder(reminderId: string) {
+  const recipients = await prisma.eventReminderRecipient.count({
+    where: { reminderId },
+  });
+
+  await prisma.eventReminder.updateMany({
+    where: { id: reminderId, lockedBy: JobRunner.instanceId },
+    data: {
+      recipients,
+      sentAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+}
+
+// Users who switched a notification preference off (preferences default on)
+async function optedOut(
+  preference: "events" | "email",
+  userIds: string[]
+): Promise<Set<string>> {
+  if (userIds.length === 0) return new Set();
+
+  const settings = await prisma.setting.findMany({
+    where: {
+      key: {
+        in: userIds.map((id) => `user:${id}:notifications:${preference}`),
+      },
+      value: "false",
+    },
+    select: { key: true },
+  });
+
+  return new Set(settings.map((setting) => setting.key.split(":")[1]));
+}
+
+// Human-friendly "2 days", "3 hours", "45 minutes"
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / MINUTE_MS));
+  const [amount, unit] =
+    minutes >= 2 * 24 * 60
+      ? [Math.round(minutes / (24 * 60)), "day"]
+      : minutes >= 60
+      ? [Math.round(minutes / 60), "hour"]
+      : [minutes, "minute"];
+
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
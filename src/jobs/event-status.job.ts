@@ -0,0 +1,67 @@
+// src/jobs/event-status.job.ts
+import prisma from "../config/database";
+import { EventStatusUtil } from "../utils/event-status.util";
+import { JobDefinition } from "./job-runner";
+
+const BATCH_SIZE = 100;
+
+export const eventStatusJob: JobDefinition = {
+  name: "event-status",
+  description: "Moves events between UPCOMING, ONGOING and COMPLETED by date",
+  intervalMs: parseInt(process.env.EVENT_STATUS_INTERVAL_MS || "60000"),
+  runOnStart: true,
+  handler: async () => {
+    const now = new Date();
+
+    // Events whose stored status no longer matches their dates
+    const stale = await prisma.event.findMany({
+      where: {
+        OR: [
+          { status: "UPCOMING", startDate: { lte: now } },
+          { status: "ONGOING", endDate: { lte: now } },
+          { status: "ONGOING", startDate: { gt: now } },
+          { status: "COMPLETED", endDate: { gt: now } },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        createdById: true,
+      },
+      orderBy: { startDate: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let transitioned = 0;
+
+    for (const event of stale) {
+      const nextStatus = EventStatusUtil.derive(event, now);
+      if (nextStatus === event.status) continue;
+
+      // Only move the event if nobody changed its status in the meantime
+      const updated = await prisma.event.updateMany({
+        where: { id: event.id, status: event.status },
+        data: { status: nextStatus },
+      });
+
+      if (updated.count === 0) continue;
+
+      await prisma.activity.create({
+        data: {
+          userId: event.createdById,
+          action: "EVENT_STATUS_TRANSITION",
+          entity: "Event",
+          entityId: event.id,
+          description: `Event status changed automatically from ${event.status} to ${nextStatus}: ${event.title}`,
+        },
+      });
+
+      transitioned++;
+    }
+
+    return `transitioned ${transitioned} of ${stale.length} events`;
+  },
+};
@@ -0,0 +1,168 @@
+// src/jobs/job-runner.ts
+import os from "os";
+import crypto from "crypto";
+import chalk from "chalk";
+
+export interface JobDefinition {
+  name: string;
+  description?: string;
+  intervalMs: number;
+  runOnStart?: boolean;
+  // Return a short summary (e.g. "dispatched 3 notifications") for the status endpoint
+  handler: () => Promise<string | void>;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string | null;
+  intervalMs: number;
+  running: boolean;
+  runCount: number;
+  failureCount: number;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastResult: string | null;
+  lastError: string | null;
+  nextRunAt: Date | null;
+}
+
+export interface JobRunResult {
+  // True when a run was already in progress, so this one didn't happen
+  skipped: boolean;
+  status: JobStatus;
+}
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  status: JobStatus;
+  timer: NodeJS.Timeout | null;
+}
+
+export class JobRunner {
+  // Identifies this process when leasing rows, so crashed workers can be told apart
+  static readonly instanceId = `${os.hostname()}:${process.pid}:${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+
+  private static jobs = new Map<string, RegisteredJob>();
+  private static started = false;
+
+  static register(definition: JobDefinition) {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job "${definition.name}" is already registered`);
+    }
+
+    this.jobs.set(definition.name, {
+      definition,
+      timer: null,
+      status: {
+        name: definition.name,
+        description: definition.description || null,
+        intervalMs: definition.intervalMs,
+        running: false,
+        runCount: 0,
+        failureCount: 0,
+        lastStartedAt: null,
+        lastFinishedAt: null,
+        lastDurationMs: null,
+        lastResult: null,
+        lastError: null,
+        nextRunAt: null,
+      },
+    });
+
+    if (this.started) {
+      this.schedule(definition.name, definition.runOnStart ? 0 : undefined);
+    }
+  }
+
+  static start() {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      this.schedule(
+        job.definition.name,
+        job.definition.runOnStart ? 0 : undefined
+      );
+    }
+
+    console.log(
+      chalk.blue(`⏱️  Job runner started (${this.jobs.size} jobs)`),
+      chalk.gray(this.instanceId)
+    );
+  }
+
+  static stop() {
+    this.started = false;
+
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+      job.status.nextRunAt = null;
+    }
+  }
+
+  /**
+   * Run a job immediately, outside of its schedule
+   * @param name - Registered job name
+   * @returns Whether it ran and the updated job status, or null if no such job
+   */
+  static async runNow(name: string): Promise<JobRunResult | null> {
+    const job = this.jobs.get(name);
+    if (!job) return null;
+
+    const ran = await this.execute(job);
+    return { skipped: !ran, status: { ...job.status } };
+  }
+
+  static getStatus(name?: string): JobStatus[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => !name || job.definition.name === name)
+      .map((job) => ({ ...job.status }));
+  }
+
+  private static schedule(name: string, delayMs?: number) {
+    const job = this.jobs.get(name);
+    if (!job || !this.started) return;
+
+    const delay = delayMs ?? job.definition.intervalMs;
+    job.status.nextRunAt = new Date(Date.now() + delay);
+    job.timer = setTimeout(async () => {
+      await this.execute(job);
+      this.schedule(name);
+    }, delay);
+  }
+
+  // Returns false if the job was already running and nothing was done
+  private static async execute(job: RegisteredJob): Promise<boolean> {
+    // Never let two runs of the same job overlap in this process
+    if (job.status.running) return false;
+
+    const startedAt = new Date();
+    job.status.running = true;
+    job.status.lastStartedAt = startedAt;
+
+    try {
+      const result = await job.definition.handler();
+      job.status.lastResult = result || null;
+      job.status.lastError = null;
+    } catch (error: any) {
+      job.status.failureCount++;
+      job.status.lastError = error?.message || String(error);
+      console.error(
+        chalk.red(`❌ Job "${job.definition.name}" failed:`),
+        error
+      );
+    } finally {
+      const finishedAt = new Date();
+      job.status.running = false;
+      job.status.runCount++;
+      job.status.lastFinishedAt = finishedAt;
+      job.status.lastDurationMs = finishedAt.getTime() - startedAt.getTime();
+    }
+
+    return true;
+  }
+}
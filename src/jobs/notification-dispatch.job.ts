@@ -0,0 +1,93 @@
+// src/jobs/notification-dispatch.job.ts
+import prisma from "../config/database";
+import { NotificationController } from "../controllers/notification.controller";
+import { JobDefinition, JobRunner } from "./job-runner";
+
+const BATCH_SIZE = 20;
+const LEASE_MS = 5 * 60 * 1000; // 5 minutes
+// Leases taken before a notification is given up on; editing it resets the count
+const MAX_ATTEMPTS = parseInt(
+  process.env.NOTIFICATION_DISPATCH_MAX_ATTEMPTS || "5"
+);
+
+// A notification is claimable when nobody holds it or the holder's lease ran out
+const unlockedWhere = (now: Date) => ({
+  OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+});
+
+export const notificationDispatchJob: JobDefinition = {
+  name: "notification-dispatch",
+  description: "Sends SCHEDULED notifications once scheduledFor has passed",
+  intervalMs: parseInt(
+    process.env.NOTIFICATION_DISPATCH_INTERVAL_MS || "60000"
+  ),
+  runOnStart: true,
+  handler: async () => {
+    const now = new Date();
+
+    const due = await prisma.notification.findMany({
+      where: {
+        status: "SCHEDULED",
+        scheduledFor: { lte: now },
+        dispatchAttempts: { lt: MAX_ATTEMPTS },
+        ...unlockedWhere(now),
+      },
+      select: { id: true, dispatchAttempts: true },
+      orderBy: { scheduledFor: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const { id, dispatchAttempts } of due) {
+      // Take a lease on the row; if another instance got there first, skip it.
+      // Every lease counts as an attempt, so a send that keeps crashing the
+      // worker is eventually left alone.
+      const claimed = await prisma.notification.updateMany({
+        where: {
+          id,
+          status: "SCHEDULED",
+          dispatchAttempts,
+          ...unlockedWhere(new Date()),
+        },
+        data: {
+          lockedBy: JobRunner.instanceId,
+          lockedUntil: new Date(Date.now() + LEASE_MS),
+          dispatchAttempts: { increment: 1 },
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      // If we crash mid-send the lease expires and the row is picked up again;
+      // user notifications are unique per user so a retry never duplicates
+      const ok = await NotificationController.sendNotification(
+        id,
+        JobRunner.instanceId
+      );
+      if (ok) {
+        sent++;
+        continue;
+      }
+
+      failed++;
+      if (dispatchAttempts + 1 >= MAX_ATTEMPTS) {
+        console.error(
+          `Notification ${id} not sent after ${MAX_ATTEMPTS} attempts; giving up`
+        );
+      }
+
+      // Hand the row back so the next run retries it instead of waiting out
+      // the lease (unless someone else has taken it meanwhile)
+      await prisma.notification.updateMany({
+        where: { id, lockedBy: JobRunner.instanceId },
+        data: { lockedBy: null, lockedUntil: null },
+      });
+    }
+
+    return `dispatched ${sent} of ${due.length} due notifications${
+      failed ? ` (${failed} failed)` : ""
+    }`;
+  },
+};
@@ -0,0 +1,31 @@
+// src/jobs/session-cleanup.job.ts
+import prisma from "../config/database";
+import { JobDefinition } from "./job-runner";
+
+// Revoked sessions stay around for a while so they show up in the audit trail
+const REVOKED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const sessionCleanupJob: JobDefinition = {
+  name: "session-cleanup",
+  description: "Deletes expired sessions and long-revoked ones",
+  intervalMs: parseInt(process.env.SESSION_CLEANUP_INTERVAL_MS || "3600000"),
+  runOnStart: false,
+  handler: async () => {
+    const now = new Date();
+
+    const result = await prisma.session.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: now } },
+          {
+            revokedAt: {
+              lt: new Date(now.getTime() - REVOKED_RETENTION_MS),
+            },
+          },
+        ],
+      },
+    });
+
+    return `deleted ${result.count} sessions`;
+  },
+};
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from "express";
-import prisma from "../config/database";
 import { TokenUtil } from "../utils/token.util";
+import { SessionService } from "../services/session.service";
+import { PermissionService, Permission } from "../services/permission.service";
 
 export class AuthMiddleware {
+  // Access tokens are short-lived and verified from their signature alone;
+  // the session and account are re-checked whenever the token is refreshed
   static async authenticate(req: Request, res: Response, next: NextFunction) {
     try {
       const authHeader = req.headers.authorization;
@@ -27,53 +30,27 @@ export class AuthMiddleware {
         });
       }
 
-      // Check if session exists and is valid
-      const session = await prisma.session.findUnique({
-        where: { token },
-        include: {
-          user: {
-            select: {
-              id: true,
-              studentId: true,
-              email: true,
-              phone: true,
-              name: true,
-              role: true,
-              course: true,
-              yearOfStudy: true,
-              image: true,
-              isActive: true,
-            },
-          },
-        },
-      });
-
-      if (!session) {
-        return res.status(401).json({
-          success: false,
-          message: "Session not found. Please login again.",
-        });
-      }
-
-      // Check if session is expired
-      if (new Date() > session.expiresAt) {
-        await prisma.session.delete({ where: { id: session.id } });
+      // Check if the session was revoked (logout, deactivation, ...)
+      if (SessionService.isRevoked(decoded.sessionId)) {
         return res.status(401).json({
           success: false,
           message: "Session expired. Please login again.",
         });
       }
 
-      // Check if user is active
-      if (!session.user.isActive) {
-        return res.status(403).json({
-          success: false,
-          message: "Your account has been deactivated. Please contact admin.",
-        });
-      }
-
       // Attach user to request
-      req.user = session.user;
+      req.user = {
+        id: decoded.userId,
+        studentId: decoded.studentId,
+        role: decoded.role,
+        sessionId: decoded.sessionId,
+        impersonatorId: decoded.impersonatorId,
+      };
+
+      // Lets the frontend show an "impersonating" banner on every page
+      if (decoded.impersonatorId) {
+        res.setHeader("X-Impersonated-By", decoded.impersonatorId);
+      }
 
       next();
     } catch (error) {
@@ -106,6 +83,49 @@ export class AuthMiddleware {
     };
   }
 
+  // Refuse account-changing actions (password, deletion, sign-in methods)
+  // while a super admin is signed in as the user
+  static blockImpersonation(req: Request, res: Response, next: NextFunction) {
+    if (req.user?.impersonatorId) {
+      return res.status(403).json({
+        success: false,
+        message: "This action isn't available while impersonating a user",
+      });
+    }
+
+    next();
+  }
+
+  // Allow users whose base role or access roles grant the permission
+  static requirePermission(permission: Permission) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({
+            success: false,
+            message: "Unauthorized. Please login.",
+          });
+        }
+
+        if (!(await PermissionService.hasPermission(req.user, permission))) {
+          return res.status(403).json({
+            success: false,
+            message:
+              "Access denied. You do not have permission to perform this action.",
+          });
+        }
+
+        next();
+      } catch (error) {
+        console.error("Permission check error:", error);
+        return res.status(500).json({
+          success: false,
+          message: "Authorization failed",
+        });
+      }
+    };
+  }
+
   static async optionalAuth(req: Request, res: Response, next: NextFunction) {
     try {
       const authHeader = req.headers.authorization;
@@ -119,32 +139,14 @@ export class AuthMiddleware {
       try {
         const decoded = TokenUtil.verify(token);
 
-        const session = await prisma.session.findUnique({
-          where: { token },
-          include: {
-            user: {
-              select: {
-                id: true,
-                studentId: true,
-                email: true,
-                phone: true,
-                name: true,
-                role: true,
-                course: true,
-                yearOfStudy: true,
-                image: true,
-                isActive: true,
-              },
-            },
-          },
-        });
-
-        if (
-          session &&
-          new Date() <= session.expiresAt &&
-          session.user.isActive
-        ) {
-          req.user = session.user;
+        if (!SessionService.isRevoked(decoded.sessionId)) {
+          req.user = {
+            id: decoded.userId,
+            studentId: decoded.studentId,
+            role: decoded.role,
+            sessionId: decoded.sessionId,
+            impersonatorId: decoded.impersonatorId,
+          };
         }
       } catch (error) {
         // Token invalid, but continue as unauthenticated user
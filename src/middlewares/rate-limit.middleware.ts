@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  RateLimitService,
+  RateLimitPolicy,
+} from "../services/rate-limit.service";
+
+export class RateLimitMiddleware {
+  // Reject requests over the policy with 429 and Retry-After. Keys default to
+  // the client IP; return null from keyFor to skip limiting a request.
+  static limit(
+    name: string,
+    policy: RateLimitPolicy,
+    keyFor: (req: Request) => string | null | undefined = (req) => req.ip
+  ) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const key = keyFor(req);
+        if (!key) return next();
+
+        const result = await RateLimitService.hit(`${name}:${key}`, policy);
+
+        res.setHeader("RateLimit-Limit", String(policy.max));
+        res.setHeader("RateLimit-Remaining", String(result.remaining));
+
+        if (!result.allowed) {
+          const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+          res.setHeader("Retry-After", String(retryAfter));
+          return res.status(429).json({
+            success: false,
+            message: `Too many requests. Please try again in ${RateLimitService.formatDuration(
+              result.retryAfterMs
+            )}.`,
+            data: { retryAfter },
+          });
+        }
+
+        next();
+      } catch (error) {
+        // Never lock everyone out because the limiter itself failed
+        console.error("Rate limit error:", error);
+        next();
+      }
+    };
+  }
+}
@@ -41,6 +41,43 @@ export const upload = multer({
   },
 });
 
+// Registration form uploads: any file type here, per-field size/MIME rules are
+// checked against the form definition in the controller
+export const formUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+    files: 10,
+  },
+});
+
+// CSV imports: browsers report CSV under several MIME types, so the
+// extension is checked too
+export const csvUpload = multer({
+  storage: storage,
+  fileFilter: (req, file, cb) => {
+    const allowedMimeTypes = [
+      "text/csv",
+      "application/csv",
+      "application/vnd.ms-excel",
+      "text/plain",
+    ];
+
+    if (
+      allowedMimeTypes.includes(file.mimetype) &&
+      /\.csv$/i.test(file.originalname)
+    ) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only CSV files are allowed."));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+    files: 1,
+  },
+});
+
 // Error handling middleware for multer
 export const handleMulterError = (
   err: any,
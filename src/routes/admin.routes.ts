@@ -1,25 +1,132 @@
 // src/routes/admin.routes.ts
 import { Router } from "express";
 import { AdminController } from "../controllers/admin.controller";
+import { JobController } from "../controllers/job.controller";
+import { SessionController } from "../controllers/session.controller";
+import { TwoFactorController } from "../controllers/two-factor.controller";
+import { RoleController } from "../controllers/role.controller";
+import { AuditLogController } from "../controllers/audit-log.controller";
+import { UserImportController } from "../controllers/user-import.controller";
+import { ImpersonationController } from "../controllers/impersonation.controller";
 import { AuthMiddleware } from "../middlewares/auth.middleware";
+import { csvUpload } from "../middlewares/upload.middleware";
 
 const router = Router();
 
-// All routes require authentication and ADMIN or SUPER_ADMIN role
+// All routes require authentication; each section needs its own permission
+// (ADMIN and SUPER_ADMIN hold them all). New sections must add a line here.
 router.use(AuthMiddleware.authenticate);
-router.use(AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"));
+router.use("/users", AuthMiddleware.requirePermission("user:manage"));
+router.use("/settings", AuthMiddleware.requirePermission("settings:manage"));
+router.use("/jobs", AuthMiddleware.requirePermission("settings:manage"));
+router.use("/audit-logs", AuthMiddleware.requirePermission("audit:view"));
+router.use("/impersonations", AuthMiddleware.authorize("SUPER_ADMIN"));
+router.use(
+  ["/roles", "/permissions"],
+  AuthMiddleware.requirePermission("role:manage")
+);
 
 // User Management Routes
 router.get("/users", AdminController.getAllUsers);
 router.get("/users/stats", AdminController.getUserStats);
+router.post(
+  "/users/import",
+  csvUpload.single("file"),
+  UserImportController.importUsers
+);
+router.get("/users/erasures", AdminController.getPendingErasures);
 router.patch("/users/:id", AdminController.updateUser);
 router.delete("/users/:id", AdminController.deleteUser);
 router.patch("/users/:id/toggle-status", AdminController.toggleUserStatus);
 router.patch("/users/:id/update-role", AdminController.updateUserRole);
+router.post("/users/:id/unlock", AdminController.unlockUser);
+router.post("/users/:id/erasure", AdminController.eraseUser);
+router.delete("/users/:id/erasure", AdminController.cancelErasure);
 router.patch("/users/verify-all", AdminController.verifyAllUsers);
+router.get("/users/:id/sessions", SessionController.getUserSessions);
+router.post("/users/:id/force-logout", SessionController.forceLogout);
+router.post(
+  "/users/:id/impersonate",
+  AuthMiddleware.authorize("SUPER_ADMIN"),
+  ImpersonationController.start
+);
+router.post(
+  "/users/:id/two-factor/reset",
+  AuthMiddleware.authorize("SUPER_ADMIN"),
+  TwoFactorController.resetForUser
+);
+
+router.get(
+  "/users/:id/roles",
+  AuthMiddleware.requirePermission("role:manage"),
+  RoleController.getUserRoles
+);
+router.post(
+  "/users/:id/roles",
+  AuthMiddleware.requirePermission("role:manage"),
+  RoleController.assignRole
+);
+router.delete(
+  "/users/:id/roles/:roleId",
+  AuthMiddleware.requirePermission("role:manage"),
+  RoleController.removeRole
+);
+
+// Impersonation Routes
+router.get("/impersonations", ImpersonationController.getActive);
+router.delete("/impersonations/:sessionId", ImpersonationController.end);
+
+// Role & Permission Routes
+router.get("/permissions", RoleController.getPermissions);
+router.get("/roles", RoleController.getRoles);
+router.post("/roles", RoleController.createRole);
+router.put("/roles/:id", RoleController.updateRole);
+router.delete("/roles/:id", RoleController.deleteRole);
 
 // Settings Routes
 router.get("/settings/auto-verify", AdminController.getAutoVerifySetting);
 router.patch("/settings/auto-verify", AdminController.updateAutoVerifySetting);
+router.get("/settings/admin-approval", AdminController.getAdminApprovalSetting);
+router.patch(
+  "/settings/admin-approval",
+  AdminController.updateAdminApprovalSetting
+);
+router.get(
+  "/settings/password-policy",
+  AdminController.getPasswordPolicySetting
+);
+router.patch(
+  "/settings/password-policy",
+  AdminController.updatePasswordPolicySetting
+);
+router.get("/settings/two-factor", TwoFactorController.getPolicy);
+router.patch(
+  "/settings/two-factor",
+  AuthMiddleware.authorize("SUPER_ADMIN"),
+  TwoFactorController.updatePolicy
+);
+router.get("/settings/activity-retention", AuditLogController.getRetention);
+router.patch(
+  "/settings/activity-retention",
+  AuthMiddleware.authorize("SUPER_ADMIN"),
+  AuditLogController.updateRetention
+);
+
+// Audit Log Routes
+router.get("/audit-logs", AuditLogController.getActivities);
+router.get("/audit-logs/facets", AuditLogController.getFacets);
+router.get("/audit-logs/export", AuditLogController.exportActivities);
+router.get(
+  "/audit-logs/entities/:entity/:entityId",
+  AuditLogController.getEntityTimeline
+);
+router.get(
+  "/audit-logs/entities/:entity/:entityId/changes",
+  AuditLogController.getEntityChanges
+);
+
+// Background Job Routes
+router.get("/jobs", JobController.getJobs);
+router.post("/jobs/:name/run", JobController.runJob);
 
 export default router;
@@ -1,17 +1,108 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/auth.controller";
+import { TwoFactorController } from "../controllers/two-factor.controller";
+import { ImpersonationController } from "../controllers/impersonation.controller";
 import { AuthMiddleware } from "../middlewares/auth.middleware";
+import { RateLimitMiddleware } from "../middlewares/rate-limit.middleware";
+import {
+  LOGIN_IP_POLICY,
+  FORGOT_PASSWORD_IP_POLICY,
+  FORGOT_PASSWORD_EMAIL_POLICY,
+  MAGIC_LINK_IP_POLICY,
+  MAGIC_LINK_IDENTIFIER_POLICY,
+} from "../services/login-throttle.service";
 
 const router = Router();
 
+// Brute-force protection (failed attempts per account are handled in login)
+const loginLimit = RateLimitMiddleware.limit("login-ip", LOGIN_IP_POLICY);
+const forgotPasswordLimits = [
+  RateLimitMiddleware.limit("forgot-password-ip", FORGOT_PASSWORD_IP_POLICY),
+  RateLimitMiddleware.limit(
+    "forgot-password-email",
+    FORGOT_PASSWORD_EMAIL_POLICY,
+    (req) =>
+      typeof req.body?.email === "string"
+        ? req.body.email.trim().toLowerCase()
+        : null
+  ),
+];
+const magicLinkLimits = [
+  RateLimitMiddleware.limit("magic-link-ip", MAGIC_LINK_IP_POLICY),
+  RateLimitMiddleware.limit(
+    "magic-link-identifier",
+    MAGIC_LINK_IDENTIFIER_POLICY,
+    (req) => {
+      const identifier = req.body?.email || req.body?.studentId;
+      return typeof identifier === "string"
+        ? identifier.trim().toLowerCase()
+        : null;
+    }
+  ),
+];
+
 // Public routes
 router.post("/signup", AuthController.signup);
-router.post("/login", AuthController.login);
-router.post("/forgot-password", AuthController.forgotPassword);
+router.post("/login", loginLimit, AuthController.login);
+router.post("/login/2fa", loginLimit, AuthController.loginTwoFactor);
+router.post("/login/2fa/setup", AuthController.setupTwoFactorLogin);
+router.post("/login/2fa/confirm", AuthController.confirmTwoFactorLogin);
+router.post("/magic-link", ...magicLinkLimits, AuthController.requestMagicLink);
+router.post("/magic-link/login", loginLimit, AuthController.magicLinkLogin);
+router.get("/oidc", AuthController.getOidcProvider);
+router.post("/oidc/authorize", loginLimit, AuthController.oidcAuthorize);
+router.post(
+  "/oidc/callback",
+  loginLimit,
+  AuthMiddleware.optionalAuth,
+  AuthController.oidcCallback
+);
+router.post("/refresh", AuthController.refresh);
+router.post(
+  "/forgot-password",
+  ...forgotPasswordLimits,
+  AuthController.forgotPassword
+);
+router.get("/password-policy", AuthController.getPasswordPolicy);
 router.post("/reset-password", AuthController.resetPassword);
+router.post("/accept-invite", AuthController.acceptInvite);
+router.post("/verify-email", AuthController.verifyEmail);
+router.post("/resend-verification", AuthController.resendVerification);
 
 // Protected routes
 router.post("/logout", AuthMiddleware.authenticate, AuthController.logout);
 router.get("/me", AuthMiddleware.authenticate, AuthController.getCurrentUser);
+router.post(
+  "/impersonation/stop",
+  AuthMiddleware.authenticate,
+  ImpersonationController.stop
+);
+
+// Two-factor authentication (TOTP)
+router.get("/2fa", AuthMiddleware.authenticate, TwoFactorController.getStatus);
+router.post(
+  "/2fa/setup",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.blockImpersonation,
+  TwoFactorController.setup
+);
+router.post(
+  "/2fa/confirm",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.blockImpersonation,
+  TwoFactorController.confirm
+);
+router.post(
+  "/2fa/disable",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.blockImpersonation,
+  TwoFactorController.disable
+);
+router.post(
+  "/2fa/recovery-codes",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.blockImpersonation,
+  TwoFactorController.regenerateRecoveryCodes
+);
 
 export default router;
@@ -17,11 +17,11 @@ const router = Router();
 // BLOG ROUTES
 // ============================================
 
-// 1. Admin-only specific routes (BEFORE dynamic :slug and :id)
+// 1. Editor-only specific routes (BEFORE dynamic :slug and :id)
 router.get(
   "/blogs/stats",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.getBlogStats
 );
 
@@ -32,7 +32,7 @@ router.get("/blogs", AuthMiddleware.optionalAuth, BlogController.getAllBlogs);
 router.get(
   "/blogs/id/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.getBlogById
 );
 
@@ -47,28 +47,28 @@ router.get(
 router.post(
   "/blogs",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.createBlog
 );
 
 router.put(
   "/blogs/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.updateBlog
 );
 
 router.delete(
   "/blogs/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.deleteBlog
 );
 
 router.patch(
   "/blogs/:id/toggle-publish",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   BlogController.togglePublish
 );
 
@@ -81,21 +81,21 @@ router.get("/categories", CategoryController.getAllCategories);
 router.post(
   "/categories",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   CategoryController.createCategory
 );
 
 router.put(
   "/categories/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   CategoryController.updateCategory
 );
 
 router.delete(
   "/categories/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   CategoryController.deleteCategory
 );
 
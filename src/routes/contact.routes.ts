@@ -8,46 +8,46 @@ const router = Router();
 router.get("/", ContactController.getAllContacts);
 router.get("/:id", ContactController.getContactById);
 
-// Admin-only routes
+// Management routes (contact:manage permission)
 router.get(
   "/admin/all",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.getAllContactsAdmin
 );
 
 router.post(
   "/",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.createContact
 );
 
 router.put(
   "/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.updateContact
 );
 
 router.delete(
   "/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.deleteContact
 );
 
 router.patch(
   "/:id/toggle-status",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.toggleContactStatus
 );
 
 router.post(
   "/reorder",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("contact:manage"),
   ContactController.reorderContacts
 );
 
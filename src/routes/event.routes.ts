@@ -3,7 +3,10 @@ import { Router } from "express";
 import { EventController } from "../controllers/event.controller";
 import { StudentEventController } from "../controllers/student.event.controller";
 import { EventFormController } from "../controllers/event-form.controller";
+import { CheckInController } from "../controllers/check-in.controller";
+import { CalendarController } from "../controllers/calendar.controller";
 import { AuthMiddleware } from "../middlewares/auth.middleware";
+import { formUpload } from "../middlewares/upload.middleware";
 
 const router = Router();
 
@@ -46,10 +49,11 @@ router.get(
   EventFormController.getFormByEventId
 );
 
-// Submit registration form
+// Submit registration form (JSON, or multipart when the form has FILE fields)
 router.post(
   "/student/form/submit",
   AuthMiddleware.authenticate,
+  formUpload.any(),
   EventFormController.submitForm
 );
 
@@ -60,6 +64,13 @@ router.get(
   EventFormController.getMySubmission
 );
 
+// QR check-in code for my confirmed registration (?format=png|svg|json)
+router.get(
+  "/student/check-in/:eventId",
+  AuthMiddleware.authenticate,
+  CheckInController.getMyCheckInCode
+);
+
 // Register for event (student) - deprecated, use simple-register or form submit
 router.post(
   "/student/register",
@@ -74,6 +85,19 @@ router.delete(
   StudentEventController.cancelRegistration
 );
 
+// ============================================
+// CALENDAR ROUTES (iCalendar / .ics)
+// ============================================
+
+// Public feed of published events (?eventType=&category=)
+router.get("/calendar/public.ics", CalendarController.getPublicFeed);
+
+// Personal feed; the token in the URL authenticates the calendar app
+router.get("/calendar/feed/:token", CalendarController.getUserFeed);
+
+// Download a single event
+router.get("/:slug/ics", CalendarController.getEventIcs);
+
 // ============================================
 // ADMIN ROUTES - REGISTRATION FORMS
 // ============================================
@@ -82,7 +106,7 @@ router.delete(
 router.post(
   "/admin/form/:eventId",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventFormController.createOrUpdateForm
 );
 
@@ -90,7 +114,7 @@ router.post(
 router.get(
   "/admin/form/:eventId",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventFormController.getFormByEventId
 );
 
@@ -98,15 +122,23 @@ router.get(
 router.get(
   "/admin/submissions/:eventId",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventFormController.getEventSubmissions
 );
 
+// Export submissions as CSV or Excel (?format=csv|xlsx&status=)
+router.get(
+  "/admin/submissions/:eventId/export",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requirePermission("event:manage"),
+  EventFormController.exportSubmissions
+);
+
 // Update submission status (approve/reject)
 router.patch(
   "/admin/submissions/:id/status",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventFormController.updateSubmissionStatus
 );
 
@@ -114,23 +146,39 @@ router.patch(
 router.post(
   "/admin/submissions/bulk-approve",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventFormController.bulkApproveSubmissions
 );
 
+// Delete submission (also removes uploaded files)
+router.delete(
+  "/admin/submissions/:id",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requirePermission("event:manage"),
+  EventFormController.deleteSubmission
+);
+
 // Mark attendance
 router.patch(
   "/admin/submissions/:id/attendance",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:checkin"),
   EventFormController.markAttendance
 );
 
+// Scan a QR check-in code for an event
+router.post(
+  "/admin/check-in/:eventId",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requirePermission("event:checkin"),
+  CheckInController.checkIn
+);
+
 // Get attendance statistics
 router.get(
   "/admin/attendance/:eventId",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:checkin"),
   EventFormController.getAttendanceStats
 );
 
@@ -142,7 +190,7 @@ router.get(
 router.get(
   "/stats",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.getEventStats
 );
 
@@ -150,7 +198,7 @@ router.get(
 router.patch(
   "/:id/publish",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.togglePublish
 );
 
@@ -168,7 +216,7 @@ router.get(
 router.get(
   "/id/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.getEventById
 );
 
@@ -183,7 +231,7 @@ router.get(
 router.post(
   "/",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.createEvent
 );
 
@@ -191,7 +239,7 @@ router.post(
 router.put(
   "/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.updateEvent
 );
 
@@ -199,7 +247,7 @@ router.put(
 router.delete(
   "/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:manage"),
   EventController.deleteEvent
 );
 
@@ -221,7 +269,7 @@ router.delete(
 router.patch(
   "/registrations/:id/attendance",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("event:checkin"),
   EventController.updateAttendanceStatus
 );
 
@@ -283,10 +331,11 @@ router.get(
   EventFormController.getFormByEventId
 );
 
-// Submit registration form
+// Submit registration form (JSON, or multipart when the form has FILE fields)
 router.post(
   "/student/form/submit",
   AuthMiddleware.authenticate,
+  formUpload.any(),
   EventFormController.submitForm
 );
 
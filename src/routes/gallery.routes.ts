@@ -26,14 +26,14 @@ router.get("/images/:id", GalleryController.getImageById);
 router.get("/events/:eventId/images", GalleryController.getImagesByEvent);
 
 // ============================================
-// ADMIN ONLY ROUTES
+// MANAGEMENT ROUTES (gallery:upload permission)
 // ============================================
 
 // Album Management
 router.post(
   "/albums",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   upload.single("coverImage"),
   GalleryController.createAlbum
 );
@@ -41,7 +41,7 @@ router.post(
 router.put(
   "/albums/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   upload.single("coverImage"),
   GalleryController.updateAlbum
 );
@@ -49,7 +49,7 @@ router.put(
 router.delete(
   "/albums/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   GalleryController.deleteAlbum
 );
 
@@ -57,7 +57,7 @@ router.delete(
 router.post(
   "/images/upload",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   upload.array("images", 20), // Max 20 images at once
   GalleryController.uploadImages
 );
@@ -65,21 +65,21 @@ router.post(
 router.put(
   "/images/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   GalleryController.updateImage
 );
 
 router.delete(
   "/images/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   GalleryController.deleteImage
 );
 
 router.post(
   "/images/bulk-delete",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("gallery:upload"),
   GalleryController.bulkDeleteImages
 );
 
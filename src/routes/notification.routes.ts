@@ -5,53 +5,53 @@ import { AuthMiddleware } from "../middlewares/auth.middleware";
 
 const router = Router();
 
-// Admin routes
+// Admin routes (notification:send permission)
 router.get(
   "/admin",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.getAllNotifications
 );
 
 router.get(
   "/admin/stats",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.getStats
 );
 
 router.post(
   "/admin",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.createNotification
 );
 
 router.put(
   "/admin/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.updateNotification
 );
 
 router.post(
   "/admin/:id/send",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.sendNotificationNow
 );
 
 router.post(
   "/admin/:id/cancel",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.cancelNotification
 );
 
 router.delete(
   "/admin/:id",
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("notification:send"),
   NotificationController.deleteNotification
 );
 
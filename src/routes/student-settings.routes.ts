@@ -1,6 +1,8 @@
 // src/routes/student-settings.routes.ts
 import express from "express";
 import { StudentSettingsController } from "../controllers/student-settings.controller";
+import { CalendarController } from "../controllers/calendar.controller";
+import { SessionController } from "../controllers/session.controller";
 import { AuthMiddleware } from "../middlewares/auth.middleware";
 import multer from "multer";
 
@@ -22,7 +24,9 @@ const upload = multer({
   },
 });
 
-// All routes require authentication
+// All routes require authentication. Routes that change how the user signs
+// in, issue credentials that outlive the session (calendar feeds) or remove
+// their data are closed to impersonation sessions.
 router.use(AuthMiddleware.authenticate);
 
 /**
@@ -55,7 +59,40 @@ router.put(
  * @desc    Change password
  * @access  Private (Student only)
  */
-router.put("/password", StudentSettingsController.changePassword);
+router.put(
+  "/password",
+  AuthMiddleware.blockImpersonation,
+  StudentSettingsController.changePassword
+);
+
+/**
+ * @route   GET /api/student/sessions
+ * @desc    List active sessions (device, browser, last seen)
+ * @access  Private (Student only)
+ */
+router.get("/sessions", SessionController.getMySessions);
+
+/**
+ * @route   DELETE /api/student/sessions
+ * @desc    Sign out all other sessions
+ * @access  Private (Student only)
+ */
+router.delete(
+  "/sessions",
+  AuthMiddleware.blockImpersonation,
+  SessionController.revokeOtherSessions
+);
+
+/**
+ * @route   DELETE /api/student/sessions/:id
+ * @desc    Sign out one session
+ * @access  Private (Student only)
+ */
+router.delete(
+  "/sessions/:id",
+  AuthMiddleware.blockImpersonation,
+  SessionController.revokeSession
+);
 
 /**
  * @route   GET /api/student/notifications/preferences
@@ -77,11 +114,84 @@ router.put(
   StudentSettingsController.updateNotificationPreferences
 );
 
+/**
+ * @route   GET /api/student/calendar-feed
+ * @desc    Get calendar feed status
+ * @access  Private (Student only)
+ */
+router.get("/calendar-feed", CalendarController.getFeedStatus);
+
+/**
+ * @route   POST /api/student/calendar-feed
+ * @desc    Create or regenerate calendar feed URL (previous URL stops working)
+ * @access  Private (Student only)
+ */
+router.post(
+  "/calendar-feed",
+  AuthMiddleware.blockImpersonation,
+  CalendarController.createFeed
+);
+
+/**
+ * @route   DELETE /api/student/calendar-feed
+ * @desc    Revoke calendar feed URL
+ * @access  Private (Student only)
+ */
+router.delete(
+  "/calendar-feed",
+  AuthMiddleware.blockImpersonation,
+  CalendarController.revokeFeed
+);
+
+/**
+ * @route   GET /api/student/linked-accounts
+ * @desc    List linked single sign-on accounts
+ * @access  Private (Student only)
+ */
+router.get("/linked-accounts", StudentSettingsController.getLinkedAccounts);
+
+/**
+ * @route   POST /api/student/linked-accounts
+ * @desc    Start linking a single sign-on account (returns provider URL)
+ * @access  Private (Student only)
+ */
+router.post(
+  "/linked-accounts",
+  AuthMiddleware.blockImpersonation,
+  StudentSettingsController.linkAccount
+);
+
+/**
+ * @route   DELETE /api/student/linked-accounts/:id
+ * @desc    Unlink a single sign-on account
+ * @access  Private (Student only)
+ */
+router.delete(
+  "/linked-accounts/:id",
+  AuthMiddleware.blockImpersonation,
+  StudentSettingsController.unlinkAccount
+);
+
+/**
+ * @route   GET /api/student/data-export
+ * @desc    Download all personal data (?format=json|zip)
+ * @access  Private (Student only)
+ */
+router.get(
+  "/data-export",
+  AuthMiddleware.blockImpersonation,
+  StudentSettingsController.exportData
+);
+
 /**
  * @route   DELETE /api/student/account
- * @desc    Delete account (soft delete)
+ * @desc    Delete account (erased after the grace period)
  * @access  Private (Student only)
  */
-router.delete("/account", StudentSettingsController.deleteAccount);
+router.delete(
+  "/account",
+  AuthMiddleware.blockImpersonation,
+  StudentSettingsController.deleteAccount
+);
 
 export default router;
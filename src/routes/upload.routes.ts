@@ -71,29 +71,13 @@ async function compressImage(buffer: Buffer): Promise<Buffer> {
   }
 }
 
-// =============================
-// Role Authorization Helper
-// =============================
-// This ensures compatibility with authorize() expecting a single string
-const authorizeRoles = (...roles: string[]) => {
-  return (req: any, res: any, next: any) => {
-    if (!roles.includes(req.user?.role)) {
-      return res.status(403).json({
-        success: false,
-        message: "You do not have permission to perform this action.",
-      });
-    }
-    next();
-  };
-};
-
 // =============================
 // Upload Blog Cover Image Route
 // =============================
 router.post(
   "/blog-cover",
   AuthMiddleware.authenticate,
-  authorizeRoles("ADMIN", "SUPER_ADMIN"),
+  AuthMiddleware.requirePermission("blog:publish"),
   upload.single("image"),
   async (req, res) => {
     try {
@@ -16,8 +16,17 @@ import adminRoutes from "./routes/admin.routes";
 import uploadRoutes from "./routes/upload.routes";
 import contactRoutes from "./routes/contact.routes";
 import notificationRoutes from "./routes/notification.routes";
+import searchRoutes from "./routes/search.routes";
 
 import { CloudinaryUtil } from "./utils/cloudinary.util";
+import { FileStorageUtil } from "./utils/file-storage.util";
+import { JobRunner } from "./jobs/job-runner";
+import { notificationDispatchJob } from "./jobs/notification-dispatch.job";
+import { eventStatusJob } from "./jobs/event-status.job";
+import { eventReminderJob } from "./jobs/event-reminder.job";
+import { sessionCleanupJob } from "./jobs/session-cleanup.job";
+import { activityRetentionJob } from "./jobs/activity-retention.job";
+import { accountErasureJob } from "./jobs/account-erasure.job";
 import { handleMulterError } from "./middlewares/upload.middleware";
 import { PrismaClient } from "@prisma/client";
 
@@ -27,6 +36,7 @@ const app = express();
 const PORT = process.env.PORT ? Number(process.env.PORT) : 5000;
 const HOST = process.env.HOST || "0.0.0.0";
 const NODE_ENV = process.env.NODE_ENV || "production";
+const JOBS_ENABLED = process.env.JOBS_ENABLED !== "false";
 
 // ✅ Prisma Client
 const prisma = new PrismaClient({
@@ -45,6 +55,14 @@ const baseAllowedOrigins = [
 console.log(chalk.blue("🌐 Base CORS origins:"), baseAllowedOrigins);
 console.log(chalk.blue("📦 Environment:"), NODE_ENV);
 
+// Behind a load balancer/reverse proxy, req.ip must come from X-Forwarded-For
+// or every client shares the proxy's address (rate limits, activity logs).
+// Set TRUST_PROXY to the number of proxy hops, e.g. 1.
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY);
+  app.set("trust proxy", isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Security + performance middleware
 app.use(
   helmet({
@@ -117,7 +135,8 @@ app.use(
       "Origin",
       "User-Agent",
     ],
-    exposedHeaders: ["Authorization"],
+    // X-Impersonated-By drives the frontend's "impersonating" banner
+    exposedHeaders: ["Authorization", "X-Impersonated-By"],
     maxAge: 86400,
     optionsSuccessStatus: 204,
   })
@@ -130,6 +149,14 @@ CloudinaryUtil.configure({
   api_secret: process.env.CLOUDINARY_API_SECRET || "",
 });
 
+// Serve locally stored uploads when not using Cloudinary
+if (FileStorageUtil.provider === "local") {
+  app.use(
+    FileStorageUtil.localPublicPath,
+    express.static(FileStorageUtil.localDir)
+  );
+}
+
 // ✅ Root route - Health check
 app.get("/", (_req: Request, res: Response) => {
   res.status(200).json({
@@ -182,6 +209,7 @@ app.use("/api/admin", adminRoutes);
 app.use("/api/upload", uploadRoutes);
 app.use("/api/contacts", contactRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/search", searchRoutes);
 
 // File upload error handling
 app.use(handleMulterError);
@@ -244,6 +272,17 @@ const server = http.createServer(app);
     console.error(chalk.red("❌ Failed to connect to Neon DB:"), err.message);
     process.exit(1);
   }
+
+  // Background jobs (JOBS_ENABLED=false turns them off for this process)
+  JobRunner.register(notificationDispatchJob);
+  JobRunner.register(eventStatusJob);
+  JobRunner.register(eventReminderJob);
+  JobRunner.register(sessionCleanupJob);
+  JobRunner.register(activityRetentionJob);
+  JobRunner.register(accountErasureJob);
+  if (JOBS_ENABLED) {
+    JobRunner.start();
+  }
 })();
 
 server.listen(PORT, HOST, () => {
@@ -258,6 +297,8 @@ ${chalk.green.bold("🚀 BITSA Backend Server Started")}
 📝 Blog API: ${baseUrl}/api/blogs
 🎉 Events API: ${baseUrl}/api/events
 🖼️ Gallery API: ${baseUrl}/api/gallery
+🔎 Search API: ${baseUrl}/api/search
+⏱️ Background Jobs: ${JOBS_ENABLED ? "✅ Enabled" : "⏸️ Disabled"}
 🌐 CORS Allowed: ${[...baseAllowedOrigins, "*.vercel.app"].join(", ")}
 🧱 Environment: ${NODE_ENV}
 ☁️ Cloudinary: ${
@@ -270,6 +311,7 @@ ${chalk.green.bold("🚀 BITSA Backend Server Started")}
 // Graceful shutdown
 process.on("SIGINT", async () => {
   console.log(chalk.yellow("\n👋 Server shutting down gracefully..."));
+  JobRunner.stop();
   await prisma.$disconnect();
   server.close(() => {
     console.log(chalk.green("✅ Server closed"));
@@ -281,6 +323,7 @@ process.on("SIGTERM", async () => {
   console.log(
     chalk.yellow("\n👋 SIGTERM received, shutting down gracefully...")
   );
+  JobRunner.stop();
   await prisma.$disconnect();
   server.close(() => {
     console.log(chalk.green("✅ Server closed"));
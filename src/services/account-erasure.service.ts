@@ -0,0 +1,312 @@
+// src/services/account-erasure.service.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { PasswordUtil } from "../utils/password.util";
+import { TokenUtil } from "../utils/token.util";
+import { CloudinaryUtil } from "../utils/cloudinary.util";
+import { FileStorageUtil, StoredFile } from "../utils/file-storage.util";
+import { SessionService } from "./session.service";
+import { PermissionService } from "./permission.service";
+import { ActivityContext } from "./registration.service";
+
+export class AccountErasureError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "AccountErasureError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between a deletion request and the erasure, during which an admin
+// can still restore the account
+export const ERASURE_GRACE_DAYS = parseInt(
+  process.env.ACCOUNT_ERASURE_GRACE_DAYS || "30"
+);
+
+// Verification subjects are user ids for these purposes
+const USER_VERIFICATION_PURPOSES = [
+  "email-verification",
+  "account-invite",
+  "magic-link",
+];
+
+export class AccountErasureService {
+  // Deactivate the account now and erase it after the grace period
+  static async schedule(
+    userId: string,
+    actorId: string,
+    context: ActivityContext = {}
+  ): Promise<Date> {
+    const user = await this.findErasable(userId);
+
+    if (user.deletionScheduledFor) return user.deletionScheduledFor;
+
+    const scheduledFor = new Date(Date.now() + ERASURE_GRACE_DAYS * DAY_MS);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isActive: false,
+        deletionRequestedAt: new Date(),
+        deletionScheduledFor: scheduledFor,
+      },
+    });
+
+    await SessionService.revokeAllForUser(userId, "ACCOUNT_DELETED");
+
+    await prisma.activity.create({
+      data: {
+        userId: actorId,
+        action: "ACCOUNT_ERASURE_SCHEDULED",
+        entity: "User",
+        entityId: userId,
+        description: `Account scheduled for erasure on ${
+          scheduledFor.toISOString().split("T")[0]
+        }`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    return scheduledFor;
+  }
+
+  // Restore an account during its grace period
+  static async cancel(
+    userId: string,
+    actorId: string,
+    context: ActivityContext = {}
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.erasedAt) {
+      throw new AccountErasureError("User not found", 404);
+    }
+    if (!user.deletionScheduledFor) {
+      throw new AccountErasureError(
+        "This account is not scheduled for erasure"
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isActive: true,
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      },
+    });
+
+    await prisma.activity.create({
+      data: {
+        userId: actorId,
+        action: "ACCOUNT_ERASURE_CANCELLED",
+        entity: "User",
+        entityId: userId,
+        description: "Account restored before erasure",
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  // Erase an account now. The user row stays as an anonymous placeholder
+  // so blogs, comments, events and audit entries they authored keep an
+  // author ("Deleted user"); everything personal is deleted, including the
+  // profile image and form uploads. Blog cover images stay with the posts.
+  static async erase(
+    userId: string,
+    actorId: string,
+    context: ActivityContext = {}
+  ): Promise<void> {
+    const user = await this.findErasable(userId);
+
+    const submissions = await prisma.eventRegistrationSubmission.findMany({
+      where: { userId },
+      select: { responses: true },
+    });
+    const storedFiles: StoredFile[] = submissions.flatMap((submission) =>
+      FileStorageUtil.collectFiles(submission.responses)
+    );
+
+    // Cut off access tokens still in use before the sessions disappear
+    await SessionService.revokeAllForUser(userId, "ACCOUNT_DELETED");
+
+    const placeholder = `deleted-${userId}`;
+
+    await prisma.$transaction([
+      prisma.session.deleteMany({ where: { userId } }),
+      prisma.account.deleteMany({ where: { userId } }),
+      prisma.passwordHistory.deleteMany({ where: { userId } }),
+      prisma.userAccessRole.deleteMany({ where: { userId } }),
+      prisma.reaction.deleteMany({ where: { userId } }),
+      prisma.userNotification.deleteMany({ where: { userId } }),
+      // Registrations stay so attendance numbers don't change; the answers
+      // given in registration forms are personal and go
+      prisma.eventRegistrationSubmission.deleteMany({ where: { userId } }),
+      prisma.verification.deleteMany({
+        where: {
+          identifier: {
+            in: USER_VERIFICATION_PURPOSES.map(
+              (purpose) => `${purpose}:${userId}`
+            ),
+          },
+        },
+      }),
+      prisma.newsletter.deleteMany({ where: { email: user.email } }),
+      prisma.contact.deleteMany({ where: { email: user.email } }),
+      // Keep the audit trail, minus where they connected from and any
+      // recorded values, whether they made the change or it was made to them
+      prisma.activity.updateMany({
+        where: { userId },
+        data: { ipAddress: null, userAgent: null, changes: Prisma.DbNull },
+      }),
+      prisma.activity.updateMany({
+        where: { entity: "User", entityId: userId },
+        data: { changes: Prisma.DbNull },
+      }),
+      // Older entries have names and ids written into their descriptions.
+      // Only entries tied to this user are touched (theirs, ones about their
+      // account or their registrations), so other people who share a name
+      // keep their history.
+      ...[user.email, user.studentId, user.phone, user.name]
+        .filter((value) => value && value.trim())
+        .map((value) => {
+          const pattern = `(?<![[:alnum:]_])${value.replace(
+            /[.*+?^${}()|[\]\\]/g,
+            "\\$&"
+          )}(?![[:alnum:]_])`;
+          return prisma.$executeRaw`
+            UPDATE activities
+            SET description = regexp_replace(description, ${pattern}, 'Deleted user', 'gi')
+            WHERE description ~* ${pattern}
+              AND (
+                "userId" = ${userId}
+                OR (entity = 'User' AND "entityId" = ${userId})
+                OR (
+                  entity = 'EventRegistration'
+                  AND (
+                    "entityId" IN (
+                      SELECT id FROM event_registrations WHERE "userId" = ${userId}
+                    )
+                    OR changes #>> '{userId,from}' = ${userId}
+                  )
+                )
+              )
+          `;
+        }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          studentId: placeholder,
+          email: `${placeholder}@erased.invalid`,
+          phone: placeholder,
+          password: await PasswordUtil.hash(TokenUtil.generateResetToken()),
+          name: "Deleted user",
+          image: null,
+          bio: null,
+          course: null,
+          yearOfStudy: null,
+          role: "STUDENT",
+          emailVerified: false,
+          isActive: false,
+          resetToken: null,
+          resetTokenExpiry: null,
+          calendarFeedTokenHash: null,
+          calendarFeedCreatedAt: null,
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorEnabledAt: null,
+          invitedAt: null,
+          deletionRequestedAt: null,
+          deletionScheduledFor: null,
+          lastLoginAt: null,
+          erasedAt: new Date(),
+        },
+      }),
+    ]);
+
+    PermissionService.invalidate(userId);
+
+    if (user.image) {
+      await CloudinaryUtil.deleteImage(user.image).catch((error) =>
+        console.error("Failed to delete profile image:", error)
+      );
+    }
+    await FileStorageUtil.removeAll(storedFiles);
+
+    await prisma.activity.create({
+      data: {
+        userId: actorId,
+        action: "ACCOUNT_ERASED",
+        entity: "User",
+        entityId: userId,
+        description:
+          actorId === userId
+            ? "Account erased after the grace period"
+            : "Account erased by an administrator",
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  // Erase every account whose grace period has ended
+  static async eraseDue(): Promise<number> {
+    const due = await prisma.user.findMany({
+      where: { deletionScheduledFor: { lte: new Date() }, erasedAt: null },
+      select: { id: true },
+    });
+
+    let erased = 0;
+    for (const user of due) {
+      try {
+        await this.erase(user.id, user.id);
+        erased++;
+      } catch (error) {
+        console.error(`Failed to erase account ${user.id}:`, error);
+      }
+    }
+
+    return erased;
+  }
+
+  // Accounts waiting out their grace period, soonest first
+  static async listPending() {
+    return prisma.user.findMany({
+      where: { deletionScheduledFor: { not: null }, erasedAt: null },
+      select: {
+        id: true,
+        studentId: true,
+        name: true,
+        email: true,
+        deletionRequestedAt: true,
+        deletionScheduledFor: true,
+      },
+      orderBy: { deletionScheduledFor: "asc" },
+    });
+  }
+
+  private static async findErasable(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.erasedAt) {
+      throw new AccountErasureError("User not found", 404);
+    }
+    if (user.role === "SUPER_ADMIN") {
+      throw new AccountErasureError(
+        "Super admin accounts can't be erased. Change the role first.",
+        403
+      );
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,220 @@
+// src/services/audit-log.service.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+
+export class AuditLogError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "AuditLogError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+export const activityUserSelect = {
+  id: true,
+  name: true,
+  studentId: true,
+  email: true,
+  role: true,
+};
+
+export type ActivityWithUser = Prisma.ActivityGetPayload<{
+  include: { user: { select: typeof activityUserSelect } };
+}>;
+
+export interface ActivityPage {
+  items: ActivityWithUser[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to keep activity rows; 0 keeps them forever
+const RETENTION_SETTING = "activity_retention_days";
+const DEFAULT_RETENTION_DAYS = parseInt(
+  process.env.ACTIVITY_RETENTION_DAYS || "365"
+);
+const MIN_RETENTION_DAYS = 30;
+const PURGE_BATCH_SIZE = 5000;
+
+export class AuditLogService {
+  // Turn query-string filters into a where clause. Accepts userId, user
+  // (student ID or email), action (comma-separated), entity, entityId,
+  // ipAddress and a from/to date range.
+  static buildWhere(query: Record<string, any>): Prisma.ActivityWhereInput {
+    const where: Prisma.ActivityWhereInput = {};
+
+    if (query.userId) where.userId = String(query.userId);
+
+    if (query.user) {
+      const user = String(query.user).trim();
+      where.user = {
+        OR: [
+          { studentId: user },
+          { email: { equals: user, mode: "insensitive" } },
+        ],
+      };
+    }
+
+    if (query.action) {
+      const actions = String(query.action)
+        .split(",")
+        .map((action) => action.trim().toUpperCase())
+        .filter(Boolean);
+      where.action = actions.length === 1 ? actions[0] : { in: actions };
+    }
+
+    if (query.entity) where.entity = String(query.entity);
+    if (query.entityId) where.entityId = String(query.entityId);
+    if (query.ipAddress) where.ipAddress = String(query.ipAddress);
+
+    const from = query.from ? this.parseDate(query.from, "from") : null;
+    const to = query.to ? this.parseDate(query.to, "to") : null;
+
+    if (from && to && from > to) {
+      throw new AuditLogError("from must be before to");
+    }
+
+    if (from || to) {
+      where.createdAt = {
+        ...(from && { gte: from }),
+        // A bare date includes the whole day
+        ...(to &&
+          (/^\d{4}-\d{2}-\d{2}$/.test(String(query.to))
+            ? { lt: new Date(to.getTime() + DAY_MS) }
+            : { lte: to })),
+      };
+    }
+
+    return where;
+  }
+
+  // Newest first, paged with an opaque cursor so rows written while paging
+  // don't shift the results
+  static async search(
+    where: Prisma.ActivityWhereInput,
+    options: { cursor?: string; limit?: any } = {}
+  ): Promise<ActivityPage> {
+    const limit = Math.min(
+      Math.max(parseInt(options.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const after = options.cursor ? this.decodeCursor(options.cursor) : null;
+
+    const rows = await prisma.activity.findMany({
+      where: after
+        ? {
+            AND: [
+              where,
+              {
+                OR: [
+                  { createdAt: { lt: after.createdAt } },
+                  { createdAt: after.createdAt, id: { lt: after.id } },
+                ],
+              },
+            ],
+          }
+        : where,
+      include: { user: { select: activityUserSelect } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+    });
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor:
+        rows.length > limit && last
+          ? this.encodeCursor(last.createdAt, last.id)
+          : null,
+    };
+  }
+
+  static async getRetentionDays(): Promise<number> {
+    const setting = await prisma.setting.findUnique({
+      where: { key: RETENTION_SETTING },
+    });
+
+    const days = setting ? parseInt(setting.value) : DEFAULT_RETENTION_DAYS;
+    return isNaN(days) ? DEFAULT_RETENTION_DAYS : days;
+  }
+
+  static async setRetentionDays(days: number): Promise<number> {
+    if (!Number.isInteger(days) || (days !== 0 && days < MIN_RETENTION_DAYS)) {
+      throw new AuditLogError(
+        `Retention must be 0 (keep forever) or at least ${MIN_RETENTION_DAYS} days`
+      );
+    }
+
+    await prisma.setting.upsert({
+      where: { key: RETENTION_SETTING },
+      update: { value: String(days) },
+      create: { key: RETENTION_SETTING, value: String(days) },
+    });
+
+    return days;
+  }
+
+  // Delete rows older than the retention period, a batch at a time so a
+  // large backlog doesn't hold one huge delete open
+  static async purgeExpired(): Promise<number> {
+    const days = await this.getRetentionDays();
+    if (days <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - days * DAY_MS);
+    let purged = 0;
+
+    while (true) {
+      const batch = await prisma.activity.findMany({
+        where: { createdAt: { lt: cutoff } },
+        select: { id: true },
+        take: PURGE_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      const result = await prisma.activity.deleteMany({
+        where: { id: { in: batch.map((row) => row.id) } },
+      });
+      purged += result.count;
+
+      if (batch.length < PURGE_BATCH_SIZE) break;
+    }
+
+    return purged;
+  }
+
+  private static parseDate(value: any, name: string): Date {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      throw new AuditLogError(`${name} must be a valid date`);
+    }
+    return date;
+  }
+
+  private static encodeCursor(createdAt: Date, id: string): string {
+    return Buffer.from(`${createdAt.toISOString()}|${id}`).toString(
+      "base64url"
+    );
+  }
+
+  private static decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    const [createdAt, id] = Buffer.from(String(cursor), "base64url")
+      .toString()
+      .split("|");
+    const date = new Date(createdAt);
+
+    if (!id || isNaN(date.getTime())) {
+      throw new AuditLogError("Invalid cursor");
+    }
+
+    return { createdAt: date, id };
+  }
+}
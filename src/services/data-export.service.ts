@@ -0,0 +1,257 @@
+// src/services/data-export.service.ts
+import prisma from "../config/database";
+import { ZipUtil, ZipEntry } from "../utils/zip.util";
+import { FileStorageUtil, StoredFile } from "../utils/file-storage.util";
+
+// Files larger than this in total are listed in the archive but not copied
+const MAX_ARCHIVE_FILE_BYTES = 50 * 1024 * 1024;
+
+// Everything stored about the user except secrets (password hash, 2FA
+// secret, token hashes)
+const profileSelect = {
+  id: true,
+  studentId: true,
+  email: true,
+  phone: true,
+  name: true,
+  image: true,
+  bio: true,
+  course: true,
+  yearOfStudy: true,
+  role: true,
+  emailVerified: true,
+  isActive: true,
+  twoFactorEnabled: true,
+  twoFactorEnabledAt: true,
+  calendarFeedCreatedAt: true,
+  deletionRequestedAt: true,
+  deletionScheduledFor: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLoginAt: true,
+};
+
+export class DataExportService {
+  // Collect everything tied to a user, as one JSON-ready object
+  static async collect(userId: string) {
+    const [
+      profile,
+      linkedAccounts,
+      sessions,
+      accessRoles,
+      blogs,
+      comments,
+      reactions,
+      registrations,
+      submissions,
+      notifications,
+      createdEvents,
+      activities,
+    ] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: profileSelect }),
+      prisma.account.findMany({
+        where: { userId },
+        select: {
+          provider: true,
+          providerAccountId: true,
+          email: true,
+          createdAt: true,
+        },
+      }),
+      prisma.session.findMany({
+        where: { userId },
+        select: {
+          ipAddress: true,
+          userAgent: true,
+          createdAt: true,
+          lastUsedAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          revokedReason: true,
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.userAccessRole.findMany({
+        where: { userId },
+        select: {
+          assignedAt: true,
+          accessRole: { select: { name: true, permissions: true } },
+        },
+      }),
+      prisma.blog.findMany({
+        where: { authorId: userId },
+        include: {
+          category: { select: { name: true } },
+          tags: { select: { name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.comment.findMany({
+        where: { authorId: userId },
+        include: { blog: { select: { title: true, slug: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.reaction.findMany({
+        where: { userId },
+        include: { blog: { select: { title: true, slug: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.eventRegistration.findMany({
+        where: { userId },
+        include: {
+          event: { select: { title: true, slug: true, startDate: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.eventRegistrationSubmission.findMany({
+        where: { userId },
+        include: {
+          form: {
+            select: {
+              event: { select: { title: true } },
+              fields: { select: { id: true, label: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.userNotification.findMany({
+        where: { userId },
+        include: {
+          notification: {
+            select: { title: true, message: true, type: true, createdAt: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.event.findMany({
+        where: { createdById: userId },
+        select: { id: true, title: true, slug: true, createdAt: true },
+      }),
+      prisma.activity.findMany({
+        where: { userId },
+        select: {
+          action: true,
+          entity: true,
+          entityId: true,
+          description: true,
+          ipAddress: true,
+          userAgent: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      linkedAccounts,
+      sessions,
+      accessRoles,
+      blogs,
+      comments,
+      reactions,
+      eventRegistrations: registrations,
+      // Answers keyed by field label rather than field id
+      formSubmissions: submissions.map(({ form, ...submission }) => ({
+        ...submission,
+        event: form.event.title,
+        responses: Object.fromEntries(
+          Object.entries(
+            (submission.responses as Record<string, any>) || {}
+          ).map(([fieldId, value]) => [
+            form.fields.find((field) => field.id === fieldId)?.label || fieldId,
+            value,
+          ])
+        ),
+      })),
+      notifications,
+      createdEvents,
+      activities,
+    };
+  }
+
+  // data.json plus copies of the user's uploaded files. Files that can't be
+  // fetched are listed in files.json with the reason.
+  static async buildArchive(userId: string): Promise<Buffer> {
+    const data = await this.collect(userId);
+
+    const uploads: { path: string; load: () => Promise<Buffer> }[] = [];
+
+    if (data.profile?.image) {
+      const url = data.profile.image;
+      uploads.push({
+        path: `files/profile-image${this.extension(url)}`,
+        load: () => this.download(url),
+      });
+    }
+
+    for (const submission of data.formSubmissions) {
+      FileStorageUtil.collectFiles(submission.responses).forEach(
+        (file, index) =>
+          uploads.push({
+            path: `files/submissions/${submission.id}/${
+              index + 1
+            }-${this.safeName(file)}`,
+            load: () => FileStorageUtil.read(file),
+          })
+      );
+    }
+
+    const entries: ZipEntry[] = [
+      { name: "data.json", data: JSON.stringify(data, null, 2) },
+    ];
+    const manifest: { path: string; included: boolean; reason?: string }[] = [];
+    let totalBytes = 0;
+
+    for (const upload of uploads) {
+      try {
+        const body = await upload.load();
+        if (totalBytes + body.length > MAX_ARCHIVE_FILE_BYTES) {
+          manifest.push({
+            path: upload.path,
+            included: false,
+            reason: "Archive size limit reached",
+          });
+          continue;
+        }
+        totalBytes += body.length;
+        entries.push({ name: upload.path, data: body });
+        manifest.push({ path: upload.path, included: true });
+      } catch (error) {
+        manifest.push({
+          path: upload.path,
+          included: false,
+          reason: (error as Error).message,
+        });
+      }
+    }
+
+    entries.push({
+      name: "files.json",
+      data: JSON.stringify(manifest, null, 2),
+    });
+
+    return ZipUtil.build(entries);
+  }
+
+  private static async download(url: string): Promise<Buffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private static extension(url: string): string {
+    const match = /\.[a-z0-9]{2,5}$/i.exec(
+      new URL(url, "http://localhost").pathname
+    );
+    return match ? match[0].toLowerCase() : "";
+  }
+
+  private static safeName(file: StoredFile): string {
+    return file.originalName.replace(/[^a-zA-Z0-9._-]+/g, "-") || file.key;
+  }
+}
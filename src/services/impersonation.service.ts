@@ -0,0 +1,223 @@
+// src/services/impersonation.service.ts
+import prisma from "../config/database";
+import { AuthUser } from "../types/auth.types";
+import { SessionService, SessionTokens } from "./session.service";
+import { ActivityContext } from "./registration.service";
+
+export class ImpersonationError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "ImpersonationError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+// How long a super admin can stay signed in as someone else; the session
+// can't be refreshed past this, they have to start again
+export const IMPERSONATION_TTL_MINUTES = parseInt(
+  process.env.IMPERSONATION_TTL_MINUTES || "30"
+);
+
+const MAX_REASON_LENGTH = 500;
+
+const TARGET_SELECT = {
+  id: true,
+  studentId: true,
+  name: true,
+  email: true,
+  role: true,
+  isActive: true,
+  erasedAt: true,
+} as const;
+
+export class ImpersonationService {
+  // Open a session as the target user on behalf of a super admin
+  static async start(
+    admin: AuthUser,
+    targetId: string,
+    reason: string | undefined,
+    ctx: ActivityContext = {}
+  ): Promise<{
+    user: { id: string; studentId: string; name: string | null };
+    tokens: SessionTokens;
+  }> {
+    if (admin.role !== "SUPER_ADMIN") {
+      throw new ImpersonationError(
+        "Only super admins can impersonate users",
+        403
+      );
+    }
+
+    if (admin.impersonatorId) {
+      throw new ImpersonationError(
+        "Stop the current impersonation before starting another",
+        403
+      );
+    }
+
+    if (targetId === admin.id) {
+      throw new ImpersonationError("You can't impersonate yourself");
+    }
+
+    if (reason !== undefined && typeof reason !== "string") {
+      throw new ImpersonationError("reason must be a string");
+    }
+
+    const note = reason?.trim().slice(0, MAX_REASON_LENGTH) || null;
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      select: TARGET_SELECT,
+    });
+
+    if (!target || target.erasedAt) {
+      throw new ImpersonationError("User not found", 404);
+    }
+
+    // Signing in as another admin would hand over their admin powers
+    if (target.role === "ADMIN" || target.role === "SUPER_ADMIN") {
+      throw new ImpersonationError("Admin accounts can't be impersonated", 403);
+    }
+
+    if (!target.isActive) {
+      throw new ImpersonationError("Inactive accounts can't be impersonated");
+    }
+
+    const expiresAt = new Date(
+      Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000
+    );
+
+    const tokens = await SessionService.create(target, ctx, {
+      impersonatorId: admin.id,
+      expiresAt,
+    });
+
+    await prisma.activity.create({
+      data: {
+        userId: admin.id,
+        action: "IMPERSONATION_STARTED",
+        entity: "User",
+        entityId: target.id,
+        description: `Started impersonating ${
+          target.name || target.studentId
+        } for up to ${IMPERSONATION_TTL_MINUTES} minutes${
+          note ? `: ${note}` : ""
+        }`,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent || null,
+      },
+    });
+
+    return {
+      user: { id: target.id, studentId: target.studentId, name: target.name },
+      tokens,
+    };
+  }
+
+  // End an impersonation session (from the session itself, or by a super
+  // admin from their own account); returns false if it had already ended
+  static async stop(
+    sessionId: string,
+    actorId: string,
+    ctx: ActivityContext = {}
+  ): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        impersonatorId: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, studentId: true } },
+      },
+    });
+
+    if (!session?.impersonatorId) {
+      throw new ImpersonationError("Impersonation session not found", 404);
+    }
+
+    const revoked = await SessionService.revoke(
+      session.id,
+      "IMPERSONATION_ENDED"
+    );
+    if (!revoked) return false;
+
+    const minutes = Math.ceil(
+      (Date.now() - session.createdAt.getTime()) / 60000
+    );
+
+    await prisma.activity.create({
+      data: {
+        userId: session.impersonatorId,
+        action: "IMPERSONATION_STOPPED",
+        entity: "User",
+        entityId: session.user.id,
+        description: `Stopped impersonating ${
+          session.user.name || session.user.studentId
+        } after ${minutes} minute(s)${
+          actorId !== session.impersonatorId ? " (ended by another admin)" : ""
+        }`,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent || null,
+      },
+    });
+
+    return true;
+  }
+
+  // Impersonation sessions still running
+  static async listActive() {
+    const sessions = await prisma.session.findMany({
+      where: {
+        impersonatorId: { not: null },
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        impersonatorId: true,
+        createdAt: true,
+        expiresAt: true,
+        ipAddress: true,
+        user: { select: { id: true, name: true, studentId: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const impersonators = await prisma.user.findMany({
+      where: {
+        id: { in: sessions.map((session) => session.impersonatorId!) },
+      },
+      select: { id: true, name: true, email: true },
+    });
+    const byId = new Map(impersonators.map((user) => [user.id, user]));
+
+    return sessions.map(({ impersonatorId, ...session }) => ({
+      ...session,
+      impersonator: byId.get(impersonatorId!) || { id: impersonatorId },
+    }));
+  }
+
+  // Who is signed in as the user, for the "impersonating" banner
+  static async describe(user: AuthUser) {
+    if (!user.impersonatorId) return null;
+
+    const [impersonator, session] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: user.impersonatorId },
+        select: { id: true, name: true, email: true },
+      }),
+      prisma.session.findUnique({
+        where: { id: user.sessionId },
+        select: { expiresAt: true },
+      }),
+    ]);
+
+    return {
+      impersonator: impersonator || { id: user.impersonatorId },
+      expiresAt: session?.expiresAt || null,
+    };
+  }
+}
@@ -0,0 +1,491 @@
+// src/services/oidc.service.ts
+import crypto from "crypto";
+import { CookieOptions, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import prisma from "../config/database";
+import { VerificationUtil } from "../utils/verification.util";
+
+export class OidcError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "OidcError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+// Signing in, or adding the identity to an account that is already signed in
+export type OidcIntent = "login" | "link";
+
+export interface OidcIdentity {
+  subject: string; // The provider's stable user id ("sub")
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export interface OidcFlow {
+  intent: OidcIntent;
+  userId: string | null; // Set when linking
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+// Any OpenID Connect provider (the university IdP, Google, a local mock)
+// works; OIDC_ISSUER is the URL its /.well-known/openid-configuration lives
+// under.
+const ISSUER = (process.env.OIDC_ISSUER || "").replace(/\/+$/, "");
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "";
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || "";
+// The frontend page the provider sends users back to; it posts code and
+// state to /api/auth/oidc/callback
+const REDIRECT_URI =
+  process.env.OIDC_REDIRECT_URI ||
+  `${process.env.FRONTEND_URL}/auth/oidc/callback`;
+const SCOPES = process.env.OIDC_SCOPES || "openid email profile";
+// Stored as Account.provider, so keep it stable once accounts are linked
+export const OIDC_PROVIDER = process.env.OIDC_PROVIDER_ID || "oidc";
+const PROVIDER_NAME = process.env.OIDC_PROVIDER_NAME || "Single sign-on";
+
+const FLOW_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes to finish at the provider
+// The state also goes in an httpOnly cookie on the browser that started the
+// flow, and the callback needs both. Without it, someone could start a flow,
+// stop at the callback and get a victim's browser to finish it, signing the
+// victim into their account (login CSRF).
+//
+// The frontend makes both API calls itself (authorize, then callback) with
+// fetch(..., { credentials: "include" }). When it is served from another
+// site than the API (e.g. *.vercel.app against the API's own domain) the
+// cookie has to be SameSite=None; Secure, so the API must be on HTTPS and
+// the browser must allow third-party cookies. Browsers that block them
+// (Safari, or Chrome with tracking protection) need the frontend and API
+// on the same site, e.g. app.example.com and api.example.com, so the cookie
+// is first-party. A frontend served by the API itself gets SameSite=Lax.
+const STATE_COOKIE = "oidc_state";
+const STATE_COOKIE_PATH = "/api/auth/oidc";
+const METADATA_TTL_MS = 60 * 60 * 1000; // Re-read discovery/keys hourly
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+export class OidcService {
+  private static metadata: { value: ProviderMetadata; fetchedAt: number };
+  private static keys: { value: crypto.JsonWebKey[]; fetchedAt: number };
+
+  static isEnabled(): boolean {
+    return Boolean(ISSUER && CLIENT_ID);
+  }
+
+  // What the frontend needs to show a "Sign in with ..." button
+  static getProvider() {
+    return {
+      enabled: this.isEnabled(),
+      provider: OIDC_PROVIDER,
+      name: PROVIDER_NAME,
+    };
+  }
+
+  // Start a sign-in or link; returns the provider URL to send the user to and
+  // sets the state cookie the callback checks
+  static async createAuthorizationUrl(
+    req: Request,
+    res: Response,
+    intent: OidcIntent,
+    userId?: string
+  ): Promise<string> {
+    this.assertEnabled();
+
+    const metadata = await this.getMetadata();
+    const nonce = this.randomValue();
+    const codeVerifier = this.randomValue();
+
+    // The state is a single-use token whose row remembers what the flow was
+    // for; every part is base64url or a cuid, so ":" can separate them
+    const state = await VerificationUtil.issue(
+      "oidc-state",
+      [intent, userId || "-", nonce, codeVerifier].join(":"),
+      FLOW_EXPIRY_MS
+    );
+
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: SCOPES,
+      state,
+      nonce,
+      code_challenge: crypto
+        .createHash("sha256")
+        .update(codeVerifier)
+        .digest("base64url"),
+      code_challenge_method: "S256",
+    });
+
+    res.cookie(STATE_COOKIE, state, {
+      ...this.stateCookieOptions(req),
+      maxAge: FLOW_EXPIRY_MS,
+    });
+
+    return `${metadata.authorization_endpoint}?${params.toString()}`;
+  }
+
+  // Make sure the callback comes from the browser that started the flow
+  static checkStateCookie(req: Request, res: Response, state: string) {
+    const cookie = (req.headers.cookie || "")
+      .split(";")
+      .map((part) => part.trim().split("="))
+      .find(([name]) => name === STATE_COOKIE)?.[1];
+
+    res.clearCookie(STATE_COOKIE, this.stateCookieOptions(req));
+
+    if (!cookie || decodeURIComponent(cookie) !== state) {
+      throw new OidcError(
+        "This sign-in was started in a different browser. Please try again."
+      );
+    }
+  }
+
+  // Finish a flow: check the state, exchange the code and verify the ID token
+  static async completeAuthorization(
+    code: string,
+    state: string
+  ): Promise<{ flow: OidcFlow; identity: OidcIdentity }> {
+    this.assertEnabled();
+
+    const subject = await VerificationUtil.consume("oidc-state", state);
+    if (!subject) {
+      throw new OidcError(
+        "Your sign-in attempt has expired. Please try again."
+      );
+    }
+
+    const [intent, userId, nonce, codeVerifier] = subject.split(":");
+    const metadata = await this.getMetadata();
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (CLIENT_SECRET) {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${encodeURIComponent(CLIENT_ID)}:${encodeURIComponent(CLIENT_SECRET)}`
+      ).toString("base64")}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: REDIRECT_URI,
+        client_id: CLIENT_ID,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    const tokens: any = await response.json().catch(() => ({}));
+
+    if (!response.ok || !tokens.id_token) {
+      console.error("OIDC token exchange failed:", response.status, tokens);
+      throw new OidcError(
+        `${PROVIDER_NAME} sign-in failed. Please try again.`,
+        502
+      );
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, nonce);
+    let identity = this.toIdentity(claims);
+
+    // Some providers only put profile claims in the userinfo response
+    if (!identity.email && metadata.userinfo_endpoint && tokens.access_token) {
+      identity = await this.fetchUserInfo(
+        metadata.userinfo_endpoint,
+        tokens.access_token,
+        identity
+      );
+    }
+
+    return {
+      flow: {
+        intent: intent as OidcIntent,
+        userId: userId === "-" ? null : userId,
+      },
+      identity,
+    };
+  }
+
+  // Find the user an identity signs in as. An identity seen for the first
+  // time is linked to the user with the same email, but only when the
+  // provider says it has verified that email.
+  static async resolveUser(
+    identity: OidcIdentity
+  ): Promise<{ userId: string; linked: boolean }> {
+    const account = await prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider: OIDC_PROVIDER,
+          providerAccountId: identity.subject,
+        },
+      },
+      select: { userId: true },
+    });
+
+    if (account) return { userId: account.userId, linked: false };
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new OidcError(
+        `Your ${PROVIDER_NAME} account has no verified email address. Log in with your password and link it from your settings instead.`,
+        403
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: identity.email },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new OidcError(
+        `No account uses ${identity.email}. Please signup first, then link your ${PROVIDER_NAME} account from your settings.`,
+        404
+      );
+    }
+
+    await this.link(user.id, identity);
+
+    return { userId: user.id, linked: true };
+  }
+
+  // Attach an identity to a user
+  static async link(userId: string, identity: OidcIdentity) {
+    const existing = await prisma.account.findFirst({
+      where: {
+        provider: OIDC_PROVIDER,
+        OR: [{ providerAccountId: identity.subject }, { userId }],
+      },
+    });
+
+    if (existing) {
+      if (
+        existing.userId === userId &&
+        existing.providerAccountId === identity.subject
+      ) {
+        return existing;
+      }
+
+      throw new OidcError(
+        existing.userId === userId
+          ? `Another ${PROVIDER_NAME} account is already linked. Unlink it first.`
+          : `This ${PROVIDER_NAME} account is already linked to another user.`,
+        409
+      );
+    }
+
+    try {
+      // Only used to sign in, so the provider's tokens aren't kept
+      return await prisma.account.create({
+        data: {
+          userId,
+          type: "oidc",
+          provider: OIDC_PROVIDER,
+          providerAccountId: identity.subject,
+          email: identity.email,
+          scope: SCOPES,
+        },
+      });
+    } catch (error: any) {
+      if (error.code === "P2002") {
+        throw new OidcError(
+          `This ${PROVIDER_NAME} account is already linked to another user.`,
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  private static async verifyIdToken(
+    idToken: string,
+    nonce: string
+  ): Promise<jwt.JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new OidcError(`${PROVIDER_NAME} returned an invalid ID token`, 502);
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    const metadata = await this.getMetadata();
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(
+        idToken,
+        crypto.createPublicKey({ key, format: "jwk" }),
+        {
+          algorithms: ID_TOKEN_ALGORITHMS,
+          issuer: metadata.issuer,
+          audience: CLIENT_ID,
+          clockTolerance: 60,
+        }
+      ) as jwt.JwtPayload;
+    } catch (error) {
+      console.error("OIDC ID token verification failed:", error);
+      throw new OidcError(`${PROVIDER_NAME} returned an invalid ID token`, 502);
+    }
+
+    if (claims.nonce !== nonce || !claims.sub) {
+      throw new OidcError(`${PROVIDER_NAME} returned an invalid ID token`, 502);
+    }
+
+    return claims;
+  }
+
+  private static async fetchUserInfo(
+    endpoint: string,
+    accessToken: string,
+    identity: OidcIdentity
+  ): Promise<OidcIdentity> {
+    const response = await fetch(endpoint, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/json",
+      },
+    });
+    if (!response.ok) return identity;
+
+    const info = this.toIdentity((await response.json()) as object);
+
+    // The spec requires userinfo to describe the same user as the ID token
+    if (info.subject !== identity.subject) return identity;
+
+    return {
+      subject: identity.subject,
+      email: info.email,
+      emailVerified: info.emailVerified,
+      name: identity.name || info.name,
+    };
+  }
+
+  private static toIdentity(claims: Record<string, any>): OidcIdentity {
+    return {
+      subject: String(claims.sub),
+      email:
+        typeof claims.email === "string"
+          ? claims.email.trim().toLowerCase()
+          : null,
+      // Some providers send the boolean as a string
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === "true",
+      name: typeof claims.name === "string" ? claims.name : null,
+    };
+  }
+
+  private static async getMetadata(): Promise<ProviderMetadata> {
+    if (
+      this.metadata &&
+      Date.now() - this.metadata.fetchedAt < METADATA_TTL_MS
+    ) {
+      return this.metadata.value;
+    }
+
+    const response = await fetch(`${ISSUER}/.well-known/openid-configuration`, {
+      headers: { Accept: "application/json" },
+    });
+    const value = response.ok
+      ? ((await response.json()) as ProviderMetadata)
+      : null;
+
+    if (!value || value.issuer?.replace(/\/+$/, "") !== ISSUER) {
+      console.error(
+        "OIDC discovery failed:",
+        response.status,
+        value?.issuer || "no issuer"
+      );
+      throw new OidcError(`${PROVIDER_NAME} is unavailable right now`, 502);
+    }
+
+    this.metadata = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  // Keys are cached, and re-read when a token uses a key we haven't seen
+  // (the provider rotated its keys)
+  private static async getSigningKey(kid?: string): Promise<crypto.JsonWebKey> {
+    const find = (keys: crypto.JsonWebKey[]) =>
+      keys.find(
+        (key) => key.use !== "enc" && (!kid || (key as any).kid === kid)
+      );
+
+    if (this.keys && Date.now() - this.keys.fetchedAt < METADATA_TTL_MS) {
+      const cached = find(this.keys.value);
+      if (cached) return cached;
+    }
+
+    const metadata = await this.getMetadata();
+    const response = await fetch(metadata.jwks_uri, {
+      headers: { Accept: "application/json" },
+    });
+    const jwks: any = response.ok ? await response.json() : null;
+
+    if (!Array.isArray(jwks?.keys)) {
+      console.error("OIDC JWKS fetch failed:", response.status);
+      throw new OidcError(`${PROVIDER_NAME} is unavailable right now`, 502);
+    }
+
+    this.keys = { value: jwks.keys, fetchedAt: Date.now() };
+
+    const key = find(jwks.keys);
+    if (!key) {
+      throw new OidcError(`${PROVIDER_NAME} returned an invalid ID token`, 502);
+    }
+    return key;
+  }
+
+  // Cross-site callers (see STATE_COOKIE) only get the cookie back when it
+  // is SameSite=None, which browsers accept only with Secure
+  private static stateCookieOptions(req: Request): CookieOptions {
+    const origin = req.get("origin");
+    let crossSite = false;
+    if (origin) {
+      try {
+        crossSite = new URL(origin).hostname !== req.hostname;
+      } catch {
+        crossSite = true;
+      }
+    }
+
+    return {
+      httpOnly: true,
+      sameSite: crossSite ? "none" : "lax",
+      secure: crossSite || process.env.NODE_ENV === "production",
+      path: STATE_COOKIE_PATH,
+    };
+  }
+
+  private static assertEnabled() {
+    if (!this.isEnabled()) {
+      throw new OidcError("Single sign-on is not configured", 404);
+    }
+  }
+
+  private static randomValue(): string {
+    return crypto.randomBytes(32).toString("base64url");
+  }
+}
@@ -0,0 +1,196 @@
+// src/services/password-policy.service.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import {
+  PasswordUtil,
+  PasswordRules,
+  DEFAULT_PASSWORD_RULES,
+} from "../utils/password.util";
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "PasswordPolicyError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+// maxAgeDays: passwords older than this must be changed (0 = never expire)
+// historySize: how many previous passwords can't be reused (0 = off)
+export interface PasswordPolicy extends PasswordRules {
+  maxAgeDays: number;
+  historySize: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  ...DEFAULT_PASSWORD_RULES,
+  maxAgeDays: 0,
+  historySize: 0,
+};
+
+// Stored as JSON; missing keys fall back to the defaults
+const POLICY_SETTING = "password_policy";
+
+const LIMITS = {
+  minLength: { min: 6, max: 128 },
+  maxAgeDays: { min: 0, max: 3650 },
+  // Every remembered password costs a bcrypt compare on each change
+  historySize: { min: 0, max: 12 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PasswordPolicyService {
+  static async getPolicy(): Promise<PasswordPolicy> {
+    const setting = await prisma.setting.findUnique({
+      where: { key: POLICY_SETTING },
+    });
+
+    if (!setting) return { ...DEFAULT_PASSWORD_POLICY };
+
+    try {
+      return { ...DEFAULT_PASSWORD_POLICY, ...JSON.parse(setting.value) };
+    } catch {
+      return { ...DEFAULT_PASSWORD_POLICY };
+    }
+  }
+
+  // Merge a partial update into the current policy
+  static async setPolicy(input: Record<string, any>): Promise<PasswordPolicy> {
+    const policy = await this.getPolicy();
+
+    for (const key of Object.keys(input)) {
+      if (!(key in DEFAULT_PASSWORD_POLICY)) {
+        throw new PasswordPolicyError(
+          `Unknown policy field: ${key}. Valid fields: ${Object.keys(
+            DEFAULT_PASSWORD_POLICY
+          ).join(", ")}`
+        );
+      }
+
+      const value = input[key];
+
+      if (typeof DEFAULT_PASSWORD_POLICY[key] === "boolean") {
+        if (typeof value !== "boolean") {
+          throw new PasswordPolicyError(`${key} must be true or false`);
+        }
+      } else {
+        const { min, max } = LIMITS[key as keyof typeof LIMITS];
+        if (!Number.isInteger(value) || value < min || value > max) {
+          throw new PasswordPolicyError(
+            `${key} must be a whole number from ${min} to ${max}`
+          );
+        }
+      }
+
+      policy[key] = value;
+    }
+
+    await prisma.setting.upsert({
+      where: { key: POLICY_SETTING },
+      update: { value: JSON.stringify(policy) },
+      create: { key: POLICY_SETTING, value: JSON.stringify(policy) },
+    });
+
+    return policy;
+  }
+
+  // Check a new password against the policy; with a userId, also against
+  // the user's current and previous passwords
+  static async validate(
+    password: string,
+    userId?: string
+  ): Promise<{ isValid: boolean; message?: string }> {
+    const policy = await this.getPolicy();
+
+    const result = PasswordUtil.validate(password, policy);
+    if (!result.isValid || !userId || policy.historySize === 0) return result;
+
+    const [user, history] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true },
+      }),
+      prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        take: policy.historySize,
+        select: { hash: true },
+      }),
+    ]);
+
+    const hashes = [user?.password, ...history.map((entry) => entry.hash)];
+
+    for (const hash of hashes) {
+      if (hash && (await PasswordUtil.compare(password, hash))) {
+        return {
+          isValid: false,
+          message: `You can't reuse your current password or any of your previous ${policy.historySize}`,
+        };
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  // Replace a user's password, remembering the old hash for the reuse
+  // check. Call validate first; data is written in the same update.
+  static async setPassword(
+    userId: string,
+    password: string,
+    data: Prisma.UserUpdateInput = {}
+  ): Promise<void> {
+    const [policy, user] = await Promise.all([
+      this.getPolicy(),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true, invitedAt: true },
+      }),
+    ]);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...data,
+        password: await PasswordUtil.hash(password),
+        passwordChangedAt: new Date(),
+      },
+    });
+
+    // Invited accounts had a random placeholder, not a real password
+    if (policy.historySize > 0 && user && !user.invitedAt) {
+      await prisma.passwordHistory.create({
+        data: { userId, hash: user.password },
+      });
+    }
+
+    // Drop entries beyond the history size
+    const stale = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      skip: policy.historySize,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+
+  // Whether the password is older than the policy's maximum age
+  static async isExpired(user: {
+    passwordChangedAt: Date | null;
+    createdAt: Date;
+  }): Promise<boolean> {
+    const { maxAgeDays } = await this.getPolicy();
+    if (!maxAgeDays) return false;
+
+    // Unset only for accounts whose password came with them (e.g. seeded)
+    const changedAt = user.passwordChangedAt || user.createdAt;
+    return Date.now() - changedAt.getTime() > maxAgeDays * DAY_MS;
+  }
+}
@@ -0,0 +1,146 @@
+// src/services/permission.service.ts
+import prisma from "../config/database";
+
+export class PermissionError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "PermissionError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+// Everything a user can be allowed to do beyond what any student can
+export const PERMISSIONS = {
+  "blog:publish": "Write, edit, publish and delete blog posts and categories",
+  "comment:moderate": "Delete other people's comments",
+  "event:manage":
+    "Create, edit and publish events; manage registration forms and submissions",
+  "event:checkin": "Check attendees in and record attendance",
+  "gallery:upload": "Manage gallery albums and images",
+  "contact:manage": "Manage the contact people list",
+  "notification:send": "Create and send notifications",
+  "user:manage": "Manage users, their sessions and account status",
+  "settings:manage": "Change system settings and run background jobs",
+  "role:manage": "Create roles and assign them to users",
+  "audit:view": "Search and export the activity log",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Base roles that hold every permission without needing an AccessRole
+const FULL_ACCESS_ROLES = ["ADMIN", "SUPER_ADMIN"];
+
+// Assignments are looked up at most this often per user; changes made
+// through this service take effect immediately
+const CACHE_TTL_MS = 60 * 1000;
+
+export class PermissionService {
+  private static cache = new Map<
+    string,
+    { role: string; permissions: Set<Permission>; expiresAt: number }
+  >();
+
+  static isPermission(value: unknown): value is Permission {
+    return (
+      typeof value === "string" &&
+      Object.prototype.hasOwnProperty.call(PERMISSIONS, value)
+    );
+  }
+
+  // Every permission a user holds through their base role and access roles
+  static async getPermissions(user: {
+    id: string;
+    role: string;
+  }): Promise<Set<Permission>> {
+    if (FULL_ACCESS_ROLES.includes(user.role)) {
+      return new Set(ALL_PERMISSIONS);
+    }
+
+    const cached = this.cache.get(user.id);
+    if (cached && cached.role === user.role && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const assignments = await prisma.userAccessRole.findMany({
+      where: { userId: user.id },
+      select: { accessRole: { select: { permissions: true } } },
+    });
+
+    const permissions = new Set<Permission>(
+      assignments
+        .flatMap((assignment) => assignment.accessRole.permissions)
+        .filter((permission): permission is Permission =>
+          this.isPermission(permission)
+        )
+    );
+
+    this.cache.set(user.id, {
+      role: user.role,
+      permissions,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+
+    return permissions;
+  }
+
+  static async hasPermission(
+    user: { id: string; role: string } | undefined,
+    permission: Permission
+  ): Promise<boolean> {
+    if (!user) return false;
+    return (await this.getPermissions(user)).has(permission);
+  }
+
+  // Check a permission list from a request; duplicates are dropped
+  static validate(permissions: unknown): Permission[] {
+    if (!Array.isArray(permissions)) {
+      throw new PermissionError("permissions must be an array");
+    }
+
+    const unknown = permissions.filter(
+      (permission) => !this.isPermission(permission)
+    );
+    if (unknown.length > 0) {
+      throw new PermissionError(
+        `Unknown permission(s): ${unknown.join(
+          ", "
+        )}. Valid permissions: ${ALL_PERMISSIONS.join(", ")}`
+      );
+    }
+
+    return [...new Set(permissions as Permission[])];
+  }
+
+  // Nobody can hand out a permission they don't hold themselves
+  static async assertCanGrant(
+    actor: { id: string; role: string },
+    permissions: string[]
+  ): Promise<void> {
+    const held = await this.getPermissions(actor);
+    const missing = permissions.filter(
+      (permission) => !held.has(permission as Permission)
+    );
+
+    if (missing.length > 0) {
+      throw new PermissionError(
+        `You can't grant permissions you don't have: ${missing.join(", ")}`,
+        403
+      );
+    }
+  }
+
+  // Forget cached permissions for a user, or for everyone after a role's
+  // permission set changes
+  static invalidate(userId?: string) {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// src/services/rate-limit.service.ts
+
+// Limit on how often something may happen within a sliding window
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+}
+
+// Failed attempts allowed before locking, and how long locks last. Each
+// lockout within decayMs of the previous one doubles the duration.
+export interface LockoutPolicy extends RateLimitPolicy {
+  lockoutMs: number;
+  maxLockoutMs: number;
+  decayMs: number;
+}
+
+export interface Lockout {
+  until: number; // Epoch ms
+  level: number; // 1 for the first lockout, 2 for the next, ...
+  expiresAt: number; // When the level is forgotten
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+// Storage for hit timestamps and lockouts. The default keeps everything in
+// this process; a shared store (e.g. Redis) can be plugged in with
+// RateLimitService.setStore so limits hold across instances.
+export interface RateLimitStore {
+  // Record a hit and return the timestamps still inside the window
+  hit(key: string, windowMs: number, now: number): Promise<number[]>;
+  // Timestamps still inside the window, without recording a hit
+  peek(key: string, windowMs: number, now: number): Promise<number[]>;
+  reset(key: string): Promise<void>;
+  getLockout(key: string, now: number): Promise<Lockout | null>;
+  setLockout(key: string, lockout: Lockout): Promise<void>;
+  clearLockout(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { times: number[]; windowMs: number }>();
+  private lockouts = new Map<string, Lockout>();
+  private lastSweep = 0;
+
+  async hit(key: string, windowMs: number, now: number) {
+    const times = this.prune(key, windowMs, now);
+    times.push(now);
+    this.hits.set(key, { times, windowMs });
+    this.sweep(now);
+    return [...times];
+  }
+
+  async peek(key: string, windowMs: number, now: number) {
+    return [...this.prune(key, windowMs, now)];
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  async getLockout(key: string, now: number) {
+    const lockout = this.lockouts.get(key);
+    if (lockout && lockout.expiresAt <= now) {
+      this.lockouts.delete(key);
+      return null;
+    }
+    return lockout || null;
+  }
+
+  async setLockout(key: string, lockout: Lockout) {
+    this.lockouts.set(key, lockout);
+  }
+
+  async clearLockout(key: string) {
+    this.lockouts.delete(key);
+  }
+
+  private prune(key: string, windowMs: number, now: number): number[] {
+    const times = (this.hits.get(key)?.times || []).filter(
+      (time) => time > now - windowMs
+    );
+    if (times.length === 0) this.hits.delete(key);
+    return times;
+  }
+
+  // Drop keys nobody has touched for a while so memory doesn't grow forever
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60 * 1000) return;
+    this.lastSweep = now;
+
+    for (const [key, { times, windowMs }] of this.hits) {
+      if (times[times.length - 1] <= now - windowMs) this.hits.delete(key);
+    }
+    for (const [key, lockout] of this.lockouts) {
+      if (lockout.expiresAt <= now) this.lockouts.delete(key);
+    }
+  }
+}
+
+export class RateLimitService {
+  private static store: RateLimitStore = new MemoryRateLimitStore();
+
+  static setStore(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  // Count a request against a policy; rejected requests aren't counted
+  static async hit(
+    key: string,
+    policy: RateLimitPolicy
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const hits = await this.store.peek(key, policy.windowMs, now);
+
+    if (hits.length >= policy.max) {
+      // Allowed again once enough of the oldest hits leave the window
+      const oldestCounted = hits[hits.length - policy.max];
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.max(oldestCounted + policy.windowMs - now, 1000),
+      };
+    }
+
+    const counted = await this.store.hit(key, policy.windowMs, now);
+
+    return {
+      allowed: true,
+      remaining: Math.max(policy.max - counted.length, 0),
+      retryAfterMs: 0,
+    };
+  }
+
+  // Milliseconds until the key is unlocked, or 0 if it isn't locked
+  static async lockedFor(key: string): Promise<number> {
+    const now = Date.now();
+    const lockout = await this.store.getLockout(key, now);
+    return lockout && lockout.until > now ? lockout.until - now : 0;
+  }
+
+  // Count a failed attempt; returns the new lockout if this one triggered it
+  static async recordFailure(
+    key: string,
+    policy: LockoutPolicy
+  ): Promise<Lockout | null> {
+    const now = Date.now();
+    const failures = await this.store.hit(
+      `${key}:failures`,
+      policy.windowMs,
+      now
+    );
+
+    if (failures.length < policy.max) return null;
+
+    const previous = await this.store.getLockout(key, now);
+    const level = (previous?.level || 0) + 1;
+    const duration = Math.min(
+      policy.lockoutMs * 2 ** (level - 1),
+      policy.maxLockoutMs
+    );
+    const lockout = {
+      until: now + duration,
+      level,
+      expiresAt: now + duration + policy.decayMs,
+    };
+
+    await this.store.setLockout(key, lockout);
+    await this.store.reset(`${key}:failures`);
+
+    return lockout;
+  }
+
+  // Forget failed attempts after a success; the lockout level is kept
+  static async recordSuccess(key: string) {
+    await this.store.reset(`${key}:failures`);
+  }
+
+  // Lift a lockout and forget its history
+  static async unlock(key: string) {
+    await this.store.clearLockout(key);
+    await this.store.reset(`${key}:failures`);
+  }
+
+  // Human-friendly wait, e.g. "15 minutes" or "2 hours"
+  static formatDuration(ms: number): string {
+    const minutes = Math.max(1, Math.ceil(ms / 60000));
+    if (minutes < 60) {
+      return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+    }
+    const hours = Math.ceil(minutes / 60);
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+}
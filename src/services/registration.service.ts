@@ -0,0 +1,786 @@
+// src/services/registration.service.ts
+import { Prisma, RegistrationStatus, SubmissionStatus } from "@prisma/client";
+import prisma from "../config/database";
+import { WaitlistUtil, SEATED_STATUSES } from "../utils/waitlist.util";
+import { FormValidatorUtil } from "../utils/form-validator.util";
+import { FileStorageUtil, StoredFile } from "../utils/file-storage.util";
+
+export class RegistrationError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode = 400,
+    readonly errors?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = "RegistrationError";
+  }
+
+  // Response body in the shape the controllers already use
+  get body() {
+    return {
+      success: false,
+      message: this.message,
+      ...(this.errors && { errors: this.errors }),
+    };
+  }
+}
+
+// Request details recorded with each activity entry
+export interface ActivityContext {
+  ipAddress?: string;
+  userAgent?: string | null;
+}
+
+export interface RegisterInput {
+  eventId: string;
+  userId: string;
+  responses?: Record<string, any>; // Required when the event has a form
+  files?: Record<string, Express.Multer.File>; // Keyed by FILE field id
+}
+
+export type ReviewDecision = "APPROVED" | "REJECTED" | "WAITLISTED";
+
+export interface EventRegistrationStats {
+  total: number;
+  pending: number;
+  registered: number; // Confirmed, not (yet) marked as attended
+  attended: number;
+  waitlisted: number;
+  cancelled: number;
+  rejected: number;
+  confirmed: number; // registered + attended
+  occupiedSeats: number;
+  capacity: number | null;
+  availableSlots: number | null;
+  absent: number;
+  attendanceRate: string | number;
+}
+
+const registrationInclude = {
+  event: {
+    select: { id: true, title: true, startDate: true, location: true },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      studentId: true,
+      email: true,
+      image: true,
+    },
+  },
+} satisfies Prisma.EventRegistrationInclude;
+
+/**
+ * Every registration is an EventRegistration row, which owns the seat,
+ * waitlist position and attendance. Events with a custom form also get an
+ * EventRegistrationSubmission holding the answers, linked by registrationId,
+ * whose status/attendance fields mirror the registration.
+ */
+export class RegistrationService {
+  /**
+   * Register a user for an event; events with a form need valid responses
+   * @param input - Event, user and (for form events) responses and files
+   * @param context - Request details for the activity log
+   * @returns The registration, its submission (form events) and waitlist position
+   */
+  static async register(input: RegisterInput, context: ActivityContext = {}) {
+    const { eventId, userId } = input;
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: { registrationForm: { include: { fields: true } } },
+    });
+
+    if (!event) {
+      throw new RegistrationError("Event not found", 404);
+    }
+
+    if (event.status === "CANCELLED") {
+      throw new RegistrationError("This event has been cancelled");
+    }
+
+    if (event.status === "COMPLETED") {
+      throw new RegistrationError("Registration closed - event has ended");
+    }
+
+    if (
+      event.registrationDeadline &&
+      new Date() > new Date(event.registrationDeadline)
+    ) {
+      throw new RegistrationError("Registration deadline has passed");
+    }
+
+    const existing = await prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+      include: { submission: true },
+    });
+
+    if (existing?.status === "REJECTED") {
+      throw new RegistrationError(
+        "Your registration for this event was not approved",
+        409
+      );
+    }
+
+    // A cancelled registration is reopened rather than duplicated
+    if (existing && existing.status !== "CANCELLED") {
+      throw new RegistrationError(
+        "You are already registered for this event",
+        409
+      );
+    }
+
+    const form = event.registrationForm;
+    let responses: Record<string, any> | null = null;
+    let storedFiles: StoredFile[] = [];
+
+    if (form) {
+      if (!input.responses && !input.files) {
+        throw new RegistrationError(
+          "This event requires filling out a registration form"
+        );
+      }
+
+      // Validate every field by type, options and rules; report all errors at once
+      const validation = FormValidatorUtil.validateResponses(
+        form.fields,
+        input.responses,
+        input.files || {}
+      );
+
+      if (!validation.isValid) {
+        throw new RegistrationError("Validation error", 400, validation.errors);
+      }
+
+      responses = validation.responses;
+    }
+
+    try {
+      // Store uploaded files and record their metadata in the responses
+      for (const field of form?.fields || []) {
+        const file = input.files?.[field.id];
+        if (field.fieldType !== "FILE" || !file) continue;
+
+        const stored = await FileStorageUtil.save(
+          file,
+          `bitsa/registrations/${eventId}`
+        );
+        storedFiles.push(stored);
+        responses![field.id] = stored;
+      }
+
+      const now = new Date();
+
+      const { registration, isFull } = await prisma.$transaction(async (tx) => {
+        // Count seats under the event lock so concurrent registrations can't
+        // both take the last one. Full events put the user on the waitlist
+        // instead of rejecting.
+        await WaitlistUtil.lockEvent(tx, eventId);
+        const isFull = await WaitlistUtil.isFull(event, tx);
+        const status: RegistrationStatus = isFull
+          ? "WAITLISTED"
+          : form?.requiresApproval
+          ? "PENDING"
+          : "REGISTERED";
+
+        const registration = existing
+          ? await tx.eventRegistration.update({
+              where: { id: existing.id },
+              // createdAt orders the waitlist, so a reopened entry joins the back
+              data: {
+                status,
+                createdAt: now,
+                attendanceMarkedAt: null,
+                attendanceMarkedBy: null,
+                checkInNonce: null,
+              },
+            })
+          : await tx.eventRegistration.create({
+              data: { eventId, userId, status },
+            });
+
+        if (form) {
+          const submission = {
+            registrationId: registration.id,
+            responses,
+            status: this.toSubmissionStatus(status),
+            approvedBy: null,
+            approvedAt: status === "REGISTERED" ? now : null,
+            rejectionReason: null,
+            attended: false,
+            attendanceMarkedAt: null,
+            attendanceMarkedBy: null,
+          };
+
+          await tx.eventRegistrationSubmission.upsert({
+            where: { formId_userId: { formId: form.id, userId } },
+            create: { ...submission, formId: form.id, userId, eventId },
+            update: submission,
+          });
+        }
+
+        return { registration, isFull };
+      });
+
+      // The registration now owns the uploaded files
+      storedFiles = [];
+
+      // Answers from the cancelled registration have been replaced
+      if (existing?.submission) {
+        await this.removeFiles(existing.submission.responses);
+      }
+
+      await prisma.activity.create({
+        data: {
+          userId,
+          action: isFull
+            ? "JOIN_WAITLIST"
+            : form
+            ? "SUBMIT_REGISTRATION"
+            : "REGISTER_EVENT",
+          entity: "EventRegistration",
+          entityId: registration.id,
+          description: `${
+            isFull ? "Joined waitlist" : "Registered"
+          } for event: ${event.title}`,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+
+      return {
+        registration: await this.findRegistration(registration.id),
+        submission: form ? await this.findSubmission(registration.id) : null,
+        waitlistPosition: isFull
+          ? await WaitlistUtil.getPosition(eventId, userId)
+          : null,
+        requiresApproval: !!form?.requiresApproval,
+      };
+    } catch (error: any) {
+      // Don't leave orphaned uploads behind if the registration wasn't saved
+      if (storedFiles.length > 0) {
+        await FileStorageUtil.removeAll(storedFiles);
+      }
+
+      if (error.code === "P2002") {
+        throw new RegistrationError(
+          "You are already registered for this event",
+          409
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a registration and hand a freed seat to the waitlist
+   * @param registrationId - Registration ID
+   * @param actor - Who is cancelling; canManage allows cancelling for others
+   * @param context - Request details for the activity log
+   */
+  static async cancel(
+    registrationId: string,
+    actor: { id: string; canManage?: boolean },
+    context: ActivityContext = {}
+  ) {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id: registrationId },
+      include: { event: { select: { title: true } } },
+    });
+
+    if (!registration) {
+      throw new RegistrationError("Registration not found", 404);
+    }
+
+    if (!actor.canManage && registration.userId !== actor.id) {
+      throw new RegistrationError(
+        "You can only cancel your own registrations",
+        403
+      );
+    }
+
+    if (registration.status === "CANCELLED") {
+      throw new RegistrationError("Registration is already cancelled");
+    }
+
+    const updated = await this.applyStatus(registrationId, {
+      status: "CANCELLED",
+      checkInNonce: null,
+    });
+
+    await prisma.activity.create({
+      data: {
+        userId: actor.id,
+        action: "CANCEL_REGISTRATION",
+        entity: "EventRegistration",
+        entityId: registrationId,
+        description: `Cancelled registration for event: ${registration.event.title}`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    if (SEATED_STATUSES.includes(registration.status)) {
+      await WaitlistUtil.promote(registration.eventId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Approve, reject or waitlist a registration (events that require approval)
+   * @param registrationId - Registration ID
+   * @param decision - New review status
+   * @param reviewerId - Admin making the decision
+   * @param rejectionReason - Shown to the student when rejected
+   * @param context - Request details for the activity log
+   */
+  static async review(
+    registrationId: string,
+    decision: ReviewDecision,
+    reviewerId: string,
+    rejectionReason: string | null = null,
+    context: ActivityContext = {}
+  ) {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id: registrationId },
+      include: { event: { select: { title: true } }, submission: true },
+    });
+
+    if (!registration) {
+      throw new RegistrationError("Registration not found", 404);
+    }
+
+    if (registration.status === "CANCELLED") {
+      throw new RegistrationError("Cancelled registrations cannot be reviewed");
+    }
+
+    const status: RegistrationStatus =
+      decision === "APPROVED"
+        ? registration.status === "ATTENDED"
+          ? "ATTENDED"
+          : "REGISTERED"
+        : decision;
+    const wasSeated = SEATED_STATUSES.includes(registration.status);
+    const isSeated = SEATED_STATUSES.includes(status);
+
+    // Rejected registrations don't keep their uploaded files
+    const responses =
+      decision === "REJECTED" && registration.submission
+        ? this.stripFiles(registration.submission.responses)
+        : undefined;
+
+    await this.applyStatus(
+      registrationId,
+      {
+        status,
+        ...(decision !== "APPROVED" && { checkInNonce: null }),
+        // Sent (back) to the waitlist from a seat: join the back of the queue
+        ...(decision === "WAITLISTED" &&
+          wasSeated && { createdAt: new Date() }),
+      },
+      {
+        approvedBy: decision === "APPROVED" ? reviewerId : null,
+        approvedAt: decision === "APPROVED" ? new Date() : null,
+        rejectionReason: decision === "REJECTED" ? rejectionReason : null,
+        ...(responses && { responses }),
+      },
+      // Approving a waitlisted or rejected registration needs a free seat
+      !wasSeated && isSeated ? registration.eventId : undefined
+    );
+
+    // Only once the rejection is saved, so a failed update keeps its files
+    if (responses) {
+      await this.removeFiles(registration.submission.responses);
+    }
+
+    await prisma.activity.create({
+      data: {
+        userId: reviewerId,
+        action: `${decision}_REGISTRATION`,
+        entity: "EventRegistration",
+        entityId: registrationId,
+        description: `${decision} registration for: ${registration.event.title}`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    // A seat-holder that was rejected or waitlisted frees a spot
+    if (wasSeated && !isSeated) {
+      await WaitlistUtil.promote(registration.eventId);
+    }
+
+    return this.findSubmission(registrationId);
+  }
+
+  /**
+   * Approve every pending registration in a list
+   * @param registrationIds - Registration IDs
+   * @param reviewerId - Admin approving them
+   * @param context - Request details for the activity log
+   * @returns Number of registrations approved
+   */
+  static async approveMany(
+    registrationIds: string[],
+    reviewerId: string,
+    context: ActivityContext = {}
+  ): Promise<number> {
+    const now = new Date();
+
+    const approved = await prisma.$transaction(async (tx) => {
+      const pending = await tx.eventRegistration.findMany({
+        where: { id: { in: registrationIds }, status: "PENDING" },
+        select: { id: true },
+      });
+      const ids = pending.map((registration) => registration.id);
+
+      await tx.eventRegistration.updateMany({
+        where: { id: { in: ids }, status: "PENDING" },
+        data: { status: "REGISTERED" },
+      });
+      await tx.eventRegistrationSubmission.updateMany({
+        where: { registrationId: { in: ids } },
+        data: { status: "APPROVED", approvedBy: reviewerId, approvedAt: now },
+      });
+
+      return ids;
+    });
+
+    if (approved.length > 0) {
+      await prisma.activity.create({
+        data: {
+          userId: reviewerId,
+          action: "BULK_APPROVE_REGISTRATIONS",
+          entity: "EventRegistration",
+          entityId: approved[0],
+          description: `Bulk approved ${approved.length} registrations`,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    }
+
+    return approved.length;
+  }
+
+  /**
+   * Mark a confirmed registration as attended or absent
+   * @param registrationId - Registration ID
+   * @param attended - Whether the user attended
+   * @param markedBy - Admin marking attendance
+   * @param context - Request details for the activity log
+   */
+  static async markAttendance(
+    registrationId: string,
+    attended: boolean,
+    markedBy: string,
+    context: ActivityContext = {}
+  ) {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id: registrationId },
+      include: { event: { select: { title: true } } },
+    });
+
+    if (!registration) {
+      throw new RegistrationError("Registration not found", 404);
+    }
+
+    if (!["REGISTERED", "ATTENDED"].includes(registration.status)) {
+      throw new RegistrationError(
+        "Only confirmed registrations can have attendance marked"
+      );
+    }
+
+    const updated = await this.applyStatus(registrationId, {
+      status: attended ? "ATTENDED" : "REGISTERED",
+      attendanceMarkedAt: new Date(),
+      attendanceMarkedBy: markedBy,
+      // A QR code can't be used after attendance was recorded by hand
+      ...(attended && { checkInNonce: null }),
+    });
+
+    await prisma.activity.create({
+      data: {
+        userId: markedBy,
+        action: "MARK_ATTENDANCE",
+        entity: "EventRegistration",
+        entityId: registrationId,
+        description: `Marked ${attended ? "present" : "absent"} at ${
+          registration.event.title
+        }`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Mark attendance from a scanned check-in code, once per code
+   * @param registrationId - Registration ID from the code
+   * @param nonce - Nonce from the code; must still match the registration
+   * @param markedBy - Organizer scanning the code
+   * @param context - Request details for the activity log
+   * @returns false if the code was already used or replaced
+   */
+  static async checkIn(
+    registrationId: string,
+    nonce: string,
+    markedBy: string,
+    context: ActivityContext = {}
+  ): Promise<boolean> {
+    const now = new Date();
+
+    const claimed = await prisma.eventRegistration.updateMany({
+      where: { id: registrationId, checkInNonce: nonce, status: "REGISTERED" },
+      data: {
+        status: "ATTENDED",
+        attendanceMarkedAt: now,
+        attendanceMarkedBy: markedBy,
+        checkInNonce: null,
+      },
+    });
+
+    if (claimed.count === 0) return false;
+
+    await prisma.eventRegistrationSubmission.updateMany({
+      where: { registrationId },
+      data: {
+        attended: true,
+        attendanceMarkedAt: now,
+        attendanceMarkedBy: markedBy,
+      },
+    });
+
+    await prisma.activity.create({
+      data: {
+        userId: markedBy,
+        action: "CHECK_IN",
+        entity: "EventRegistration",
+        entityId: registrationId,
+        description: "Checked in by QR code",
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Permanently delete a registration, its answers and uploaded files
+   * @param registrationId - Registration ID
+   * @param actorId - Admin deleting it
+   * @param context - Request details for the activity log
+   */
+  static async remove(
+    registrationId: string,
+    actorId: string,
+    context: ActivityContext = {}
+  ) {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id: registrationId },
+      include: {
+        event: { select: { title: true } },
+        submission: true,
+      },
+    });
+
+    if (!registration) {
+      throw new RegistrationError("Registration not found", 404);
+    }
+
+    // The submission is removed with it (cascade)
+    await prisma.eventRegistration.delete({ where: { id: registrationId } });
+
+    if (registration.submission) {
+      await this.removeFiles(registration.submission.responses);
+    }
+
+    await prisma.activity.create({
+      data: {
+        userId: actorId,
+        action: "DELETE_REGISTRATION",
+        entity: "EventRegistration",
+        entityId: registrationId,
+        description: `Deleted registration for: ${registration.event.title}`,
+        // The registration is gone, so keep whose it was
+        changes: { userId: { from: registration.userId, to: null } },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    if (SEATED_STATUSES.includes(registration.status)) {
+      await WaitlistUtil.promote(registration.eventId);
+    }
+  }
+
+  /**
+   * Registration, capacity and attendance counts for one event
+   * @param eventId - Event ID
+   */
+  static async getEventStats(eventId: string): Promise<EventRegistrationStats> {
+    const [event, groups] = await Promise.all([
+      prisma.event.findUnique({
+        where: { id: eventId },
+        select: { maxAttendees: true },
+      }),
+      prisma.eventRegistration.groupBy({
+        by: ["status"],
+        where: { eventId },
+        _count: true,
+      }),
+    ]);
+
+    const count = (status: RegistrationStatus) =>
+      groups.find((group) => group.status === status)?._count || 0;
+
+    const pending = count("PENDING");
+    const registered = count("REGISTERED");
+    const attended = count("ATTENDED");
+    const confirmed = registered + attended;
+    const occupiedSeats = pending + confirmed;
+    const capacity = event?.maxAttendees || null;
+
+    return {
+      total: groups.reduce((sum, group) => sum + group._count, 0),
+      pending,
+      registered,
+      attended,
+      waitlisted: count("WAITLISTED"),
+      cancelled: count("CANCELLED"),
+      rejected: count("REJECTED"),
+      confirmed,
+      occupiedSeats,
+      capacity,
+      availableSlots: capacity ? Math.max(capacity - occupiedSeats, 0) : null,
+      absent: registered,
+      attendanceRate:
+        confirmed > 0 ? ((attended / confirmed) * 100).toFixed(2) : 0,
+    };
+  }
+
+  /**
+   * Find the registration behind a form submission
+   * @param submissionId - Submission ID
+   * @returns Registration ID, or null if the submission doesn't exist
+   */
+  static async getRegistrationIdForSubmission(
+    submissionId: string
+  ): Promise<string | null> {
+    const submission = await prisma.eventRegistrationSubmission.findUnique({
+      where: { id: submissionId },
+      select: { registrationId: true },
+    });
+
+    return submission?.registrationId || null;
+  }
+
+  /**
+   * Delete stored files referenced by a submission
+   * @param responses - Submission responses JSON
+   */
+  static async removeFiles(responses: any): Promise<void> {
+    await FileStorageUtil.removeAll(FileStorageUtil.collectFiles(responses));
+  }
+
+  /**
+   * Replace each stored file in a submission with a marker that keeps its
+   * name but no longer links to it (delete the files with removeFiles)
+   * @param responses - Submission responses JSON
+   * @returns Responses without file links
+   */
+  static stripFiles(responses: any): any {
+    if (FileStorageUtil.collectFiles(responses).length === 0) return responses;
+
+    const cleaned: Record<string, any> = { ...responses };
+    for (const [fieldId, value] of Object.entries(cleaned)) {
+      if (FileStorageUtil.isStoredFile(value)) {
+        cleaned[fieldId] = {
+          originalName: value.originalName,
+          mimeType: value.mimeType,
+          size: value.size,
+          removedAt: new Date().toISOString(),
+        };
+      }
+    }
+    return cleaned;
+  }
+
+  static toSubmissionStatus(status: RegistrationStatus): SubmissionStatus {
+    switch (status) {
+      case "PENDING":
+        return "PENDING";
+      case "REGISTERED":
+      case "ATTENDED":
+        return "APPROVED";
+      default:
+        return status;
+    }
+  }
+
+  // Update a registration and copy its status/attendance onto the submission.
+  // Pass seatAtEventId when the update takes a seat; it fails if none is free.
+  private static async applyStatus(
+    registrationId: string,
+    data: Prisma.EventRegistrationUpdateInput & { status: RegistrationStatus },
+    submissionData: Prisma.EventRegistrationSubmissionUpdateManyMutationInput = {},
+    seatAtEventId?: string
+  ) {
+    await prisma.$transaction(async (tx) => {
+      if (seatAtEventId) {
+        await WaitlistUtil.lockEvent(tx, seatAtEventId);
+        const event = await tx.event.findUniqueOrThrow({
+          where: { id: seatAtEventId },
+          select: { id: true, maxAttendees: true },
+        });
+        if (await WaitlistUtil.isFull(event, tx)) {
+          throw new RegistrationError(
+            "This event is full; free a seat before approving this registration",
+            409
+          );
+        }
+      }
+
+      const registration = await tx.eventRegistration.update({
+        where: { id: registrationId },
+        data,
+      });
+
+      await tx.eventRegistrationSubmission.updateMany({
+        where: { registrationId },
+        data: {
+          status: this.toSubmissionStatus(registration.status),
+          attended: registration.status === "ATTENDED",
+          attendanceMarkedAt: registration.attendanceMarkedAt,
+          attendanceMarkedBy: registration.attendanceMarkedBy,
+          ...submissionData,
+        },
+      });
+    });
+
+    return this.findRegistration(registrationId);
+  }
+
+  private static findRegistration(registrationId: string) {
+    return prisma.eventRegistration.findUniqueOrThrow({
+      where: { id: registrationId },
+      include: registrationInclude,
+    });
+  }
+
+  private static findSubmission(registrationId: string) {
+    return prisma.eventRegistrationSubmission.findUnique({
+      where: { registrationId },
+      include: {
+        user: registrationInclude.user,
+        form: { include: { event: registrationInclude.event } },
+      },
+    });
+  }
+}
@@ -0,0 +1,297 @@
+// src/services/search.service.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+
+export class SearchError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "SearchError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+export const SEARCH_TYPES = [
+  "blog",
+  "event",
+  "image",
+  "album",
+  "contact",
+] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+// Text search configuration; must match the triggers that build the
+// searchVector columns (prisma/migrations/*_full_text_search)
+const SEARCH_CONFIG = "english";
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_SUGGESTION_LIMIT = 10;
+
+// ts_headline marks matches with these; they're swapped for <mark> tags
+// after the rest of the text has been HTML-escaped
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+const TITLE_HEADLINE = `HighlightAll=true, StartSel="${MATCH_START}", StopSel="${MATCH_END}"`;
+const SNIPPET_HEADLINE = `MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … ", StartSel="${MATCH_START}", StopSel="${MATCH_END}"`;
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  slug: string | null;
+  image: string | null;
+  date: Date;
+  rank: number;
+  meta: Record<string, any>; // Type-specific details (event dates, ...)
+  highlights: {
+    title: string; // HTML-escaped, matches wrapped in <mark>
+    snippet: string;
+  };
+}
+
+export interface SearchOptions {
+  types?: SearchType[];
+  page?: number;
+  limit?: number;
+}
+
+// One SELECT per type over published/visible rows. Every branch returns the
+// same columns so they can be ranked together; "query" is a CTE holding the
+// tsquery. Body text is only turned into a snippet for the returned page.
+const SOURCES: Record<SearchType, Prisma.Sql> = {
+  blog: Prisma.sql`
+    SELECT 'blog' AS type, b.id, b.title, b.slug, b."coverImage" AS image,
+      coalesce(b."publishedAt", b."createdAt") AS date,
+      coalesce(b.excerpt, '') || ' ' || b.content AS body,
+      jsonb_build_object('excerpt', b.excerpt, 'views', b.views) AS meta,
+      ts_rank_cd(b."searchVector", query.q, 32) AS rank
+    FROM blogs b, query
+    WHERE b.published AND b."searchVector" @@ query.q`,
+  event: Prisma.sql`
+    SELECT 'event' AS type, e.id, e.title, e.slug, e."coverImage" AS image,
+      e."startDate" AS date,
+      e.description AS body,
+      jsonb_build_object(
+        'startDate', e."startDate",
+        'endDate', e."endDate",
+        'location', e.location,
+        'eventType', e."eventType",
+        'status', e.status
+      ) AS meta,
+      ts_rank_cd(e."searchVector", query.q, 32) AS rank
+    FROM events e, query
+    WHERE e.published AND e."searchVector" @@ query.q`,
+  // Images of unpublished events stay hidden until the event is published
+  image: Prisma.sql`
+    SELECT 'image' AS type, g.id, g.title, NULL::text AS slug, g."imageUrl" AS image,
+      g."uploadedAt" AS date,
+      coalesce(g.description, '') AS body,
+      jsonb_build_object('albumId', g."albumId", 'eventId', g."eventId") AS meta,
+      ts_rank_cd(g."searchVector", query.q, 32) AS rank
+    FROM gallery_images g
+    LEFT JOIN events ge ON ge.id = g."eventId", query
+    WHERE (g."eventId" IS NULL OR ge.published)
+      AND g."searchVector" @@ query.q`,
+  album: Prisma.sql`
+    SELECT 'album' AS type, a.id, a.name AS title, NULL::text AS slug,
+      a."coverImage" AS image,
+      a."createdAt" AS date,
+      coalesce(a.description, '') AS body,
+      '{}'::jsonb AS meta,
+      ts_rank_cd(a."searchVector", query.q, 32) AS rank
+    FROM albums a, query
+    WHERE a."searchVector" @@ query.q`,
+  contact: Prisma.sql`
+    SELECT 'contact' AS type, c.id, c."fullName" AS title, NULL::text AS slug,
+      c.photo AS image,
+      c."createdAt" AS date,
+      coalesce(c.bio, '') AS body,
+      jsonb_build_object('position', c.position, 'email', c.email) AS meta,
+      ts_rank_cd(c."searchVector", query.q, 32) AS rank
+    FROM contact_persons c, query
+    WHERE c."isActive" AND c."searchVector" @@ query.q`,
+};
+
+export class SearchService {
+  /**
+   * Ranked full-text search across the public content types
+   * @param q - What the user typed (web-search syntax: "quoted phrase", -not, or)
+   * @param options - Types to include and paging
+   */
+  static async search(q: unknown, options: SearchOptions = {}) {
+    const text = this.checkQuery(q);
+    const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || 10, 1), MAX_SEARCH_LIMIT);
+
+    const query = Prisma.sql`query AS (
+      SELECT websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${text}) AS q
+    )`;
+    const results = Prisma.join(
+      types.map((type) => SOURCES[type]),
+      " UNION ALL "
+    );
+
+    const [rows, counts] = await Promise.all([
+      prisma.$queryRaw<
+        (Omit<SearchResult, "highlights"> & {
+          titleHighlight: string;
+          snippet: string;
+        })[]
+      >`
+        WITH ${query}, results AS (${results})
+        SELECT page.type, page.id, page.title, page.slug, page.image,
+          page.date, page.meta, page.rank,
+          ts_headline(${SEARCH_CONFIG}::regconfig, page.title, query.q,
+            ${TITLE_HEADLINE}) AS "titleHighlight",
+          ts_headline(${SEARCH_CONFIG}::regconfig,
+            regexp_replace(page.body, '<[^>]+>', ' ', 'g'), query.q,
+            ${SNIPPET_HEADLINE}) AS snippet
+        FROM (
+          SELECT * FROM results
+          ORDER BY rank DESC, date DESC, id
+          LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        ) page, query
+        ORDER BY page.rank DESC, page.date DESC, page.id
+      `,
+      prisma.$queryRaw<{ type: SearchType; count: number }[]>`
+        WITH ${query}, results AS (${results})
+        SELECT type, count(*)::int AS count FROM results GROUP BY type
+      `,
+    ]);
+
+    const byType = Object.fromEntries(
+      types.map((type) => [
+        type,
+        counts.find((count) => count.type === type)?.count || 0,
+      ])
+    ) as Partial<Record<SearchType, number>>;
+    const total = counts.reduce((sum, count) => sum + count.count, 0);
+
+    return {
+      query: text,
+      results: rows.map(
+        ({ titleHighlight, snippet, ...row }): SearchResult => ({
+          ...row,
+          rank: Number(row.rank),
+          highlights: {
+            title: this.toHtml(titleHighlight),
+            snippet: this.toHtml(snippet),
+          },
+        })
+      ),
+      counts: byType,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Typeahead: titles containing words that start with what was typed
+   * @param q - Partial input, e.g. "hack" for "Hackathon 2025"
+   * @param options - Types to include and how many to return
+   */
+  static async suggest(
+    q: unknown,
+    options: { types?: SearchType[]; limit?: number } = {}
+  ) {
+    const text = typeof q === "string" ? q.trim() : "";
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(
+      0,
+      5
+    );
+    if (text.length < MIN_QUERY_LENGTH || words.length === 0) return [];
+
+    const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+    const limit = Math.min(
+      Math.max(options.limit || 8, 1),
+      MAX_SUGGESTION_LIMIT
+    );
+
+    // Every word as a prefix, matched against titles only (weight A).
+    // Words are letters/digits only, so they can't inject tsquery syntax.
+    const prefixQuery = words.map((word) => `${word}:*A`).join(" & ");
+
+    return prisma.$queryRaw<
+      { type: SearchType; id: string; title: string; slug: string | null }[]
+    >`
+      WITH query AS (
+        SELECT to_tsquery(${SEARCH_CONFIG}::regconfig, ${prefixQuery}) AS q
+      ), results AS (${Prisma.join(
+        types.map((type) => SOURCES[type]),
+        " UNION ALL "
+      )})
+      SELECT type, id, title, slug FROM results
+      ORDER BY rank DESC, length(title), date DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  // Turn a comma-separated ?type= value into known types
+  static parseTypes(value: unknown): SearchType[] | undefined {
+    if (value === undefined || value === "" || value === "all") {
+      return undefined;
+    }
+
+    const types = String(value)
+      .split(",")
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean);
+
+    const unknown = types.filter(
+      (type) => !SEARCH_TYPES.includes(type as SearchType)
+    );
+    if (unknown.length > 0) {
+      throw new SearchError(
+        `Unknown type: ${unknown.join(", ")}. Valid types: ${SEARCH_TYPES.join(
+          ", "
+        )}`
+      );
+    }
+
+    return [...new Set(types)] as SearchType[];
+  }
+
+  private static checkQuery(q: unknown): string {
+    const text = typeof q === "string" ? q.trim() : "";
+
+    if (text.length < MIN_QUERY_LENGTH) {
+      throw new SearchError(
+        `Search query must be at least ${MIN_QUERY_LENGTH} characters`
+      );
+    }
+
+    if (text.length > MAX_QUERY_LENGTH) {
+      throw new SearchError(
+        `Search query must be at most ${MAX_QUERY_LENGTH} characters`
+      );
+    }
+
+    return text;
+  }
+
+  // Escape a ts_headline result for HTML, then mark the matches
+  private static toHtml(value: string | null): string {
+    return (value || "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;")
+      .split(MATCH_START)
+      .join("<mark>")
+      .split(MATCH_END)
+      .join("</mark>");
+  }
+}
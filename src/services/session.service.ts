@@ -0,0 +1,304 @@
+// src/services/session.service.ts
+import crypto from "crypto";
+import prisma from "../config/database";
+import { TokenUtil } from "../utils/token.util";
+import { ActivityContext } from "./registration.service";
+
+export class SessionError extends Error {
+  constructor(message: string, readonly statusCode = 401) {
+    super(message);
+    this.name = "SessionError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+export interface SessionUser {
+  id: string;
+  studentId: string;
+  role: string;
+}
+
+export interface SessionTokens {
+  token: string; // Access token
+  expiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+// passwordless: the user signed in by SSO or a magic link
+export interface SessionContext extends ActivityContext {
+  passwordless?: boolean;
+}
+
+// A super admin signed in as another user, until expiresAt
+export interface Impersonation {
+  impersonatorId: string;
+  expiresAt: Date;
+}
+
+// Sessions revoked by this process, kept for one access-token lifetime.
+// Access tokens are not looked up in the database, so this is what makes a
+// logout or deactivation take effect before the token expires. Other
+// instances don't see these; their copies of the token expire on their own.
+const revokedSessions = new Map<string, number>(); // sessionId -> forget at
+
+export class SessionService {
+  // Start a new session (login/signup, or impersonation) and issue its
+  // first token pair
+  static async create(
+    user: SessionUser,
+    ctx: SessionContext = {},
+    impersonation?: Impersonation
+  ): Promise<SessionTokens> {
+    // The id goes into the refresh token, so pick it before inserting
+    const sessionId = crypto.randomUUID();
+    const refreshToken = TokenUtil.generateRefreshToken({
+      sessionId,
+      generation: 0,
+    });
+    const refreshTokenExpiresAt =
+      impersonation?.expiresAt || TokenUtil.getRefreshTokenExpiry();
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        refreshTokenHash: TokenUtil.hashToken(refreshToken),
+        expiresAt: refreshTokenExpiresAt,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent || null,
+        passwordless: ctx.passwordless || false,
+        impersonatorId: impersonation?.impersonatorId,
+      },
+    });
+
+    return {
+      ...this.issueAccessToken(user, sessionId, impersonation),
+      refreshToken,
+      refreshTokenExpiresAt,
+    };
+  }
+
+  // Swap a refresh token for a new token pair. Each refresh token works once;
+  // presenting an already-rotated one means it leaked, so the session ends.
+  static async refresh(
+    refreshToken: string,
+    ctx: ActivityContext = {}
+  ): Promise<{ user: SessionUser; tokens: SessionTokens }> {
+    const payload = TokenUtil.verifyRefreshToken(refreshToken);
+
+    if (!payload) {
+      throw new SessionError(
+        "Invalid or expired refresh token. Please login again."
+      );
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sessionId },
+      include: {
+        user: {
+          select: { id: true, studentId: true, role: true, isActive: true },
+        },
+      },
+    });
+
+    if (!session || session.revokedAt || new Date() > session.expiresAt) {
+      throw new SessionError("Session expired. Please login again.");
+    }
+
+    const tokenHash = TokenUtil.hashToken(refreshToken);
+
+    if (session.refreshTokenHash !== tokenHash) {
+      await this.handleReuse(session.id, session.userId, ctx);
+      throw new SessionError(
+        "This session is no longer valid. Please login again."
+      );
+    }
+
+    if (!session.user.isActive) {
+      await this.revoke(session.id, "ACCOUNT_DEACTIVATED");
+      throw new SessionError(
+        "Your account has been deactivated. Please contact admin.",
+        403
+      );
+    }
+
+    // Impersonation ends early if the admin lost the right to it
+    if (session.impersonatorId) {
+      const impersonator = await prisma.user.findUnique({
+        where: { id: session.impersonatorId },
+        select: { role: true, isActive: true },
+      });
+
+      if (impersonator?.role !== "SUPER_ADMIN" || !impersonator.isActive) {
+        await this.revoke(session.id, "IMPERSONATOR_REVOKED");
+        throw new SessionError(
+          "Impersonation session ended. Please login again."
+        );
+      }
+    }
+
+    // Impersonation sessions keep their original end
+    const impersonation: Impersonation | undefined = session.impersonatorId
+      ? { impersonatorId: session.impersonatorId, expiresAt: session.expiresAt }
+      : undefined;
+
+    const nextToken = TokenUtil.generateRefreshToken({
+      sessionId: session.id,
+      generation: session.generation + 1,
+    });
+    const refreshTokenExpiresAt =
+      impersonation?.expiresAt || TokenUtil.getRefreshTokenExpiry();
+
+    // Only succeeds for the first request presenting this token
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: TokenUtil.hashToken(nextToken),
+        generation: { increment: 1 },
+        expiresAt: refreshTokenExpiresAt,
+        lastUsedAt: new Date(),
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent || null,
+      },
+    });
+
+    if (rotated.count === 0) {
+      await this.handleReuse(session.id, session.userId, ctx);
+      throw new SessionError(
+        "This session is no longer valid. Please login again."
+      );
+    }
+
+    const { isActive, ...user } = session.user;
+
+    return {
+      user,
+      tokens: {
+        ...this.issueAccessToken(user, session.id, impersonation),
+        refreshToken: nextToken,
+        refreshTokenExpiresAt,
+      },
+    };
+  }
+
+  // End one session; returns false if it was already revoked
+  static async revoke(sessionId: string, reason: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    this.markRevoked(sessionId);
+
+    return result.count > 0;
+  }
+
+  // End every session of a user, optionally keeping the current one
+  static async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      select: { id: true },
+    });
+
+    if (sessions.length === 0) return 0;
+
+    const ids = sessions.map((session) => session.id);
+
+    await prisma.session.updateMany({
+      where: { id: { in: ids }, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    ids.forEach((id) => this.markRevoked(id));
+
+    return ids.length;
+  }
+
+  // Whether this process revoked the session while its access tokens live
+  static isRevoked(sessionId: string): boolean {
+    const forgetAt = revokedSessions.get(sessionId);
+    if (forgetAt === undefined) return false;
+
+    if (forgetAt < Date.now()) {
+      revokedSessions.delete(sessionId);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Impersonation access tokens never outlive the session
+  private static issueAccessToken(
+    user: SessionUser,
+    sessionId: string,
+    impersonation?: Impersonation
+  ) {
+    const ttlSeconds = impersonation
+      ? Math.max(
+          Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000),
+          1
+        )
+      : undefined;
+
+    return {
+      token: TokenUtil.generate(
+        {
+          userId: user.id,
+          studentId: user.studentId,
+          role: user.role,
+          sessionId,
+          ...(impersonation && {
+            impersonatorId: impersonation.impersonatorId,
+          }),
+        },
+        ttlSeconds
+      ),
+      expiresAt: TokenUtil.getExpirationDate(ttlSeconds),
+    };
+  }
+
+  private static markRevoked(sessionId: string) {
+    const now = Date.now();
+
+    // Drop entries whose access tokens have expired anyway
+    for (const [id, forgetAt] of revokedSessions) {
+      if (forgetAt < now) revokedSessions.delete(id);
+    }
+
+    revokedSessions.set(sessionId, TokenUtil.getExpirationDate().getTime());
+  }
+
+  private static async handleReuse(
+    sessionId: string,
+    userId: string,
+    ctx: ActivityContext
+  ) {
+    const revoked = await this.revoke(sessionId, "REFRESH_TOKEN_REUSE");
+    if (!revoked) return;
+
+    await prisma.activity.create({
+      data: {
+        userId,
+        action: "REFRESH_TOKEN_REUSE",
+        entity: "Session",
+        entityId: sessionId,
+        description:
+          "A refresh token was used twice; the session has been revoked",
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent || null,
+      },
+    });
+  }
+}
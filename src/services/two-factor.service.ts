@@ -0,0 +1,239 @@
+// src/services/two-factor.service.ts
+import { Role } from "@prisma/client";
+import prisma from "../config/database";
+import { TotpUtil } from "../utils/totp.util";
+
+export class TwoFactorError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+export interface TwoFactorEnrollment {
+  secret: string; // For manual entry when the QR code can't be scanned
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export type SecondFactor = "totp" | "recovery";
+
+// Comma-separated roles that must use 2FA, e.g. "ADMIN,SUPER_ADMIN"
+const REQUIRED_ROLES_SETTING = "two_factor_required_roles";
+
+export class TwoFactorService {
+  // Roles for which 2FA is mandatory
+  static async getRequiredRoles(): Promise<Role[]> {
+    const setting = await prisma.setting.findUnique({
+      where: { key: REQUIRED_ROLES_SETTING },
+    });
+
+    return (setting?.value || "")
+      .split(",")
+      .map((role) => role.trim())
+      .filter((role): role is Role =>
+        Object.values(Role).includes(role as Role)
+      );
+  }
+
+  static async setRequiredRoles(roles: Role[]): Promise<Role[]> {
+    const unique = [...new Set(roles)];
+
+    await prisma.setting.upsert({
+      where: { key: REQUIRED_ROLES_SETTING },
+      update: { value: unique.join(",") },
+      create: { key: REQUIRED_ROLES_SETTING, value: unique.join(",") },
+    });
+
+    return unique;
+  }
+
+  static async isRequiredFor(role: string): Promise<boolean> {
+    const roles = await this.getRequiredRoles();
+    return roles.includes(role as Role);
+  }
+
+  // Generate a new secret; 2FA stays off until confirmEnrollment succeeds
+  static async beginEnrollment(
+    userId: string,
+    accountName: string
+  ): Promise<TwoFactorEnrollment> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new TwoFactorError(
+        "Two-factor authentication is already enabled",
+        409
+      );
+    }
+
+    const secret = TotpUtil.generateSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: TotpUtil.encryptSecret(secret),
+        twoFactorLastStep: null,
+      },
+    });
+
+    const otpauthUrl = TotpUtil.keyUri(secret, accountName);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await TotpUtil.renderQr(otpauthUrl),
+    };
+  }
+
+  // Turn 2FA on once the user proves their app generates valid codes;
+  // returns the recovery codes, which are only ever shown this once
+  static async confirmEnrollment(
+    userId: string,
+    code: string
+  ): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new TwoFactorError(
+        "Two-factor authentication is already enabled",
+        409
+      );
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new TwoFactorError("Start two-factor setup first");
+    }
+
+    const step = TotpUtil.verify(
+      TotpUtil.decryptSecret(user.twoFactorSecret),
+      code
+    );
+
+    if (step === null) {
+      throw new TwoFactorError("Invalid verification code");
+    }
+
+    const recoveryCodes = TotpUtil.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+          TotpUtil.hashRecoveryCode(recoveryCode)
+        ),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  // Check an authenticator code or a recovery code; each is accepted once
+  static async verify(
+    userId: string,
+    input: { code?: string; recoveryCode?: string }
+  ): Promise<SecondFactor | null> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+    if (input.code) {
+      const step = TotpUtil.verify(
+        TotpUtil.decryptSecret(user.twoFactorSecret),
+        input.code,
+        user.twoFactorLastStep
+      );
+      if (step === null) return null;
+
+      // Record the step so the same code can't be used again
+      const accepted = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastStep: step },
+      });
+
+      return accepted.count > 0 ? "totp" : null;
+    }
+
+    if (input.recoveryCode) {
+      const hash = TotpUtil.hashRecoveryCode(input.recoveryCode);
+      if (!user.twoFactorRecoveryCodes.includes(hash)) return null;
+
+      // Only succeeds if the list hasn't changed since we read it
+      const consumed = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes },
+        },
+        data: {
+          twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+            (stored) => stored !== hash
+          ),
+        },
+      });
+
+      return consumed.count > 0 ? "recovery" : null;
+    }
+
+    return null;
+  }
+
+  // Replace all recovery codes; returns the new ones
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = TotpUtil.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+          TotpUtil.hashRecoveryCode(recoveryCode)
+        ),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorEnabledAt: null,
+      },
+    });
+  }
+
+  private static async findUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastStep: true,
+        twoFactorRecoveryCodes: true,
+      },
+    });
+
+    if (!user) {
+      throw new TwoFactorError("User not found", 404);
+    }
+
+    return user;
+  }
+}
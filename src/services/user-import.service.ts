@@ -0,0 +1,379 @@
+// src/services/user-import.service.ts
+import prisma from "../config/database";
+import { CsvUtil } from "../utils/csv.util";
+import { ValidatorUtil } from "../utils/validator.util";
+import { PasswordUtil } from "../utils/password.util";
+import { TokenUtil } from "../utils/token.util";
+import { VerificationUtil } from "../utils/verification.util";
+import { EmailUtil } from "../utils/email.util";
+import { PasswordPolicyService } from "./password-policy.service";
+
+export class UserImportError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "UserImportError";
+  }
+
+  get body() {
+    return { success: false, message: this.message };
+  }
+}
+
+// Columns read from the file; header names are matched case-insensitively
+const COLUMNS = [
+  "studentId",
+  "email",
+  "phone",
+  "name",
+  "course",
+  "yearOfStudy",
+] as const;
+const REQUIRED_COLUMNS = ["studentId", "email", "phone"];
+
+type ImportColumn = (typeof COLUMNS)[number];
+
+export const MAX_IMPORT_ROWS = 1000;
+const INVITE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ImportRow {
+  row: number; // Line in the file, counting the header as 1
+  studentId: string;
+  email: string;
+  phone: string;
+  name: string | null;
+  course: string | null;
+  yearOfStudy: number | null;
+}
+
+// create: new account (would be created on a dry run)
+// exists: an account with this student ID and email is already there, so
+//   re-uploading the same file changes nothing
+// invalid: see errors; the row is skipped
+export type ImportRowStatus = "create" | "exists" | "invalid";
+
+export interface ImportRowResult {
+  row: number;
+  studentId: string;
+  email: string;
+  status: ImportRowStatus;
+  errors?: string[];
+  userId?: string;
+  invited?: boolean; // An invite email was sent for this row
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    created: number;
+    existing: number;
+    invalid: number;
+    invited: number;
+  };
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // Send a fresh invite to existing rows whose invite hasn't been accepted
+  resendInvites?: boolean;
+}
+
+export class UserImportService {
+  // Read and check the file's rows; row-level problems are reported per
+  // row, only an unreadable file throws
+  static parse(content: string): {
+    rows: ImportRow[];
+    errors: Map<number, string[]>;
+  } {
+    const [header, ...lines] = CsvUtil.parse(content);
+
+    if (!header) {
+      throw new UserImportError("The file is empty");
+    }
+
+    const index = new Map<ImportColumn, number>();
+    header.forEach((name, position) => {
+      const column = COLUMNS.find(
+        (candidate) => candidate.toLowerCase() === name.trim().toLowerCase()
+      );
+      if (column && !index.has(column)) index.set(column, position);
+    });
+
+    const missing = REQUIRED_COLUMNS.filter(
+      (column) => !index.has(column as ImportColumn)
+    );
+    if (missing.length > 0) {
+      throw new UserImportError(
+        `Missing column(s): ${missing.join(", ")}. Expected: ${COLUMNS.join(
+          ", "
+        )}`
+      );
+    }
+
+    if (lines.length === 0) {
+      throw new UserImportError("The file has no rows to import");
+    }
+
+    if (lines.length > MAX_IMPORT_ROWS) {
+      throw new UserImportError(
+        `The file has ${lines.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+      );
+    }
+
+    const rows: ImportRow[] = [];
+    const errors = new Map<number, string[]>();
+
+    lines.forEach((line, position) => {
+      const cell = (column: ImportColumn) => {
+        const at = index.get(column);
+        return at === undefined
+          ? ""
+          : ValidatorUtil.sanitizeInput(line[at] || "");
+      };
+
+      const row: ImportRow = {
+        row: position + 2,
+        studentId: cell("studentId"),
+        email: cell("email").toLowerCase(),
+        phone: cell("phone").replace(/\s/g, ""),
+        name: cell("name") || null,
+        course: cell("course") || null,
+        yearOfStudy: null,
+      };
+      const rowErrors: string[] = [];
+
+      if (!row.studentId) {
+        rowErrors.push("studentId is required");
+      } else if (!ValidatorUtil.isValidStudentId(row.studentId)) {
+        rowErrors.push("Invalid student ID format");
+      }
+
+      if (!row.email) {
+        rowErrors.push("email is required");
+      } else if (!ValidatorUtil.isValidEmail(row.email)) {
+        rowErrors.push("Invalid email format");
+      }
+
+      if (!row.phone) {
+        rowErrors.push("phone is required");
+      } else if (!ValidatorUtil.isValidPhone(row.phone)) {
+        rowErrors.push(
+          "Invalid phone number format. Use format: 0712345678 or +254712345678"
+        );
+      }
+
+      const year = cell("yearOfStudy");
+      if (year) {
+        row.yearOfStudy = /^\d+$/.test(year) ? parseInt(year) : NaN;
+        if (!(row.yearOfStudy >= 1 && row.yearOfStudy <= 10)) {
+          rowErrors.push("yearOfStudy must be a whole number from 1 to 10");
+        }
+      }
+
+      rows.push(row);
+      if (rowErrors.length > 0) errors.set(row.row, rowErrors);
+    });
+
+    return { rows, errors };
+  }
+
+  // Validate every row against the file and the database, then (unless
+  // dryRun) create the new accounts and send their invites
+  static async run(
+    content: string,
+    options: ImportOptions
+  ): Promise<ImportResult> {
+    const { rows, errors } = this.parse(content);
+
+    this.flagDuplicates(rows, errors);
+
+    const existing = await prisma.user.findMany({
+      where: {
+        OR: [
+          { studentId: { in: rows.map((row) => row.studentId) } },
+          { email: { in: rows.map((row) => row.email) } },
+          { phone: { in: rows.map((row) => row.phone) } },
+        ],
+      },
+      select: {
+        id: true,
+        studentId: true,
+        email: true,
+        phone: true,
+        name: true,
+        invitedAt: true,
+      },
+    });
+
+    const byStudentId = new Map(existing.map((user) => [user.studentId, user]));
+    const byEmail = new Map(existing.map((user) => [user.email, user]));
+    const byPhone = new Map(existing.map((user) => [user.phone, user]));
+
+    const results: ImportRowResult[] = [];
+
+    for (const row of rows) {
+      const result: ImportRowResult = {
+        row: row.row,
+        studentId: row.studentId,
+        email: row.email,
+        status: "create",
+      };
+      results.push(result);
+
+      const rowErrors = errors.get(row.row);
+      if (rowErrors) {
+        result.status = "invalid";
+        result.errors = rowErrors;
+        continue;
+      }
+
+      const match = byStudentId.get(row.studentId);
+      if (match) {
+        if (match.email !== row.email) {
+          result.status = "invalid";
+          result.errors = [
+            "Student ID already belongs to an account with a different email",
+          ];
+          continue;
+        }
+
+        result.status = "exists";
+        result.userId = match.id;
+
+        if (!options.dryRun && options.resendInvites && match.invitedAt) {
+          result.invited = await this.sendInvite(match);
+        }
+        continue;
+      }
+
+      const conflicts: string[] = [];
+      if (byEmail.has(row.email)) conflicts.push("Email already in use");
+      if (byPhone.has(row.phone)) {
+        conflicts.push("Phone number already in use");
+      }
+      if (conflicts.length > 0) {
+        result.status = "invalid";
+        result.errors = conflicts;
+        continue;
+      }
+
+      if (options.dryRun) continue;
+
+      try {
+        const user = await this.createUser(row);
+        result.userId = user.id;
+        result.invited = await this.sendInvite(user);
+      } catch (error) {
+        // Someone signed up with these details while the import ran
+        if (error.code === "P2002") {
+          result.status = "invalid";
+          result.errors = ["Student ID, email or phone already in use"];
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const count = (status: ImportRowStatus) =>
+      results.filter((result) => result.status === status).length;
+
+    return {
+      dryRun: options.dryRun,
+      summary: {
+        total: results.length,
+        created: count("create"),
+        existing: count("exists"),
+        invalid: count("invalid"),
+        invited: results.filter((result) => result.invited).length,
+      },
+      rows: results,
+    };
+  }
+
+  // Set the password for an imported account (already checked against the
+  // password policy); the invite also proves the email address
+  static async acceptInvite(token: string, password: string) {
+    const userId = await VerificationUtil.consume("account-invite", token);
+    if (!userId) return null;
+
+    await PasswordPolicyService.setPassword(userId, password, {
+      emailVerified: true,
+      invitedAt: null,
+    });
+
+    return prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, studentId: true },
+    });
+  }
+
+  // Later rows repeating an earlier row's student ID, email or phone
+  private static flagDuplicates(
+    rows: ImportRow[],
+    errors: Map<number, string[]>
+  ) {
+    const seen = {
+      studentId: new Map<string, number>(),
+      email: new Map<string, number>(),
+      phone: new Map<string, number>(),
+    };
+
+    for (const row of rows) {
+      for (const field of ["studentId", "email", "phone"] as const) {
+        const value = row[field];
+        if (!value) continue;
+
+        const first = seen[field].get(value);
+        if (first !== undefined) {
+          errors.set(row.row, [
+            ...(errors.get(row.row) || []),
+            `Duplicate ${field} (same as row ${first})`,
+          ]);
+        } else {
+          seen[field].set(value, row.row);
+        }
+      }
+    }
+  }
+
+  private static async createUser(row: ImportRow) {
+    return prisma.user.create({
+      data: {
+        studentId: row.studentId,
+        email: row.email,
+        phone: row.phone,
+        // Nobody knows this password; the invite replaces it
+        password: await PasswordUtil.hash(TokenUtil.generateResetToken()),
+        name: row.name,
+        course: row.course,
+        yearOfStudy: row.yearOfStudy,
+        emailVerified: false,
+        isActive: true,
+        invitedAt: new Date(),
+      },
+      select: { id: true, email: true, name: true },
+    });
+  }
+
+  // A failed email doesn't undo the import; the row reports invited: false
+  // and a re-upload with resendInvites tries again
+  private static async sendInvite(user: {
+    id: string;
+    email: string;
+    name: string | null;
+  }): Promise<boolean> {
+    try {
+      const token = await VerificationUtil.issue(
+        "account-invite",
+        user.id,
+        INVITE_EXPIRY_MS
+      );
+      await EmailUtil.sendInviteEmail(user.email, user.name, token);
+      return true;
+    } catch (error) {
+      console.error("Failed to send invite email:", error);
+      return false;
+    }
+  }
+}
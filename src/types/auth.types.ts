@@ -18,12 +18,56 @@ export interface ForgotPasswordRequest {
   email: string;
 }
 
+// Either identifies the account; studentId also accepts an email or phone
+export interface MagicLinkRequest {
+  email?: string;
+  studentId?: string;
+}
+
+export interface MagicLinkLoginRequest {
+  token: string;
+}
+
 export interface ResetPasswordRequest {
   token: string;
   newPassword: string;
   confirmPassword: string;
 }
 
+export interface AcceptInviteRequest {
+  token: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupLoginRequest {
+  challengeToken: string;
+  code?: string; // Required to confirm
+}
+
+export interface OidcCallbackRequest {
+  code: string;
+  state: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   message: string;
@@ -31,9 +75,20 @@ export interface AuthResponse {
     user: UserProfile;
     token: string;
     expiresAt: Date;
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
   };
 }
 
+// What AuthMiddleware attaches to req.user, read from the access token
+export interface AuthUser {
+  id: string;
+  studentId: string;
+  role: string;
+  sessionId: string;
+  impersonatorId?: string; // Set while a super admin is signed in as the user
+}
+
 export interface UserProfile {
   id: string;
   studentId: string;
@@ -1,9 +1,9 @@
-import { UserProfile } from "./auth.types";
+import { AuthUser } from "./auth.types";
 
 declare global {
   namespace Express {
     interface Request {
-      user?: UserProfile;
+      user?: AuthUser;
     }
   }
 }
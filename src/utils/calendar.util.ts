@@ -0,0 +1,147 @@
+import { Event } from "@prisma/client";
+
+export type CalendarEvent = Pick<
+  Event,
+  | "id"
+  | "slug"
+  | "title"
+  | "description"
+  | "location"
+  | "startDate"
+  | "endDate"
+  | "status"
+  | "createdAt"
+  | "updatedAt"
+> & { category?: { name: string } | null };
+
+export type CalendarEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  // Override VEVENT STATUS, e.g. TENTATIVE for a pending registration
+  statusFor?: (event: CalendarEvent) => CalendarEventStatus;
+}
+
+const PRODUCT_ID = "-//BITSA//Events//EN";
+const UID_DOMAIN = "bitsa";
+
+export class CalendarUtil {
+  /**
+   * Build an iCalendar (RFC 5545) document
+   * @param events - Events to include
+   * @param options - Calendar name/description and per-event status
+   * @returns .ics file contents
+   */
+  static build(events: CalendarEvent[], options: CalendarOptions): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${this.escape(options.name)}`,
+      ...(options.description
+        ? [`X-WR-CALDESC:${this.escape(options.description)}`]
+        : []),
+      // Ask subscribed calendar apps to refresh hourly
+      "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+      "X-PUBLISHED-TTL:PT1H",
+    ];
+
+    const now = this.formatDate(new Date());
+
+    for (const event of events) {
+      const url = this.eventUrl(event.slug);
+      const status =
+        options.statusFor?.(event) ||
+        (event.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED");
+      const description = [this.plainText(event.description), url]
+        .filter(Boolean)
+        .join("\n\n");
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${event.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${now}`,
+        `DTSTART:${this.formatDate(event.startDate)}`,
+        `DTEND:${this.formatDate(event.endDate)}`,
+        `CREATED:${this.formatDate(event.createdAt)}`,
+        `LAST-MODIFIED:${this.formatDate(event.updatedAt)}`,
+        `SUMMARY:${this.escape(event.title)}`,
+        `DESCRIPTION:${this.escape(description)}`,
+        `LOCATION:${this.escape(event.location)}`,
+        ...(event.category
+          ? [`CATEGORIES:${this.escape(event.category.name)}`]
+          : []),
+        `URL:${url}`,
+        `STATUS:${status}`,
+        "END:VEVENT"
+      );
+    }
+
+    lines.push("END:VCALENDAR");
+
+    return lines.map((line) => this.fold(line)).join("\r\n") + "\r\n";
+  }
+
+  static eventUrl(slug: string): string {
+    return `${process.env.FRONTEND_URL || ""}/events/${slug}`;
+  }
+
+  // UTC date-time, e.g. 20250101T090000Z
+  private static formatDate(date: Date): string {
+    return (
+      new Date(date).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z"
+    );
+  }
+
+  // Escape TEXT values (RFC 5545 section 3.3.11)
+  private static escape(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  // Descriptions are stored as HTML/markdown from the editor
+  private static plainText(text: string): string {
+    return text
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/p>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  // Lines longer than 75 octets continue on the next line after a space
+  private static fold(line: string): string {
+    const bytes = Buffer.from(line, "utf-8");
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char, "utf-8");
+      // Continuation lines start with a space, leaving 74 octets
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + size > limit) {
+        parts.push(current);
+        current = "";
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += size;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+  }
+}
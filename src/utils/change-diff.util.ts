@@ -0,0 +1,105 @@
+import { Prisma } from "@prisma/client";
+
+// A type alias rather than an interface so it stays assignable to Prisma's
+// Json input type
+export type FieldChange = {
+  from: Prisma.JsonValue;
+  to: Prisma.JsonValue;
+};
+
+// Stored in Activity.changes
+export type ChangeSet = Record<string, FieldChange>;
+
+const REDACTED = "[REDACTED]";
+
+// Secrets whose values never go in the audit trail; a change to them is
+// still recorded, just without the values
+const SENSITIVE_FIELDS = new Set([
+  "password",
+  "resetToken",
+  "resetTokenExpiry",
+  "calendarFeedTokenHash",
+  "twoFactorSecret",
+  "twoFactorRecoveryCodes",
+  "twoFactorLastStep",
+  "refreshTokenHash",
+  "access_token",
+  "refresh_token",
+  "id_token",
+]);
+
+// Long text (e.g. blog content) is cut so one edit can't bloat the log
+const MAX_VALUE_LENGTH = 1000;
+
+export class ChangeDiffUtil {
+  /**
+   * Compare two snapshots of a record field by field
+   * @param before - Record before the update
+   * @param after - Record after the update
+   * @param fields - Fields to compare (defaults to every field of after)
+   * @returns The changed fields with their old and new values, or null if
+   *   nothing changed
+   */
+  static diff(
+    before: Record<string, any>,
+    after: Record<string, any>,
+    fields: string[] = Object.keys(after)
+  ): ChangeSet | null {
+    const changes: ChangeSet = {};
+
+    for (const field of new Set(fields)) {
+      const from = this.normalize(before?.[field]);
+      const to = this.normalize(after?.[field]);
+
+      if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+      changes[field] = this.isSensitive(field)
+        ? { from: REDACTED, to: REDACTED }
+        : { from: this.truncate(from), to: this.truncate(to) };
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Whether a field's values must never be logged
+   * @param field - Field name
+   */
+  static isSensitive(field: string): boolean {
+    return SENSITIVE_FIELDS.has(field);
+  }
+
+  /**
+   * Human-readable list of changed fields for activity descriptions
+   * @param changes - Result of diff
+   * @returns e.g. " (title, startDate)", or "" when nothing changed
+   */
+  static summarize(changes: ChangeSet | null): string {
+    return changes ? ` (${Object.keys(changes).join(", ")})` : "";
+  }
+
+  // Make values JSON-safe and comparable (dates as ISO strings, etc.)
+  private static normalize(value: any): Prisma.JsonValue {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === "bigint") return value.toString();
+    if (Array.isArray(value)) return value.map((item) => this.normalize(item));
+    if (typeof value === "object") {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, this.normalize(value[key])])
+      );
+    }
+    return value;
+  }
+
+  private static truncate(value: Prisma.JsonValue): Prisma.JsonValue {
+    if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+      return `${value.slice(0, MAX_VALUE_LENGTH)}… (+${
+        value.length - MAX_VALUE_LENGTH
+      } chars)`;
+    }
+    return value;
+  }
+}
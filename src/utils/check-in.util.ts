@@ -0,0 +1,98 @@
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import QRCode from "qrcode";
+
+const CHECK_IN_SECRET =
+  process.env.CHECK_IN_SECRET ||
+  process.env.BETTER_AUTH_SECRET ||
+  "your-super-secret-jwt-key";
+const CHECK_IN_AUDIENCE = "event-check-in";
+const TOKEN_GRACE_MS = 24 * 60 * 60 * 1000; // Codes stay valid a day past the event
+
+export interface CheckInPayload {
+  registrationId: string;
+  eventId: string;
+  nonce: string;
+}
+
+export type QrFormat = "png" | "svg";
+
+export class CheckInUtil {
+  /**
+   * Random value stored on the registration; a code is only accepted while it
+   * matches, and it is cleared on check-in so every code works once
+   */
+  static generateNonce(): string {
+    return crypto.randomBytes(16).toString("hex");
+  }
+
+  /**
+   * Sign a check-in code for a registration
+   * @param payload - Registration, event and current nonce
+   * @param eventEndDate - Code expires a day after the event ends
+   * @returns Signed token
+   */
+  static sign(payload: CheckInPayload, eventEndDate: Date): string {
+    const expiresAt = Math.max(
+      eventEndDate.getTime() + TOKEN_GRACE_MS,
+      Date.now() + TOKEN_GRACE_MS
+    );
+
+    return jwt.sign(
+      { eventId: payload.eventId, nonce: payload.nonce },
+      CHECK_IN_SECRET,
+      {
+        subject: payload.registrationId,
+        audience: CHECK_IN_AUDIENCE,
+        expiresIn: Math.floor((expiresAt - Date.now()) / 1000),
+      }
+    );
+  }
+
+  /**
+   * Verify a scanned check-in code
+   * @param token - Token read from the QR code
+   * @returns Payload, or null if the signature is invalid or the code expired
+   */
+  static verify(token: string): CheckInPayload | null {
+    try {
+      const decoded = jwt.verify(token, CHECK_IN_SECRET, {
+        audience: CHECK_IN_AUDIENCE,
+      }) as jwt.JwtPayload;
+
+      if (
+        !decoded.sub ||
+        typeof decoded.eventId !== "string" ||
+        typeof decoded.nonce !== "string"
+      ) {
+        return null;
+      }
+
+      return {
+        registrationId: decoded.sub,
+        eventId: decoded.eventId,
+        nonce: decoded.nonce,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Render a token as a QR code image
+   * @param token - Check-in token
+   * @param format - png (Buffer) or svg (markup)
+   */
+  static async renderQr(token: string, format: QrFormat): Promise<Buffer> {
+    const options = { errorCorrectionLevel: "M" as const, margin: 2 };
+
+    if (format === "svg") {
+      return Buffer.from(
+        await QRCode.toString(token, { ...options, type: "svg" }),
+        "utf-8"
+      );
+    }
+
+    return QRCode.toBuffer(token, { ...options, type: "png", width: 400 });
+  }
+}
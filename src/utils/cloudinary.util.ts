@@ -97,6 +97,28 @@ export class CloudinaryUtil {
     }
   }
 
+  /**
+   * Delete any resource (image, video or raw file) by public_id
+   * @param publicId - Cloudinary public_id
+   * @param resourceType - Resource type the file was uploaded as
+   * @returns Deletion result
+   */
+  static async deleteByPublicId(
+    publicId: string,
+    resourceType: "image" | "video" | "raw" = "image"
+  ): Promise<any> {
+    this.ensureConfigured();
+
+    try {
+      return await cloudinary.uploader.destroy(publicId, {
+        resource_type: resourceType,
+      });
+    } catch (error) {
+      console.error("Cloudinary delete error:", error);
+      throw error;
+    }
+  }
+
   /**
    * Delete multiple images from Cloudinary
    * @param imageUrls - Array of Cloudinary URLs
@@ -0,0 +1,51 @@
+export class CsvUtil {
+  /**
+   * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+   * @param text - CSV content; a leading BOM is ignored
+   * @returns Rows of raw cell strings, with blank lines dropped
+   */
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, "");
+
+    const endRow = () => {
+      row.push(cell);
+      if (row.some((value) => value.trim() !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === "") {
+        quoted = true;
+      } else if (char === ",") {
+        row.push(cell);
+        cell = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && input[i + 1] === "\n") i++;
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== "" || row.length > 0) endRow();
+
+    return rows;
+  }
+}
@@ -70,6 +70,187 @@ export class EmailUtil {
     }
   }
 
+  static async sendVerificationEmail(
+    email: string,
+    name: string | null,
+    verificationToken: string
+  ): Promise<void> {
+    const verifyUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
+
+    const mailOptions = {
+      from: `"BITSA Club" <${process.env.EMAIL_USER}>`,
+      to: email,
+      subject: "Verify Your Email - BITSA Club",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { background-color: #f9f9f9; padding: 30px; }
+            .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>BITSA Club</h1>
+            </div>
+            <div class="content">
+              <h2>Verify Your Email Address</h2>
+              <p>Hello ${name || "there"},</p>
+              <p>Thanks for signing up for BITSA Club! Please confirm your email address by clicking the button below:</p>
+              <center>
+                <a href="${verifyUrl}" class="button">Verify Email</a>
+              </center>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="background-color: #e9e9e9; padding: 10px; word-break: break-all;">${verifyUrl}</p>
+              <p><strong>This link will expire in 24 hours.</strong></p>
+              <p>If you didn't create an account, you can safely ignore this email.</p>
+              <p>Best regards,<br>The BITSA Club Team</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 BITSA Club. All rights reserved.</p>
+              <p>Bachelor of Information Technology Students Association</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      throw new Error("Failed to send verification email");
+    }
+  }
+
+  static async sendMagicLinkEmail(
+    email: string,
+    name: string | null,
+    loginToken: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    const loginUrl = `${process.env.FRONTEND_URL}/magic-link?token=${loginToken}`;
+
+    const mailOptions = {
+      from: `"BITSA Club" <${process.env.EMAIL_USER}>`,
+      to: email,
+      subject: "Your Login Link - BITSA Club",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { background-color: #f9f9f9; padding: 30px; }
+            .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>BITSA Club</h1>
+            </div>
+            <div class="content">
+              <h2>Log In to BITSA Club</h2>
+              <p>Hello ${name || "there"},</p>
+              <p>Click the button below to log in. No password needed:</p>
+              <center>
+                <a href="${loginUrl}" class="button">Log In</a>
+              </center>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="background-color: #e9e9e9; padding: 10px; word-break: break-all;">${loginUrl}</p>
+              <p><strong>This link will expire in ${expiresInMinutes} minutes and can only be used once.</strong></p>
+              <p>If you didn't request this link, you can safely ignore this email. Your account is still secure.</p>
+              <p>Best regards,<br>The BITSA Club Team</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 BITSA Club. All rights reserved.</p>
+              <p>Bachelor of Information Technology Students Association</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error("Error sending magic link email:", error);
+      throw new Error("Failed to send login link email");
+    }
+  }
+
+  static async sendInviteEmail(
+    email: string,
+    name: string | null,
+    inviteToken: string
+  ): Promise<void> {
+    const inviteUrl = `${process.env.FRONTEND_URL}/accept-invite?token=${inviteToken}`;
+
+    const mailOptions = {
+      from: `"BITSA Club" <${process.env.EMAIL_USER}>`,
+      to: email,
+      subject: "You're Invited to BITSA Club",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { background-color: #f9f9f9; padding: 30px; }
+            .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>BITSA Club</h1>
+            </div>
+            <div class="content">
+              <h2>Your Account Is Ready</h2>
+              <p>Hello ${name || "there"},</p>
+              <p>A BITSA Club account has been created for you. Click the button below to choose a password and sign in:</p>
+              <center>
+                <a href="${inviteUrl}" class="button">Set Password</a>
+              </center>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="background-color: #e9e9e9; padding: 10px; word-break: break-all;">${inviteUrl}</p>
+              <p><strong>This link will expire in 7 days.</strong></p>
+              <p>If you weren't expecting this, you can safely ignore this email.</p>
+              <p>Best regards,<br>The BITSA Club Team</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 BITSA Club. All rights reserved.</p>
+              <p>Bachelor of Information Technology Students Association</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error("Error sending invite email:", error);
+      throw new Error("Failed to send invite email");
+    }
+  }
+
   static async sendWelcomeEmail(
     email: string,
     name: string,
@@ -129,4 +310,80 @@ export class EmailUtil {
       // Don't throw error - welcome email is not critical
     }
   }
+
+  static async sendEventReminderEmail(
+    email: string,
+    name: string | null,
+    reminder: {
+      subject: string;
+      heading: string;
+      message: string;
+      eventTitle: string;
+      startDate: Date;
+      location: string;
+      url: string;
+      buttonText: string;
+    }
+  ): Promise<void> {
+    const startsAt = new Date(reminder.startDate).toLocaleString("en-GB", {
+      dateStyle: "full",
+      timeStyle: "short",
+      timeZone: process.env.EVENT_TIMEZONE || "Africa/Nairobi",
+    });
+
+    const mailOptions = {
+      from: `"BITSA Club" <${process.env.EMAIL_USER}>`,
+      to: email,
+      subject: `${reminder.subject} - BITSA Club`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { background-color: #f9f9f9; padding: 30px; }
+            .details { background-color: #e9e9e9; padding: 15px; border-radius: 5px; }
+            .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>BITSA Club</h1>
+            </div>
+            <div class="content">
+              <h2>${reminder.heading}</h2>
+              <p>Hello ${name || "there"},</p>
+              <p>${reminder.message}</p>
+              <div class="details">
+                <p><strong>${reminder.eventTitle}</strong></p>
+                <p>📅 ${startsAt}<br>📍 ${reminder.location}</p>
+              </div>
+              <center>
+                <a href="${reminder.url}" class="button">${
+        reminder.buttonText
+      }</a>
+              </center>
+              <p>You can turn off event reminders in your notification settings.</p>
+              <p>Best regards,<br>The BITSA Club Team</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 BITSA Club. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error("Error sending event reminder email:", error);
+      // Don't throw error - the in-app notification is still delivered
+    }
+  }
 }
@@ -0,0 +1,23 @@
+import { EventStatus } from "@prisma/client";
+
+interface EventDates {
+  status: EventStatus;
+  startDate: Date;
+  endDate: Date;
+}
+
+export class EventStatusUtil {
+  /**
+   * Derive an event's status from its dates
+   * @param event - Current status and start/end dates
+   * @param now - Reference time (defaults to current time)
+   * @returns Status the event should be in; CANCELLED is never changed
+   */
+  static derive(event: EventDates, now: Date = new Date()): EventStatus {
+    if (event.status === "CANCELLED") return "CANCELLED";
+
+    if (now >= new Date(event.endDate)) return "COMPLETED";
+    if (now >= new Date(event.startDate)) return "ONGOING";
+    return "UPCOMING";
+  }
+}
@@ -0,0 +1,119 @@
+import ExcelJS from "exceljs";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+  width?: number; // XLSX column width in characters
+}
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  extension: ExportFormat;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export class ExportUtil {
+  static isFormat(value: any): value is ExportFormat {
+    return value === "csv" || value === "xlsx";
+  }
+
+  /**
+   * Build a CSV or XLSX file from rows
+   * @param format - Output format
+   * @param sheetName - Worksheet name (XLSX only)
+   * @param columns - Column headers and how to read each cell from a row
+   * @param rows - Data rows
+   * @returns File body and content type
+   */
+  static async build<T>(
+    format: ExportFormat,
+    sheetName: string,
+    columns: ExportColumn<T>[],
+    rows: T[]
+  ): Promise<ExportFile> {
+    const body =
+      format === "xlsx"
+        ? await this.toXlsx(sheetName, columns, rows)
+        : Buffer.from(this.toCsv(columns, rows), "utf-8");
+
+    return { body, contentType: CONTENT_TYPES[format], extension: format };
+  }
+
+  /**
+   * Render rows as CSV (RFC 4180, with a BOM so Excel detects UTF-8)
+   */
+  static toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    const lines = [columns.map((column) => this.csvCell(column.header))];
+
+    for (const row of rows) {
+      lines.push(columns.map((column) => this.csvCell(column.value(row))));
+    }
+
+    return "\uFEFF" + lines.map((line) => line.join(",")).join("\r\n");
+  }
+
+  static async toXlsx<T>(
+    sheetName: string,
+    columns: ExportColumn<T>[],
+    rows: T[]
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet(this.sheetName(sheetName), {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width || Math.max(12, column.header.length + 2),
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    for (const row of rows) {
+      sheet.addRow(
+        columns.map((column) => {
+          const value = column.value(row);
+          return value === undefined ? null : value;
+        })
+      );
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Make a value safe to use in a Content-Disposition filename
+   */
+  static filename(name: string, extension: ExportFormat): string {
+    const safe = name.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^-+|-+$/g, "");
+    return `${safe || "export"}.${extension}`;
+  }
+
+  private static csvCell(
+    value: string | number | boolean | Date | null | undefined
+  ): string {
+    if (value === null || value === undefined) return "";
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    // Stop spreadsheet apps from evaluating user-supplied text as a formula
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Excel sheet names: max 31 characters, none of : \ / ? * [ ]
+  private static sheetName(name: string): string {
+    return name.replace(/[:\\/?*[\]]/g, " ").slice(0, 31) || "Sheet1";
+  }
+}
@@ -0,0 +1,191 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { CloudinaryUtil } from "./cloudinary.util";
+
+export type StorageProvider = "cloudinary" | "local";
+
+// Metadata kept in submission responses for an uploaded file
+export interface StoredFile {
+  provider: StorageProvider;
+  key: string; // Cloudinary public_id or path relative to the upload dir
+  url: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  resourceType?: string;
+  uploadedAt: string;
+}
+
+export interface StorageBackend {
+  readonly provider: StorageProvider;
+  save(file: Express.Multer.File, folder: string): Promise<StoredFile>;
+  remove(file: StoredFile): Promise<void>;
+  read(file: StoredFile): Promise<Buffer>;
+}
+
+class CloudinaryStorageBackend implements StorageBackend {
+  readonly provider = "cloudinary" as const;
+
+  async save(file: Express.Multer.File, folder: string): Promise<StoredFile> {
+    const result = await CloudinaryUtil.uploadImage(file.buffer, {
+      folder,
+      resource_type: "auto",
+    });
+
+    return {
+      provider: this.provider,
+      key: result.public_id,
+      url: result.secure_url,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      resourceType: result.resource_type,
+      uploadedAt: new Date().toISOString(),
+    };
+  }
+
+  async remove(file: StoredFile): Promise<void> {
+    await CloudinaryUtil.deleteByPublicId(
+      file.key,
+      (file.resourceType as "image" | "video" | "raw") || "image"
+    );
+  }
+
+  async read(file: StoredFile): Promise<Buffer> {
+    const response = await fetch(file.url);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+class LocalStorageBackend implements StorageBackend {
+  readonly provider = "local" as const;
+
+  constructor(readonly rootDir: string, readonly publicPath: string) {}
+
+  async save(file: Express.Multer.File, folder: string): Promise<StoredFile> {
+    const ext = path.extname(file.originalname).toLowerCase();
+    const key = path.posix.join(
+      folder,
+      `${Date.now()}-${crypto.randomBytes(8).toString("hex")}${ext}`
+    );
+    const target = this.resolve(key);
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.buffer);
+
+    return {
+      provider: this.provider,
+      key,
+      url: `${this.publicPath}/${key}`,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      uploadedAt: new Date().toISOString(),
+    };
+  }
+
+  async remove(file: StoredFile): Promise<void> {
+    await fs.rm(this.resolve(file.key), { force: true });
+  }
+
+  async read(file: StoredFile): Promise<Buffer> {
+    return fs.readFile(this.resolve(file.key));
+  }
+
+  // Keep keys inside the upload directory
+  private resolve(key: string): string {
+    const target = path.resolve(this.rootDir, key);
+    if (!target.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid file key");
+    }
+    return target;
+  }
+}
+
+export class FileStorageUtil {
+  static readonly localDir = path.resolve(process.env.UPLOAD_DIR || "uploads");
+  static readonly localPublicPath = "/uploads";
+
+  private static backends: Record<StorageProvider, StorageBackend> = {
+    cloudinary: new CloudinaryStorageBackend(),
+    local: new LocalStorageBackend(
+      FileStorageUtil.localDir,
+      FileStorageUtil.localPublicPath
+    ),
+  };
+
+  /**
+   * Backend used for new uploads (FILE_STORAGE=local|cloudinary, default cloudinary)
+   */
+  static get provider(): StorageProvider {
+    return process.env.FILE_STORAGE === "local" ? "local" : "cloudinary";
+  }
+
+  /**
+   * Replace a backend, e.g. to plug in different storage
+   * @param backend - Storage backend implementation
+   */
+  static register(backend: StorageBackend) {
+    this.backends[backend.provider] = backend;
+  }
+
+  static async save(
+    file: Express.Multer.File,
+    folder: string
+  ): Promise<StoredFile> {
+    return this.backends[this.provider].save(file, folder);
+  }
+
+  /**
+   * Delete stored files, logging (not throwing) individual failures
+   * @param files - Files to delete; each uses the backend it was saved with
+   */
+  static async removeAll(files: StoredFile[]): Promise<void> {
+    const results = await Promise.allSettled(
+      files.map((file) => this.backends[file.provider].remove(file))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Failed to delete stored file ${files[index].key}:`,
+          result.reason
+        );
+      }
+    });
+  }
+
+  /**
+   * Read a stored file's contents
+   * @param file - File metadata from save()
+   */
+  static async read(file: StoredFile): Promise<Buffer> {
+    return this.backends[file.provider].read(file);
+  }
+
+  static isStoredFile(value: any): value is StoredFile {
+    return (
+      !!value &&
+      typeof value === "object" &&
+      typeof value.key === "string" &&
+      (value.provider === "cloudinary" || value.provider === "local")
+    );
+  }
+
+  /**
+   * Find every stored file referenced in a submission's responses
+   * @param responses - Submission responses JSON
+   * @returns Stored file metadata
+   */
+  static collectFiles(responses: any): StoredFile[] {
+    if (!responses || typeof responses !== "object") return [];
+
+    return Object.values(responses).filter((value) =>
+      this.isStoredFile(value)
+    ) as StoredFile[];
+  }
+}
@@ -0,0 +1,333 @@
+import { EventRegistrationField } from "@prisma/client";
+import { ValidatorUtil } from "./validator.util";
+
+/**
+ * Rules an admin can attach to a registration field (stored as JSON in
+ * EventRegistrationField.validation). A bare string is treated as a pattern.
+ */
+export interface FieldValidationRules {
+  min?: number | string; // NUMBER value, DATE earliest, CHECKBOX min selections
+  max?: number | string; // NUMBER value, DATE latest, CHECKBOX max selections
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  message?: string; // Custom message shown when the pattern does not match
+  maxSizeMB?: number; // FILE only
+  allowedTypes?: string[]; // FILE only, MIME types such as "application/pdf" or "image/*"
+}
+
+// Defaults for FILE fields without explicit rules
+export const DEFAULT_MAX_FILE_MB = 5;
+export const MAX_FILE_MB = 10; // Hard limit enforced by the upload middleware
+export const DEFAULT_ALLOWED_FILE_TYPES = ["image/*", "application/pdf"];
+
+type FieldDefinition = Pick<
+  EventRegistrationField,
+  "id" | "label" | "fieldType" | "required" | "options" | "validation"
+>;
+
+export interface FormValidationResult {
+  isValid: boolean;
+  errors: Record<string, string[]>;
+  responses: Record<string, any>;
+}
+
+export class FormValidatorUtil {
+  /**
+   * Validate a submission against the form's fields
+   * @param fields - Registration form fields
+   * @param responses - Raw responses keyed by field id
+   * @param files - Uploaded files keyed by field id (FILE fields)
+   * @returns All errors keyed by field id, plus normalized responses (unknown keys
+   * and FILE fields dropped; the caller stores files and fills those in)
+   */
+  static validateResponses(
+    fields: FieldDefinition[],
+    responses: Record<string, any>,
+    files: Record<string, Express.Multer.File> = {}
+  ): FormValidationResult {
+    const errors: Record<string, string[]> = {};
+    const normalized: Record<string, any> = {};
+    const input = responses && typeof responses === "object" ? responses : {};
+
+    for (const field of fields) {
+      const value =
+        field.fieldType === "FILE" ? files[field.id] : input[field.id];
+      const fieldErrors: string[] = [];
+
+      if (this.isEmpty(value, field)) {
+        if (field.required) {
+          fieldErrors.push(`${field.label} is required`);
+        }
+      } else {
+        const rules = this.parseRules(field.validation);
+        const result = this.validateValue(field, value, rules);
+        fieldErrors.push(...result.errors);
+        if (result.errors.length === 0 && result.value !== undefined) {
+          normalized[field.id] = result.value;
+        }
+      }
+
+      if (fieldErrors.length > 0) {
+        errors[field.id] = fieldErrors;
+      }
+    }
+
+    return {
+      isValid: Object.keys(errors).length === 0,
+      errors,
+      responses: normalized,
+    };
+  }
+
+  /**
+   * Check field definitions sent by an admin before saving a form
+   * @param fields - Raw field definitions from the request body
+   * @returns Errors keyed by field index
+   */
+  static validateFieldDefinitions(fields: any[]): Record<number, string[]> {
+    const errors: Record<number, string[]> = {};
+
+    fields.forEach((field, index) => {
+      const fieldErrors: string[] = [];
+
+      if (!field.label) {
+        fieldErrors.push("Label is required");
+      }
+
+      if (
+        ["SELECT", "RADIO"].includes(field.fieldType) &&
+        (!Array.isArray(field.options) || field.options.length === 0)
+      ) {
+        fieldErrors.push(`${field.fieldType} fields need at least one option`);
+      }
+
+      if (
+        field.fieldType === "FILE" &&
+        field.validation?.maxSizeMB !== undefined &&
+        !(
+          field.validation.maxSizeMB > 0 &&
+          field.validation.maxSizeMB <= MAX_FILE_MB
+        )
+      ) {
+        fieldErrors.push(`maxSizeMB must be between 0 and ${MAX_FILE_MB}`);
+      }
+
+      const pattern =
+        typeof field.validation === "string"
+          ? field.validation
+          : field.validation?.pattern;
+      if (pattern) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          fieldErrors.push(
+            "Validation pattern is not a valid regular expression"
+          );
+        }
+      }
+
+      if (fieldErrors.length > 0) {
+        errors[index] = fieldErrors;
+      }
+    });
+
+    return errors;
+  }
+
+  static parseRules(validation: string | null): FieldValidationRules {
+    if (!validation) return {};
+
+    try {
+      const parsed = JSON.parse(validation);
+      if (typeof parsed === "string") return { pattern: parsed };
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      // Older forms may have stored a raw pattern
+      return { pattern: validation };
+    }
+  }
+
+  private static isEmpty(value: any, field: FieldDefinition): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === "string") return value.trim() === "";
+    if (Array.isArray(value)) return value.length === 0;
+    // A lone checkbox (no options) left unticked
+    if (field.fieldType === "CHECKBOX" && field.options.length === 0)
+      return value === false;
+    return false;
+  }
+
+  private static validateValue(
+    field: FieldDefinition,
+    value: any,
+    rules: FieldValidationRules
+  ): { errors: string[]; value: any } {
+    const errors: string[] = [];
+    const label = field.label;
+
+    switch (field.fieldType) {
+      case "TEXT":
+      case "TEXTAREA": {
+        if (typeof value !== "string") {
+          return { errors: [`${label} must be text`], value };
+        }
+        const text = ValidatorUtil.sanitizeInput(value);
+        errors.push(...this.checkLength(label, text, rules));
+        errors.push(...this.checkPattern(label, text, rules));
+        return { errors, value: text };
+      }
+
+      case "EMAIL": {
+        const email = String(value).trim().toLowerCase();
+        if (!ValidatorUtil.isValidEmail(email)) {
+          errors.push(`${label} must be a valid email address`);
+        }
+        errors.push(...this.checkPattern(label, email, rules));
+        return { errors, value: email };
+      }
+
+      case "PHONE": {
+        const phone = String(value).replace(/\s/g, "");
+        if (!ValidatorUtil.isValidPhone(phone)) {
+          errors.push(
+            `${label} must be a valid phone number (e.g. 0712345678 or +254712345678)`
+          );
+        }
+        errors.push(...this.checkPattern(label, phone, rules));
+        return { errors, value: phone };
+      }
+
+      case "NUMBER": {
+        const num = typeof value === "number" ? value : Number(value);
+        if (typeof value === "boolean" || value === "" || !isFinite(num)) {
+          return { errors: [`${label} must be a number`], value };
+        }
+        if (rules.min !== undefined && num < Number(rules.min)) {
+          errors.push(`${label} must be at least ${rules.min}`);
+        }
+        if (rules.max !== undefined && num > Number(rules.max)) {
+          errors.push(`${label} must be at most ${rules.max}`);
+        }
+        return { errors, value: num };
+      }
+
+      case "DATE": {
+        const date = new Date(value);
+        if (typeof value === "boolean" || isNaN(date.getTime())) {
+          return { errors: [`${label} must be a valid date`], value };
+        }
+        if (rules.min !== undefined && date < new Date(rules.min)) {
+          errors.push(`${label} must be on or after ${rules.min}`);
+        }
+        if (rules.max !== undefined && date > new Date(rules.max)) {
+          errors.push(`${label} must be on or before ${rules.max}`);
+        }
+        return { errors, value: date.toISOString() };
+      }
+
+      case "SELECT":
+      case "RADIO": {
+        if (typeof value !== "string" || !field.options.includes(value)) {
+          errors.push(`${label} must be one of: ${field.options.join(", ")}`);
+        }
+        return { errors, value };
+      }
+
+      case "CHECKBOX": {
+        // A checkbox without options is a single yes/no tick
+        if (field.options.length === 0) {
+          if (typeof value !== "boolean") {
+            errors.push(`${label} must be true or false`);
+          }
+          return { errors, value };
+        }
+
+        const selected = Array.isArray(value) ? value : [value];
+        const invalid = selected.filter(
+          (option) => !field.options.includes(option)
+        );
+        if (invalid.length > 0) {
+          errors.push(
+            `${label} contains invalid option(s): ${invalid.join(", ")}`
+          );
+        }
+        if (rules.min !== undefined && selected.length < Number(rules.min)) {
+          errors.push(`Select at least ${rules.min} option(s) for ${label}`);
+        }
+        if (rules.max !== undefined && selected.length > Number(rules.max)) {
+          errors.push(`Select at most ${rules.max} option(s) for ${label}`);
+        }
+        return { errors, value: Array.from(new Set(selected)) };
+      }
+
+      case "FILE": {
+        const file = value as Express.Multer.File;
+        const maxSizeMB = Number(rules.maxSizeMB) || DEFAULT_MAX_FILE_MB;
+        const allowedTypes =
+          Array.isArray(rules.allowedTypes) && rules.allowedTypes.length > 0
+            ? rules.allowedTypes
+            : DEFAULT_ALLOWED_FILE_TYPES;
+
+        if (file.size > maxSizeMB * 1024 * 1024) {
+          errors.push(`${label} must be smaller than ${maxSizeMB}MB`);
+        }
+        if (!this.matchesMimeType(file.mimetype, allowedTypes)) {
+          errors.push(
+            `${label} must be one of these file types: ${allowedTypes.join(
+              ", "
+            )}`
+          );
+        }
+        return { errors, value: undefined };
+      }
+
+      default:
+        return { errors, value };
+    }
+  }
+
+  private static matchesMimeType(mimeType: string, allowed: string[]) {
+    return allowed.some((type) =>
+      type.endsWith("/*")
+        ? mimeType.startsWith(type.slice(0, -1))
+        : mimeType === type
+    );
+  }
+
+  private static checkLength(
+    label: string,
+    text: string,
+    rules: FieldValidationRules
+  ): string[] {
+    const errors: string[] = [];
+    const minLength = rules.minLength ?? (rules.min as number | undefined);
+    const maxLength = rules.maxLength ?? (rules.max as number | undefined);
+
+    if (minLength !== undefined && text.length < Number(minLength)) {
+      errors.push(`${label} must be at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && text.length > Number(maxLength)) {
+      errors.push(`${label} must be at most ${maxLength} characters`);
+    }
+    return errors;
+  }
+
+  private static checkPattern(
+    label: string,
+    text: string,
+    rules: FieldValidationRules
+  ): string[] {
+    if (!rules.pattern) return [];
+
+    try {
+      if (!new RegExp(rules.pattern).test(text)) {
+        return [rules.message || `${label} is not in the expected format`];
+      }
+    } catch {
+      // An invalid pattern is the form author's mistake, not the student's
+      console.error(`Invalid validation pattern for ${label}:`, rules.pattern);
+    }
+    return [];
+  }
+}
@@ -1,4 +1,40 @@
 import bcrypt from "bcryptjs";
+import commonPasswords from "../data/common-passwords.json";
+
+// Character-class and length rules; the full policy (history, max age)
+// lives in PasswordPolicyService
+export interface PasswordRules {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  blockCommon: boolean;
+}
+
+export const DEFAULT_PASSWORD_RULES: PasswordRules = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  blockCommon: true,
+};
+
+const COMMON_PASSWORDS = new Set<string>(commonPasswords);
+
+// Undo common letter substitutions (p@ssw0rd -> password)
+const LEET: Record<string, string> = {
+  "@": "a",
+  "4": "a",
+  "3": "e",
+  "1": "i",
+  "!": "i",
+  "0": "o",
+  $: "s",
+  "5": "s",
+  "7": "t",
+};
 
 export class PasswordUtil {
   static async hash(password: string): Promise<string> {
@@ -13,42 +49,70 @@ export class PasswordUtil {
     return bcrypt.compare(password, hashedPassword);
   }
 
-  static validate(password: string): { isValid: boolean; message?: string } {
-    if (password.length < 8) {
+  static validate(
+    password: string,
+    rules: PasswordRules = DEFAULT_PASSWORD_RULES
+  ): { isValid: boolean; message?: string } {
+    if (password.length < rules.minLength) {
       return {
         isValid: false,
-        message: "Password must be at least 8 characters long",
+        message: `Password must be at least ${rules.minLength} characters long`,
       };
     }
 
-    if (!/[A-Z]/.test(password)) {
+    if (rules.requireUppercase && !/[A-Z]/.test(password)) {
       return {
         isValid: false,
         message: "Password must contain at least one uppercase letter",
       };
     }
 
-    if (!/[a-z]/.test(password)) {
+    if (rules.requireLowercase && !/[a-z]/.test(password)) {
       return {
         isValid: false,
         message: "Password must contain at least one lowercase letter",
       };
     }
 
-    if (!/[0-9]/.test(password)) {
+    if (rules.requireNumber && !/[0-9]/.test(password)) {
       return {
         isValid: false,
         message: "Password must contain at least one number",
       };
     }
 
-    if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
+    if (rules.requireSymbol && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
       return {
         isValid: false,
         message: "Password must contain at least one special character",
       };
     }
 
+    if (rules.blockCommon && this.isCommon(password)) {
+      return {
+        isValid: false,
+        message:
+          "This password is too common and appears in breached password lists. Choose a different one.",
+      };
+    }
+
     return { isValid: true };
   }
+
+  /**
+   * Check a password against the bundled list of common/breached passwords.
+   * Also catches decorated variants like "Password123!" or "P@ssw0rd".
+   * @param password - Plain-text password
+   */
+  static isCommon(password: string): boolean {
+    const lower = password.toLowerCase();
+    // Digits and symbols tacked on the end, e.g. "sunshine2024!"
+    const base = lower.replace(/[^a-z]+$/, "");
+    const unleet = (value: string) =>
+      value.replace(/[@430$571!]/g, (char) => LEET[char]);
+
+    return [lower, base, unleet(lower), unleet(base)].some(
+      (candidate) => candidate.length >= 4 && COMMON_PASSWORDS.has(candidate)
+    );
+  }
 }
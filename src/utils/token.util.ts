@@ -3,34 +3,168 @@ import crypto from "crypto";
 
 const JWT_SECRET =
   process.env.BETTER_AUTH_SECRET || "your-super-secret-jwt-key";
-const JWT_EXPIRES_IN = "7d";
+// Access tokens are checked without a database lookup, so keep them short
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(
+  process.env.ACCESS_TOKEN_TTL_SECONDS || "900"
+); // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const ACCESS_AUDIENCE = "access";
+const REFRESH_AUDIENCE = "refresh";
+const CHALLENGE_AUDIENCE = "two-factor";
+const CHALLENGE_TTL_SECONDS = 10 * 60; // 10 minutes
 
 export interface TokenPayload {
   userId: string;
   studentId: string;
   role: string;
+  sessionId: string;
+  impersonatorId?: string; // Super admin signed in as this user
+}
+
+export interface RefreshTokenPayload {
+  sessionId: string;
+  generation: number;
+}
+
+// Password accepted, second factor still to come: "login" means enter a code,
+// "setup" means 2FA is mandatory for the role and must be enrolled first
+export type ChallengePurpose = "login" | "setup";
+
+export interface Challenge {
+  userId: string;
+  // First factor was SSO or a magic link, not a password
+  passwordless: boolean;
 }
 
 export class TokenUtil {
-  static generate(payload: TokenPayload): string {
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  // ttlSeconds can only shorten the usual lifetime (impersonation sessions)
+  static generate(
+    payload: TokenPayload,
+    ttlSeconds = ACCESS_TOKEN_TTL_SECONDS
+  ): string {
+    return jwt.sign(payload, JWT_SECRET, {
+      expiresIn: Math.min(ttlSeconds, ACCESS_TOKEN_TTL_SECONDS),
+      audience: ACCESS_AUDIENCE,
+    });
   }
 
   static verify(token: string): TokenPayload {
     try {
-      return jwt.verify(token, JWT_SECRET) as TokenPayload;
+      const decoded = jwt.verify(token, JWT_SECRET, {
+        audience: ACCESS_AUDIENCE,
+      }) as TokenPayload;
+      return {
+        userId: decoded.userId,
+        studentId: decoded.studentId,
+        role: decoded.role,
+        sessionId: decoded.sessionId,
+        ...(decoded.impersonatorId && {
+          impersonatorId: decoded.impersonatorId,
+        }),
+      };
     } catch (error) {
       throw new Error("Invalid or expired token");
     }
   }
 
+  /**
+   * Sign a refresh token for one generation of a session
+   * @param payload - Session id and rotation count
+   * @returns Refresh token; store only its hash
+   */
+  static generateRefreshToken(payload: RefreshTokenPayload): string {
+    return jwt.sign(payload, JWT_SECRET, {
+      expiresIn: Math.floor(REFRESH_TOKEN_TTL_MS / 1000),
+      audience: REFRESH_AUDIENCE,
+      jwtid: crypto.randomBytes(16).toString("hex"),
+    });
+  }
+
+  /**
+   * Check a refresh token's signature and expiry (not whether it is current)
+   * @param token - Refresh token from the client
+   * @returns Decoded payload, or null if the token isn't one we signed
+   */
+  static verifyRefreshToken(token: string): RefreshTokenPayload | null {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET, {
+        audience: REFRESH_AUDIENCE,
+      }) as RefreshTokenPayload;
+      return { sessionId: decoded.sessionId, generation: decoded.generation };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Sign a short-lived token proving the password step of login succeeded
+   * @param userId - User who passed the password check
+   * @param purpose - What the user still has to do
+   * @param passwordless - Whether the first factor was SSO or a magic link
+   * @returns Challenge token for the two-factor endpoints
+   */
+  static generateChallengeToken(
+    userId: string,
+    purpose: ChallengePurpose,
+    passwordless = false
+  ): string {
+    return jwt.sign({ purpose, passwordless }, JWT_SECRET, {
+      subject: userId,
+      expiresIn: CHALLENGE_TTL_SECONDS,
+      audience: CHALLENGE_AUDIENCE,
+    });
+  }
+
+  /**
+   * Check a challenge token
+   * @param token - Challenge token from the client
+   * @param purpose - Purpose the token must have been issued for
+   * @returns The challenge, or null if invalid, expired or for another purpose
+   */
+  static verifyChallengeToken(
+    token: string,
+    purpose: ChallengePurpose
+  ): Challenge | null {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET, {
+        audience: CHALLENGE_AUDIENCE,
+      }) as jwt.JwtPayload;
+      if (decoded.purpose !== purpose || !decoded.sub) return null;
+      return {
+        userId: decoded.sub,
+        passwordless: decoded.passwordless === true,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static getChallengeExpiry(): Date {
+    return new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000);
+  }
+
   static generateResetToken(): string {
     return crypto.randomBytes(32).toString("hex");
   }
 
-  static getExpirationDate(): Date {
-    const expiresIn = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-    return new Date(Date.now() + expiresIn);
+  /**
+   * Hash an opaque token for storage; only the hash is kept in the database
+   * @param token - Raw token handed to the user
+   * @returns SHA-256 hex digest
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  // When an access token issued now expires
+  static getExpirationDate(ttlSeconds = ACCESS_TOKEN_TTL_SECONDS): Date {
+    return new Date(
+      Date.now() + Math.min(ttlSeconds, ACCESS_TOKEN_TTL_SECONDS) * 1000
+    );
+  }
+
+  static getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
   }
 
   static getResetTokenExpiry(): Date {
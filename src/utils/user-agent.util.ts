@@ -0,0 +1,67 @@
+export type DeviceType = "desktop" | "mobile" | "tablet" | "unknown";
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  deviceType: DeviceType;
+}
+
+// Checked in order; Edge and Opera also say "Chrome", and Chrome says "Safari"
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ["Opera", /(?:OPR|Opera)\/([\d.]+)/],
+  ["Samsung Internet", /SamsungBrowser\/([\d.]+)/],
+  ["Firefox", /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ["Chrome", /(?:Chrome|CriOS)\/([\d.]+)/],
+  ["Safari", /Version\/([\d.]+).*Safari\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ["iOS", /(?:iPhone|iPad|iPod).*OS (\d+)[_\d]*/],
+  ["Android", /Android (\d+(?:\.\d+)?)/],
+  ["Windows", /Windows NT/],
+  ["macOS", /Mac OS X/],
+  ["ChromeOS", /CrOS/],
+  ["Linux", /Linux/],
+];
+
+export class UserAgentUtil {
+  /**
+   * Summarise a User-Agent header for display (e.g. "Chrome 120 on Windows")
+   * @param userAgent - Raw User-Agent header
+   * @returns Browser, operating system and device type, where recognised
+   */
+  static parse(userAgent?: string | null): ParsedUserAgent {
+    if (!userAgent) {
+      return { browser: null, os: null, deviceType: "unknown" };
+    }
+
+    return {
+      browser: this.match(BROWSERS, userAgent),
+      os: this.match(OPERATING_SYSTEMS, userAgent),
+      deviceType: this.deviceType(userAgent),
+    };
+  }
+
+  private static match(
+    patterns: [string, RegExp][],
+    userAgent: string
+  ): string | null {
+    for (const [name, pattern] of patterns) {
+      const match = userAgent.match(pattern);
+      if (!match) continue;
+
+      const major = match[1]?.split(".")[0];
+      return major ? `${name} ${major}` : name;
+    }
+
+    return null;
+  }
+
+  private static deviceType(userAgent: string): DeviceType {
+    if (/iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)) return "tablet";
+    if (/Mobi|iPhone|iPod|Android/i.test(userAgent)) return "mobile";
+    if (/Windows|Macintosh|X11|CrOS|Linux/i.test(userAgent)) return "desktop";
+    return "unknown";
+  }
+}
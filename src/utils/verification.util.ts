@@ -0,0 +1,117 @@
+import prisma from "../config/database";
+import { TokenUtil } from "./token.util";
+
+// What a verification token proves; stored as the identifier prefix
+export type VerificationPurpose =
+  | "email-verification"
+  | "oidc-state"
+  | "account-invite"
+  | "magic-link";
+
+export class VerificationUtil {
+  /**
+   * Issue a single-use token, replacing any earlier one for the same subject
+   * @param purpose - What the token will be used for
+   * @param subject - Who the token is for (usually a user id)
+   * @param expiresInMs - How long the token stays valid
+   * @returns Raw token to send to the user; only its hash is stored
+   */
+  static async issue(
+    purpose: VerificationPurpose,
+    subject: string,
+    expiresInMs: number
+  ): Promise<string> {
+    const token = TokenUtil.generateResetToken();
+    const identifier = this.identifier(purpose, subject);
+
+    await prisma.$transaction([
+      prisma.verification.deleteMany({
+        where: {
+          OR: [{ identifier }, { expiresAt: { lt: new Date() } }],
+        },
+      }),
+      prisma.verification.create({
+        data: {
+          identifier,
+          value: TokenUtil.hashToken(token),
+          expiresAt: new Date(Date.now() + expiresInMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Use up a token so it can't be used again
+   * @param purpose - Purpose the token must have been issued for
+   * @param token - Raw token from the user
+   * @returns The subject it was issued to, or null if invalid or expired
+   */
+  static async consume(
+    purpose: VerificationPurpose,
+    token: string
+  ): Promise<string | null> {
+    const verification = await prisma.verification.findFirst({
+      where: {
+        identifier: { startsWith: `${purpose}:` },
+        value: TokenUtil.hashToken(token),
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (!verification) return null;
+
+    // Only one concurrent request gets to delete the row
+    const deleted = await prisma.verification.deleteMany({
+      where: { id: verification.id },
+    });
+
+    if (deleted.count === 0) return null;
+
+    return verification.identifier.slice(purpose.length + 1);
+  }
+
+  /**
+   * When the current token for a subject was issued, for resend cooldowns
+   * @param purpose - Token purpose
+   * @param subject - Who the token is for
+   * @returns Issue time, or null if there is no unexpired token
+   */
+  static async lastIssuedAt(
+    purpose: VerificationPurpose,
+    subject: string
+  ): Promise<Date | null> {
+    const verification = await prisma.verification.findFirst({
+      where: {
+        identifier: this.identifier(purpose, subject),
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    });
+
+    return verification?.createdAt || null;
+  }
+
+  /**
+   * Remove every token issued to a subject for a purpose
+   * @param purpose - Token purpose
+   * @param subject - Who the tokens are for
+   */
+  static async revoke(
+    purpose: VerificationPurpose,
+    subject: string
+  ): Promise<void> {
+    await prisma.verification.deleteMany({
+      where: { identifier: this.identifier(purpose, subject) },
+    });
+  }
+
+  private static identifier(
+    purpose: VerificationPurpose,
+    subject: string
+  ): string {
+    return `${purpose}:${subject}`;
+  }
+}
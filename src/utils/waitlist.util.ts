@@ -0,0 +1,165 @@
+import { Prisma, RegistrationStatus } from "@prisma/client";
+import prisma from "../config/database";
+import { NotificationController } from "../controllers/notification.controller";
+
+// Registration states that hold a seat at an event
+export const SEATED_STATUSES: RegistrationStatus[] = [
+  "PENDING",
+  "REGISTERED",
+  "ATTENDED",
+];
+
+export class WaitlistUtil {
+  /**
+   * Lock an event's row until the transaction ends, so seat counts taken
+   * inside it can't be invalidated by a concurrent registration
+   * @param tx - Transaction client
+   * @param eventId - Event ID
+   */
+  static async lockEvent(
+    tx: Prisma.TransactionClient,
+    eventId: string
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM events WHERE id = ${eventId} FOR UPDATE`;
+  }
+
+  /**
+   * Count seats taken at an event
+   * @param eventId - Event ID
+   * @param db - Client to count with (pass the transaction holding the lock)
+   * @returns Number of occupied seats
+   */
+  static async countOccupiedSeats(
+    eventId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    return db.eventRegistration.count({
+      where: { eventId, status: { in: SEATED_STATUSES } },
+    });
+  }
+
+  static async isFull(
+    event: {
+      id: string;
+      maxAttendees: number | null;
+    },
+    db: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    if (!event.maxAttendees || event.maxAttendees <= 0) return false;
+    return (await this.countOccupiedSeats(event.id, db)) >= event.maxAttendees;
+  }
+
+  /**
+   * Get a user's 1-based position on an event's waitlist
+   * @param eventId - Event ID
+   * @param userId - User ID
+   * @returns Position, or null if the user is not waitlisted
+   */
+  static async getPosition(
+    eventId: string,
+    userId: string
+  ): Promise<number | null> {
+    const entry = await prisma.eventRegistration.findFirst({
+      where: { eventId, userId, status: "WAITLISTED" },
+      select: { createdAt: true },
+    });
+    if (!entry) return null;
+
+    const ahead = await prisma.eventRegistration.count({
+      where: {
+        eventId,
+        status: "WAITLISTED",
+        createdAt: { lt: entry.createdAt },
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Promote waitlisted users (oldest first) into any free seats and notify them
+   * @param eventId - Event ID
+   * @returns IDs of the users that were promoted
+   */
+  static async promote(eventId: string): Promise<string[]> {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: { registrationForm: true },
+    });
+
+    if (!event || event.status === "CANCELLED" || event.status === "COMPLETED")
+      return [];
+
+    // Seats are counted and filled under the event lock, so two promotions
+    // (or a promotion and a new registration) can't both take the last seat
+    const promoted = await prisma.$transaction(async (tx) => {
+      await this.lockEvent(tx, eventId);
+
+      const free = event.maxAttendees
+        ? event.maxAttendees - (await this.countOccupiedSeats(eventId, tx))
+        : undefined;
+      if (free !== undefined && free <= 0) return [];
+
+      const waiting = await tx.eventRegistration.findMany({
+        where: { eventId, status: "WAITLISTED" },
+        orderBy: { createdAt: "asc" },
+        take: free,
+        include: { submission: { select: { id: true } } },
+      });
+
+      const seated: { userId: string; awaitingApproval: boolean }[] = [];
+      for (const registration of waiting) {
+        // Form registrations that need approval go back into the review queue
+        const awaitingApproval =
+          !!registration.submission &&
+          !!event.registrationForm?.requiresApproval;
+
+        await tx.eventRegistration.update({
+          where: { id: registration.id },
+          data: { status: awaitingApproval ? "PENDING" : "REGISTERED" },
+        });
+
+        if (registration.submission) {
+          await tx.eventRegistrationSubmission.update({
+            where: { id: registration.submission.id },
+            data: {
+              status: awaitingApproval ? "PENDING" : "APPROVED",
+              approvedAt: awaitingApproval ? null : new Date(),
+            },
+          });
+        }
+
+        await tx.activity.create({
+          data: {
+            userId: registration.userId,
+            action: "WAITLIST_PROMOTED",
+            entity: "Event",
+            entityId: event.id,
+            description: `Promoted from waitlist for event: ${event.title}`,
+          },
+        });
+
+        seated.push({ userId: registration.userId, awaitingApproval });
+      }
+
+      return seated;
+    });
+
+    for (const { userId, awaitingApproval } of promoted) {
+      await NotificationController.notifyUsers({
+        userIds: [userId],
+        title: "You're off the waitlist!",
+        message: awaitingApproval
+          ? `A spot opened up for ${event.title}. Your registration is now awaiting approval.`
+          : `A spot opened up and you are now registered for ${event.title}.`,
+        type: "REGISTRATION",
+        priority: "HIGH",
+        createdById: event.createdById,
+        link: `/events/${event.slug}`,
+        linkText: "View event",
+      });
+    }
+
+    return promoted.map(({ userId }) => userId);
+  }
+}
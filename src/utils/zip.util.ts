@@ -0,0 +1,86 @@
+import zlib from "zlib";
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using forward slashes
+  data: Buffer | string;
+  modifiedAt?: Date;
+}
+
+export class ZipUtil {
+  /**
+   * Build a ZIP archive in memory (deflate, no ZIP64, so keep it under 4GB)
+   * @param entries - Files to include
+   * @returns Archive contents
+   */
+  static build(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, "utf-8");
+      const data = Buffer.isBuffer(entry.data)
+        ? entry.data
+        : Buffer.from(entry.data, "utf-8");
+      const compressed = zlib.deflateRawSync(data);
+      const crc = zlib.crc32(data);
+      const { time, date } = this.dosDateTime(entry.modifiedAt || new Date());
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(0x0800, 6); // Flags: UTF-8 file names
+      local.writeUInt16LE(8, 8); // Compression: deflate
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28); // Extra field length
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0); // Central directory signature
+      central.writeUInt16LE(20, 4); // Version made by
+      central.writeUInt16LE(20, 6); // Version needed to extract
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(8, 10);
+      central.writeUInt16LE(time, 12);
+      central.writeUInt16LE(date, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      // Extra, comment, disk number, attributes: all zero
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, compressed);
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  // MS-DOS timestamps have 2-second precision and start in 1980
+  private static dosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+      time:
+        (value.getHours() << 11) |
+        (value.getMinutes() << 5) |
+        Math.floor(value.getSeconds() / 2),
+      date:
+        ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+  }
+}
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../../src/config/database";
+import { NotificationController } from "../../src/controllers/notification.controller";
+import { EmailUtil } from "../../src/utils/email.util";
+import { JobRunner } from "../../src/jobs/job-runner";
+import { eventReminderJob } from "../../src/jobs/event-reminder.job";
+
+const HOUR = 60 * 60 * 1000;
+
+interface Reminder {
+  id: string;
+  kind: string;
+  recipients: number;
+  sentAt: Date | null;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+}
+
+interface Delivery {
+  id: string;
+  reminderId: string;
+  userId: string;
+  emailedAt: Date | null;
+}
+
+const event = {
+  id: "e1",
+  slug: "welcome-party",
+  title: "Welcome Party",
+  location: "Main Hall",
+  startDate: new Date(Date.now() + HOUR),
+  registrationDeadline: null,
+  createdById: "admin",
+  reminders: [],
+};
+
+const users = ["u1", "u2", "u3"].map((id) => ({
+  id,
+  email: `${id}@example.com`,
+  name: id,
+}));
+
+// Just enough of Prisma's where semantics for the queries the job makes
+const matches = (row: Record<string, any>, where: Record<string, any>) =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") return condition.some((or: any) => matches(row, or));
+    if (key === "event") return true;
+    const value = row[key];
+    if (condition === null) return value === null;
+    if (typeof condition === "object" && !(condition instanceof Date)) {
+      return !("lt" in condition) || (value !== null && value < condition.lt);
+    }
+    return value === condition;
+  });
+
+describe("eventReminderJob", () => {
+  let reminders: Reminder[];
+  let deliveries: Delivery[];
+  let notifyUsers: ReturnType<typeof mock.method>;
+  let sendEmail: ReturnType<typeof mock.method>;
+  const real: Record<string, any> = {};
+  const delegates = [
+    "event",
+    "eventReminder",
+    "eventReminderRecipient",
+    "eventRegistration",
+    "setting",
+  ];
+
+  beforeEach(() => {
+    reminders = [];
+    deliveries = [];
+    for (const name of delegates) real[name] = (prisma as any)[name];
+
+    Object.assign(prisma as any, {
+      event: { findMany: async () => [] },
+      setting: { findMany: async () => [] },
+      eventRegistration: {
+        findMany: async () => users.map((user) => ({ user })),
+      },
+      eventReminder: {
+        findMany: async ({ where }: any) =>
+          reminders
+            .filter((r) => matches(r, where))
+            .map(({ id, kind }) => ({ id, kind, event })),
+        updateMany: async ({ where, data }: any) => {
+          const hit = reminders.filter((r) => matches(r, where));
+          hit.forEach((r) => Object.assign(r, data));
+          return { count: hit.length };
+        },
+      },
+      eventReminderRecipient: {
+        findMany: async ({ where }: any) =>
+          deliveries
+            .filter((d) => matches(d, where))
+            .map((d) => ({
+              id: d.id,
+              userId: d.userId,
+              user: users.find((user) => user.id === d.userId),
+            })),
+        createMany: async ({ data }: any) => {
+          for (const { reminderId, userId } of data) {
+            if (
+              deliveries.some(
+                (d) => d.reminderId === reminderId && d.userId === userId
+              )
+            )
+              continue;
+            deliveries.push({
+              id: `d${deliveries.length + 1}`,
+              reminderId,
+              userId,
+              emailedAt: null,
+            });
+          }
+        },
+        update: async ({ where, data }: any) =>
+          Object.assign(
+            deliveries.find((d) => d.id === where.id),
+            data
+          ),
+        count: async ({ where }: any) =>
+          deliveries.filter((d) => matches(d, where)).length,
+      },
+    });
+
+    notifyUsers = mock.method(
+      NotificationController,
+      "notifyUsers",
+      async () => {}
+    );
+    sendEmail = mock.method(
+      EmailUtil,
+      "sendEventReminderEmail",
+      async () => {}
+    );
+    mock.method(console, "error", () => {});
+  });
+
+  afterEach(() => {
+    Object.assign(prisma as any, real);
+    mock.restoreAll();
+  });
+
+  const unfinished = (overrides: Partial<Reminder> = {}): Reminder => ({
+    id: "r1",
+    kind: "start:60",
+    recipients: 0,
+    sentAt: null,
+    lockedBy: null,
+    lockedUntil: null,
+    ...overrides,
+  });
+
+  it("resumes an interrupted reminder with the users it hadn't reached", async () => {
+    // The crashed run reached u1 fully and u2 only in-app
+    reminders.push(
+      unfinished({
+        lockedBy: "crashed",
+        lockedUntil: new Date(Date.now() - 1000),
+      })
+    );
+    deliveries.push(
+      { id: "d1", reminderId: "r1", userId: "u1", emailedAt: new Date() },
+      { id: "d2", reminderId: "r1", userId: "u2", emailedAt: null }
+    );
+
+    const result = await eventReminderJob.handler();
+
+    assert.equal(result, "sent 1 reminders to 1 users");
+    assert.equal(notifyUsers.mock.callCount(), 1);
+    assert.deepEqual(notifyUsers.mock.calls[0].arguments[0].userIds, ["u3"]);
+    assert.deepEqual(
+      sendEmail.mock.calls.map((call) => call.arguments[0]),
+      ["u2@example.com", "u3@example.com"]
+    );
+    assert.equal(reminders[0].recipients, 3);
+    assert.ok(reminders[0].sentAt);
+    assert.equal(reminders[0].lockedBy, null);
+  });
+
+  it("leaves a reminder another instance is still sending alone", async () => {
+    reminders.push(
+      unfinished({
+        lockedBy: "other",
+        lockedUntil: new Date(Date.now() + HOUR),
+      })
+    );
+
+    const result = await eventReminderJob.handler();
+
+    assert.equal(result, "sent 0 reminders to 0 users");
+    assert.equal(notifyUsers.mock.callCount(), 0);
+    assert.equal(reminders[0].lockedBy, "other");
+  });
+
+  it("retries only the failed emails on the next run", async () => {
+    reminders.push(unfinished());
+    sendEmail.mock.mockImplementation(async (email: string) => {
+      if (email === "u2@example.com") throw new Error("SMTP down");
+    });
+
+    await eventReminderJob.handler();
+
+    assert.equal(reminders[0].sentAt, null);
+    assert.equal(reminders[0].lockedBy, null);
+    assert.deepEqual(
+      deliveries.filter((d) => !d.emailedAt).map((d) => d.userId),
+      ["u2"]
+    );
+
+    sendEmail.mock.mockImplementation(async () => {});
+    await eventReminderJob.handler();
+
+    assert.equal(notifyUsers.mock.callCount(), 1);
+    assert.equal(sendEmail.mock.callCount(), 4);
+    assert.equal(sendEmail.mock.calls[3].arguments[0], "u2@example.com");
+    assert.ok(reminders[0].sentAt);
+  });
+
+  it("holds the lease while it sends", async () => {
+    reminders.push(unfinished());
+    sendEmail.mock.mockImplementation(async () => {
+      assert.equal(reminders[0].lockedBy, JobRunner.instanceId);
+    });
+
+    await eventReminderJob.handler();
+
+    assert.equal(sendEmail.mock.callCount(), 3);
+  });
+});
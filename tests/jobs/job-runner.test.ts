@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { JobRunner } from "../../src/jobs/job-runner";
+
+// Jobs stay registered for the whole file, so each test gets its own name
+let counter = 0;
+const register = (handler: () => Promise<string | void>) => {
+  const name = `test-job-${++counter}`;
+  JobRunner.register({ name, intervalMs: 60 * 1000, handler });
+  return name;
+};
+
+describe("JobRunner", () => {
+  beforeEach(() => {
+    mock.method(console, "error", () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("refuses to register the same name twice", () => {
+    const name = register(async () => {});
+    assert.throws(
+      () =>
+        JobRunner.register({ name, intervalMs: 1000, handler: async () => {} }),
+      /already registered/
+    );
+  });
+
+  describe("runNow", () => {
+    it("returns null for an unknown job", async () => {
+      assert.equal(await JobRunner.runNow("no-such-job"), null);
+    });
+
+    it("runs the handler and records its result", async () => {
+      const name = register(async () => "did 3 things");
+
+      const result = await JobRunner.runNow(name);
+
+      assert.equal(result.skipped, false);
+      assert.equal(result.status.running, false);
+      assert.equal(result.status.runCount, 1);
+      assert.equal(result.status.lastResult, "did 3 things");
+      assert.equal(result.status.lastError, null);
+      assert.ok(result.status.lastFinishedAt);
+    });
+
+    it("records failures without throwing", async () => {
+      const name = register(async () => {
+        throw new Error("boom");
+      });
+
+      const result = await JobRunner.runNow(name);
+
+      assert.equal(result.skipped, false);
+      assert.equal(result.status.failureCount, 1);
+      assert.equal(result.status.lastError, "boom");
+    });
+
+    it("clears the last error once a run succeeds", async () => {
+      let fail = true;
+      const name = register(async () => {
+        if (fail) throw new Error("boom");
+        return "ok";
+      });
+
+      await JobRunner.runNow(name);
+      fail = false;
+      const { status } = await JobRunner.runNow(name);
+
+      assert.equal(status.lastError, null);
+      assert.equal(status.lastResult, "ok");
+      assert.equal(status.runCount, 2);
+      assert.equal(status.failureCount, 1);
+    });
+
+    it("skips a run while the job is already running", async () => {
+      let release: () => void;
+      let calls = 0;
+      const name = register(async () => {
+        calls++;
+        await new Promise<void>((resolve) => (release = resolve));
+      });
+
+      const first = JobRunner.runNow(name);
+      const second = await JobRunner.runNow(name);
+
+      assert.equal(second.skipped, true);
+      assert.equal(second.status.running, true);
+
+      release();
+      const done = await first;
+      assert.equal(done.skipped, false);
+      assert.equal(done.status.runCount, 1);
+      assert.equal(calls, 1);
+    });
+  });
+
+  describe("getStatus", () => {
+    it("filters by name and returns copies", () => {
+      const name = register(async () => {});
+
+      const [status] = JobRunner.getStatus(name);
+      assert.equal(status.name, name);
+      assert.equal(JobRunner.getStatus(name).length, 1);
+
+      status.runCount = 99;
+      assert.equal(JobRunner.getStatus(name)[0].runCount, 0);
+    });
+  });
+});
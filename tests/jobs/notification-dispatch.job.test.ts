@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../../src/config/database";
+import { NotificationController } from "../../src/controllers/notification.controller";
+import { JobRunner } from "../../src/jobs/job-runner";
+import { notificationDispatchJob } from "../../src/jobs/notification-dispatch.job";
+
+const MINUTE = 60 * 1000;
+const MAX_ATTEMPTS = 5; // NOTIFICATION_DISPATCH_MAX_ATTEMPTS default
+
+interface Row {
+  id: string;
+  status: string;
+  scheduledFor: Date;
+  dispatchAttempts: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+}
+
+// Just enough of Prisma's where semantics for the queries the job makes
+const matches = (row: Row, where: Record<string, any>): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") return condition.some((or: any) => matches(row, or));
+    const value = row[key as keyof Row];
+    if (condition === null) return value === null;
+    if (typeof condition === "object" && !(condition instanceof Date)) {
+      if ("lt" in condition && !(value !== null && value < condition.lt))
+        return false;
+      if ("lte" in condition && !(value !== null && value <= condition.lte))
+        return false;
+      return true;
+    }
+    return value === condition;
+  });
+
+const apply = (row: Row, data: Record<string, any>) => {
+  for (const [key, value] of Object.entries(data)) {
+    (row as any)[key] =
+      value && typeof value === "object" && "increment" in value
+        ? (row as any)[key] + value.increment
+        : value;
+  }
+};
+
+describe("notificationDispatchJob", () => {
+  let rows: Row[];
+  let realNotification: typeof prisma.notification;
+  let sendNotification: ReturnType<typeof mock.method>;
+
+  const row = (overrides: Partial<Row> = {}): Row => ({
+    id: `n${rows.length + 1}`,
+    status: "SCHEDULED",
+    scheduledFor: new Date(Date.now() - MINUTE),
+    dispatchAttempts: 0,
+    lockedBy: null,
+    lockedUntil: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    rows = [];
+    realNotification = prisma.notification;
+    (prisma as any).notification = {
+      findMany: async ({ where, take }: any) =>
+        rows
+          .filter((r) => matches(r, where))
+          .slice(0, take)
+          .map(({ id, dispatchAttempts }) => ({ id, dispatchAttempts })),
+      updateMany: async ({ where, data }: any) => {
+        const hit = rows.filter((r) => matches(r, where));
+        hit.forEach((r) => apply(r, data));
+        return { count: hit.length };
+      },
+    };
+
+    // Stands in for a send that always lands while the lease is held
+    sendNotification = mock.method(
+      NotificationController,
+      "sendNotification",
+      async (id: string, lockedBy?: string) => {
+        const target = rows.find((r) => r.id === id);
+        if (!target || target.lockedBy !== lockedBy) return false;
+        apply(target, { status: "SENT", lockedBy: null, lockedUntil: null });
+        return true;
+      }
+    );
+    mock.method(console, "error", () => {});
+  });
+
+  afterEach(() => {
+    (prisma as any).notification = realNotification;
+    mock.restoreAll();
+  });
+
+  it("leases each due notification, counts the attempt and sends it", async () => {
+    rows.push(row(), row({ scheduledFor: new Date(Date.now() + MINUTE) }));
+
+    const result = await notificationDispatchJob.handler();
+
+    assert.equal(result, "dispatched 1 of 1 due notifications");
+    assert.equal(sendNotification.mock.callCount(), 1);
+    assert.deepEqual(sendNotification.mock.calls[0].arguments, [
+      "n1",
+      JobRunner.instanceId,
+    ]);
+    assert.equal(rows[0].status, "SENT");
+    assert.equal(rows[0].dispatchAttempts, 1);
+    assert.equal(rows[1].status, "SCHEDULED");
+  });
+
+  it("leaves notifications leased by another instance alone", async () => {
+    rows.push(
+      row({ lockedBy: "other", lockedUntil: new Date(Date.now() + MINUTE) })
+    );
+
+    const result = await notificationDispatchJob.handler();
+
+    assert.equal(result, "dispatched 0 of 0 due notifications");
+    assert.equal(sendNotification.mock.callCount(), 0);
+    assert.equal(rows[0].lockedBy, "other");
+  });
+
+  it("takes over a lease that has run out", async () => {
+    rows.push(
+      row({ lockedBy: "crashed", lockedUntil: new Date(Date.now() - 1000) })
+    );
+
+    await notificationDispatchJob.handler();
+
+    assert.equal(rows[0].status, "SENT");
+    assert.equal(rows[0].dispatchAttempts, 1);
+  });
+
+  it("skips a row claimed between the query and the lease", async () => {
+    rows.push(row());
+    const { findMany } = (prisma as any).notification;
+    (prisma as any).notification.findMany = async (args: any) => {
+      const due = await findMany(args);
+      // Another instance leases it right after we read it
+      apply(rows[0], {
+        lockedBy: "other",
+        lockedUntil: new Date(Date.now() + MINUTE),
+        dispatchAttempts: { increment: 1 },
+      });
+      return due;
+    };
+
+    const result = await notificationDispatchJob.handler();
+
+    assert.equal(result, "dispatched 0 of 1 due notifications");
+    assert.equal(sendNotification.mock.callCount(), 0);
+    assert.equal(rows[0].lockedBy, "other");
+  });
+
+  it("releases the lease when a send fails so the next run retries", async () => {
+    rows.push(row());
+    sendNotification.mock.mockImplementation(async () => false);
+
+    const result = await notificationDispatchJob.handler();
+
+    assert.equal(result, "dispatched 0 of 1 due notifications (1 failed)");
+    assert.equal(rows[0].status, "SCHEDULED");
+    assert.equal(rows[0].lockedBy, null);
+    assert.equal(rows[0].lockedUntil, null);
+    assert.equal(rows[0].dispatchAttempts, 1);
+
+    await notificationDispatchJob.handler();
+    assert.equal(sendNotification.mock.callCount(), 2);
+    assert.equal(rows[0].dispatchAttempts, 2);
+  });
+
+  it(`gives up after ${MAX_ATTEMPTS} attempts`, async () => {
+    rows.push(row());
+    sendNotification.mock.mockImplementation(async () => false);
+
+    for (let run = 0; run < MAX_ATTEMPTS + 2; run++) {
+      await notificationDispatchJob.handler();
+    }
+
+    assert.equal(sendNotification.mock.callCount(), MAX_ATTEMPTS);
+    assert.equal(rows[0].dispatchAttempts, MAX_ATTEMPTS);
+    assert.equal(rows[0].status, "SCHEDULED");
+    assert.equal(
+      await notificationDispatchJob.handler(),
+      "dispatched 0 of 0 due notifications"
+    );
+  });
+});
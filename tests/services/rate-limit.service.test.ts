@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  LockoutPolicy,
+  MemoryRateLimitStore,
+  RateLimitService,
+} from "../../src/services/rate-limit.service";
+
+const MINUTE = 60 * 1000;
+
+const lockoutPolicy: LockoutPolicy = {
+  windowMs: 15 * MINUTE,
+  max: 3,
+  lockoutMs: 5 * MINUTE,
+  maxLockoutMs: 30 * MINUTE,
+  decayMs: 60 * MINUTE,
+};
+
+describe("RateLimitService", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+    mock.method(Date, "now", () => now);
+    RateLimitService.setStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  describe("hit", () => {
+    const policy = { windowMs: MINUTE, max: 2 };
+
+    it("allows up to max hits in the window", async () => {
+      assert.deepEqual(await RateLimitService.hit("ip", policy), {
+        allowed: true,
+        remaining: 1,
+        retryAfterMs: 0,
+      });
+      assert.equal((await RateLimitService.hit("ip", policy)).remaining, 0);
+
+      const rejected = await RateLimitService.hit("ip", policy);
+      assert.equal(rejected.allowed, false);
+      assert.equal(rejected.retryAfterMs, MINUTE);
+    });
+
+    it("slides the window as old hits expire", async () => {
+      await RateLimitService.hit("ip", policy);
+      now += 40 * 1000;
+      await RateLimitService.hit("ip", policy);
+
+      now += 10 * 1000;
+      const rejected = await RateLimitService.hit("ip", policy);
+      assert.equal(rejected.allowed, false);
+      assert.equal(rejected.retryAfterMs, 10 * 1000);
+
+      now += 10 * 1000;
+      assert.equal((await RateLimitService.hit("ip", policy)).allowed, true);
+    });
+
+    it("does not count rejected requests", async () => {
+      await RateLimitService.hit("ip", policy);
+      await RateLimitService.hit("ip", policy);
+      await RateLimitService.hit("ip", policy);
+
+      now += MINUTE;
+      assert.equal((await RateLimitService.hit("ip", policy)).remaining, 1);
+    });
+
+    it("keeps keys apart", async () => {
+      await RateLimitService.hit("a", policy);
+      await RateLimitService.hit("a", policy);
+      assert.equal((await RateLimitService.hit("b", policy)).allowed, true);
+    });
+  });
+
+  describe("lockouts", () => {
+    const fail = (times: number) =>
+      Promise.all(
+        Array.from({ length: times }, () =>
+          RateLimitService.recordFailure("user", lockoutPolicy)
+        )
+      );
+
+    it("locks after max failures", async () => {
+      const results = await fail(3);
+      assert.equal(results[1], null);
+      assert.equal(results[2].level, 1);
+      assert.equal(await RateLimitService.lockedFor("user"), 5 * MINUTE);
+
+      now += 5 * MINUTE;
+      assert.equal(await RateLimitService.lockedFor("user"), 0);
+    });
+
+    it("doubles repeat lockouts up to the maximum", async () => {
+      const durations = [];
+      for (let i = 0; i < 4; i++) {
+        await fail(3);
+        durations.push(await RateLimitService.lockedFor("user"));
+        now += durations[i];
+      }
+      assert.deepEqual(
+        durations,
+        [5, 10, 20, 30].map((minutes) => minutes * MINUTE)
+      );
+    });
+
+    it("forgets the level after the decay period", async () => {
+      await fail(3);
+      now += 5 * MINUTE + lockoutPolicy.decayMs;
+      await fail(3);
+      assert.equal(await RateLimitService.lockedFor("user"), 5 * MINUTE);
+    });
+
+    it("forgets failures after a success", async () => {
+      await fail(2);
+      await RateLimitService.recordSuccess("user");
+      await fail(2);
+      assert.equal(await RateLimitService.lockedFor("user"), 0);
+    });
+
+    it("unlocks on request", async () => {
+      await fail(3);
+      await RateLimitService.unlock("user");
+      assert.equal(await RateLimitService.lockedFor("user"), 0);
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("rounds up to minutes, then hours", () => {
+      assert.equal(RateLimitService.formatDuration(1), "1 minute");
+      assert.equal(RateLimitService.formatDuration(5 * MINUTE), "5 minutes");
+      assert.equal(RateLimitService.formatDuration(61 * MINUTE), "2 hours");
+    });
+  });
+});
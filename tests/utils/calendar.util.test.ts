@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CalendarEvent, CalendarUtil } from "../../src/utils/calendar.util";
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: "evt1",
+  slug: "hackathon",
+  title: "Hackathon",
+  description: "<p>Build things</p>",
+  location: "Lab 1",
+  startDate: new Date("2025-03-01T09:00:00Z"),
+  endDate: new Date("2025-03-01T17:00:00Z"),
+  status: "UPCOMING",
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  updatedAt: new Date("2025-01-02T00:00:00Z"),
+  ...overrides,
+});
+
+// Undo line folding so properties can be checked whole
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+const property = (ics: string, name: string) =>
+  unfold(ics)
+    .split("\r\n")
+    .find((line) => line.startsWith(`${name}:`));
+
+describe("CalendarUtil.build", () => {
+  it("writes a VEVENT per event with CRLF line endings", () => {
+    const ics = CalendarUtil.build([event()], { name: "Events" });
+
+    assert.ok(ics.startsWith("BEGIN:VCALENDAR\r\n"));
+    assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+    assert.equal(property(ics, "UID"), "UID:evt1@bitsa");
+    assert.equal(property(ics, "DTSTART"), "DTSTART:20250301T090000Z");
+    assert.equal(property(ics, "DTEND"), "DTEND:20250301T170000Z");
+    assert.equal(property(ics, "STATUS"), "STATUS:CONFIRMED");
+  });
+
+  it("escapes backslashes, semicolons, commas and newlines", () => {
+    const ics = CalendarUtil.build(
+      [event({ title: "C:\\dev; tips, tricks\nand more" })],
+      { name: "Events" }
+    );
+    assert.equal(
+      property(ics, "SUMMARY"),
+      "SUMMARY:C:\\\\dev\\; tips\\, tricks\\nand more"
+    );
+  });
+
+  it("turns HTML descriptions into plain text with the event link", () => {
+    const ics = CalendarUtil.build(
+      [event({ description: "<p>Fun &amp; games</p><p>Bring a laptop</p>" })],
+      { name: "Events" }
+    );
+    assert.equal(
+      property(ics, "DESCRIPTION"),
+      "DESCRIPTION:Fun & games\\n\\nBring a laptop\\n\\n/events/hackathon"
+    );
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const title = "é".repeat(100);
+    const ics = CalendarUtil.build([event({ title })], { name: "Events" });
+
+    for (const line of ics.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line, "utf-8") <= 75, line);
+    }
+    assert.equal(property(ics, "SUMMARY"), `SUMMARY:${title}`);
+  });
+
+  it("marks cancelled events and honours statusFor", () => {
+    const ics = CalendarUtil.build(
+      [event({ id: "a", status: "CANCELLED" }), event({ id: "b" })],
+      {
+        name: "Mine",
+        statusFor: (item) => (item.id === "b" ? "TENTATIVE" : undefined),
+      }
+    );
+    const statuses = unfold(ics)
+      .split("\r\n")
+      .filter((line) => line.startsWith("STATUS:"));
+    assert.deepEqual(statuses, ["STATUS:CANCELLED", "STATUS:TENTATIVE"]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ChangeDiffUtil } from "../../src/utils/change-diff.util";
+
+describe("ChangeDiffUtil", () => {
+  describe("diff", () => {
+    it("returns only changed fields", () => {
+      assert.deepEqual(
+        ChangeDiffUtil.diff(
+          { title: "Old", views: 3, published: true },
+          { title: "New", views: 3, published: true }
+        ),
+        { title: { from: "Old", to: "New" } }
+      );
+    });
+
+    it("returns null when nothing changed", () => {
+      assert.equal(
+        ChangeDiffUtil.diff(
+          { at: new Date("2025-01-01"), tags: { b: 1, a: 2 } },
+          { at: new Date("2025-01-01"), tags: { a: 2, b: 1 } }
+        ),
+        null
+      );
+    });
+
+    it("compares only the given fields", () => {
+      assert.deepEqual(
+        ChangeDiffUtil.diff({ a: 1, b: 1 }, { a: 2, b: 2 }, ["b"]),
+        { b: { from: 1, to: 2 } }
+      );
+    });
+
+    it("stores dates as ISO strings and missing values as null", () => {
+      assert.deepEqual(
+        ChangeDiffUtil.diff({}, { publishedAt: new Date("2025-01-01") }),
+        { publishedAt: { from: null, to: "2025-01-01T00:00:00.000Z" } }
+      );
+    });
+
+    it("redacts sensitive fields but records that they changed", () => {
+      assert.deepEqual(
+        ChangeDiffUtil.diff(
+          { password: "old-hash", twoFactorSecret: null, name: "A" },
+          { password: "new-hash", twoFactorSecret: "secret", name: "A" }
+        ),
+        {
+          password: { from: "[REDACTED]", to: "[REDACTED]" },
+          twoFactorSecret: { from: "[REDACTED]", to: "[REDACTED]" },
+        }
+      );
+    });
+
+    it("truncates long text", () => {
+      const changes = ChangeDiffUtil.diff(
+        { content: "" },
+        { content: "x".repeat(1500) }
+      );
+      assert.equal(changes.content.to, `${"x".repeat(1000)}… (+500 chars)`);
+    });
+  });
+
+  describe("summarize", () => {
+    it("lists the changed fields", () => {
+      assert.equal(
+        ChangeDiffUtil.summarize({
+          title: { from: "a", to: "b" },
+          startDate: { from: null, to: "c" },
+        }),
+        " (title, startDate)"
+      );
+      assert.equal(ChangeDiffUtil.summarize(null), "");
+    });
+  });
+});
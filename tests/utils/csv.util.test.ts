@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CsvUtil } from "../../src/utils/csv.util";
+
+describe("CsvUtil.parse", () => {
+  it("splits rows and cells", () => {
+    assert.deepEqual(CsvUtil.parse("name,email\nJane,jane@example.com\n"), [
+      ["name", "email"],
+      ["Jane", "jane@example.com"],
+    ]);
+  });
+
+  it("handles CRLF and a missing final newline", () => {
+    assert.deepEqual(CsvUtil.parse("a,b\r\n1,2"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("reads quoted cells with commas, newlines and doubled quotes", () => {
+    assert.deepEqual(
+      CsvUtil.parse('name,bio\n"Doe, Jane","Says ""hi""\ntwice"\n'),
+      [
+        ["name", "bio"],
+        ["Doe, Jane", 'Says "hi"\ntwice'],
+      ]
+    );
+  });
+
+  it("keeps empty cells", () => {
+    assert.deepEqual(CsvUtil.parse("a,,c\n,,x"), [
+      ["a", "", "c"],
+      ["", "", "x"],
+    ]);
+  });
+
+  it("drops blank lines and a leading BOM", () => {
+    assert.deepEqual(CsvUtil.parse("\uFEFFa,b\n\n , \n1,2\n\n"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("treats quotes inside an unquoted cell as text", () => {
+    assert.deepEqual(CsvUtil.parse('5" disk,ok'), [['5" disk', "ok"]]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EventStatusUtil } from "../../src/utils/event-status.util";
+
+const event = {
+  status: "UPCOMING" as const,
+  startDate: new Date("2025-03-01T09:00:00Z"),
+  endDate: new Date("2025-03-01T17:00:00Z"),
+};
+
+describe("EventStatusUtil.derive", () => {
+  it("is UPCOMING before the start", () => {
+    assert.equal(
+      EventStatusUtil.derive(event, new Date("2025-03-01T08:59:59Z")),
+      "UPCOMING"
+    );
+  });
+
+  it("is ONGOING from the start until the end", () => {
+    assert.equal(EventStatusUtil.derive(event, event.startDate), "ONGOING");
+    assert.equal(
+      EventStatusUtil.derive(event, new Date("2025-03-01T16:59:59Z")),
+      "ONGOING"
+    );
+  });
+
+  it("is COMPLETED from the end", () => {
+    assert.equal(EventStatusUtil.derive(event, event.endDate), "COMPLETED");
+  });
+
+  it("moves a stale status along", () => {
+    assert.equal(
+      EventStatusUtil.derive(
+        { ...event, status: "COMPLETED" },
+        new Date("2025-02-01T00:00:00Z")
+      ),
+      "UPCOMING"
+    );
+  });
+
+  it("never changes CANCELLED", () => {
+    assert.equal(
+      EventStatusUtil.derive(
+        { ...event, status: "CANCELLED" },
+        event.startDate
+      ),
+      "CANCELLED"
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FormValidatorUtil,
+  MAX_FILE_MB,
+} from "../../src/utils/form-validator.util";
+
+const MB = 1024 * 1024;
+
+const fileField = (validation: object | null = null) => ({
+  id: "cv",
+  label: "CV",
+  fieldType: "FILE" as const,
+  required: true,
+  options: [],
+  validation: validation && JSON.stringify(validation),
+});
+
+const upload = (size: number, mimetype: string) =>
+  ({ size, mimetype, originalname: "upload" } as Express.Multer.File);
+
+const validate = (
+  field: ReturnType<typeof fileField>,
+  file?: Express.Multer.File
+) => FormValidatorUtil.validateResponses([field], {}, file ? { cv: file } : {});
+
+describe("FormValidatorUtil FILE fields", () => {
+  it("requires a file when the field is required", () => {
+    assert.deepEqual(validate(fileField()).errors, { cv: ["CV is required"] });
+  });
+
+  it("accepts images and PDFs up to 5MB by default", () => {
+    assert.equal(
+      validate(fileField(), upload(5 * MB, "image/png")).isValid,
+      true
+    );
+    assert.equal(
+      validate(fileField(), upload(MB, "application/pdf")).isValid,
+      true
+    );
+  });
+
+  it("rejects files over the default size", () => {
+    assert.deepEqual(
+      validate(fileField(), upload(5 * MB + 1, "image/png")).errors,
+      {
+        cv: ["CV must be smaller than 5MB"],
+      }
+    );
+  });
+
+  it("rejects types outside the defaults", () => {
+    const { errors } = validate(fileField(), upload(MB, "application/zip"));
+    assert.deepEqual(errors, {
+      cv: ["CV must be one of these file types: image/*, application/pdf"],
+    });
+  });
+
+  it("applies the field's own size and type rules", () => {
+    const field = fileField({
+      maxSizeMB: 1,
+      allowedTypes: ["application/pdf"],
+    });
+    assert.equal(validate(field, upload(MB, "application/pdf")).isValid, true);
+    assert.deepEqual(validate(field, upload(2 * MB, "image/png")).errors, {
+      cv: [
+        "CV must be smaller than 1MB",
+        "CV must be one of these file types: application/pdf",
+      ],
+    });
+  });
+
+  it("leaves stored file values to the caller", () => {
+    const { responses } = validate(fileField(), upload(MB, "image/jpeg"));
+    assert.deepEqual(responses, {});
+  });
+
+  describe("validateFieldDefinitions", () => {
+    const define = (validation: object) =>
+      FormValidatorUtil.validateFieldDefinitions([
+        { label: "CV", fieldType: "FILE", validation },
+      ]);
+
+    it(`limits maxSizeMB to ${MAX_FILE_MB}MB`, () => {
+      assert.deepEqual(define({ maxSizeMB: MAX_FILE_MB }), {});
+      assert.deepEqual(define({ maxSizeMB: MAX_FILE_MB + 1 }), {
+        0: [`maxSizeMB must be between 0 and ${MAX_FILE_MB}`],
+      });
+      assert.deepEqual(define({ maxSizeMB: 0 }), {
+        0: [`maxSizeMB must be between 0 and ${MAX_FILE_MB}`],
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { TotpUtil } from "../../src/utils/totp.util";
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890" for SHA-1
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// The RFC lists 8-digit codes; a 6-digit code is their last six digits
+const RFC_VECTORS: [number, string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+const at = (seconds: number) => mock.method(Date, "now", () => seconds * 1000);
+
+describe("TotpUtil", () => {
+  afterEach(() => mock.restoreAll());
+
+  describe("verify", () => {
+    for (const [seconds, code] of RFC_VECTORS) {
+      it(`matches the RFC 6238 code at T=${seconds}`, () => {
+        at(seconds);
+        assert.equal(
+          TotpUtil.verify(RFC_SECRET, code),
+          Math.floor(seconds / 30)
+        );
+      });
+    }
+
+    it("accepts codes one step either side of now", () => {
+      const step = Math.floor(1234567890 / 30);
+      at(1234567890 + 30);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "005924"), step);
+      at(1234567890 - 30);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "005924"), step);
+    });
+
+    it("rejects codes two steps away", () => {
+      at(1234567890 + 60);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "005924"), null);
+    });
+
+    it("rejects a code from an already used step", () => {
+      const step = Math.floor(1234567890 / 30);
+      at(1234567890);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "005924", step), null);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "005924", step - 1), step);
+    });
+
+    it("ignores spaces and rejects malformed codes", () => {
+      at(59);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "287 082"), 1);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "28708"), null);
+      assert.equal(TotpUtil.verify(RFC_SECRET, "abcdef"), null);
+    });
+  });
+
+  describe("keyUri", () => {
+    it("describes the secret for authenticator apps", () => {
+      const uri = new URL(TotpUtil.keyUri(RFC_SECRET, "jane@example.com"));
+      assert.equal(uri.protocol, "otpauth:");
+      assert.equal(uri.searchParams.get("secret"), RFC_SECRET);
+      assert.equal(uri.searchParams.get("digits"), "6");
+      assert.equal(uri.searchParams.get("period"), "30");
+      assert.match(decodeURIComponent(uri.pathname), /:jane@example\.com$/);
+    });
+
+    it("generates base32 secrets", () => {
+      assert.match(TotpUtil.generateSecret(), /^[A-Z2-7]{32}$/);
+    });
+  });
+
+  describe("encryptSecret", () => {
+    it("round-trips through decryptSecret", () => {
+      const stored = TotpUtil.encryptSecret(RFC_SECRET);
+      assert.notEqual(stored, RFC_SECRET);
+      assert.equal(TotpUtil.decryptSecret(stored), RFC_SECRET);
+    });
+
+    it("rejects a tampered value", () => {
+      const [iv, tag, encrypted] =
+        TotpUtil.encryptSecret(RFC_SECRET).split(".");
+      const flipped = Buffer.from(encrypted, "base64");
+      flipped[0] ^= 1;
+      assert.throws(() =>
+        TotpUtil.decryptSecret([iv, tag, flipped.toString("base64")].join("."))
+      );
+    });
+  });
+
+  describe("recovery codes", () => {
+    it("generates ten distinct codes", () => {
+      const codes = TotpUtil.generateRecoveryCodes();
+      assert.equal(codes.length, 10);
+      assert.equal(new Set(codes).size, 10);
+      for (const code of codes) assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    });
+
+    it("hashes ignoring case and dashes", () => {
+      assert.equal(
+        TotpUtil.hashRecoveryCode("3F9A1-C07BE"),
+        TotpUtil.hashRecoveryCode("3f9a1c07be")
+      );
+    });
+  });
+});